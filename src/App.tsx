@@ -2,7 +2,16 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { Login } from './pages/Login';
 import { Dashboard } from './pages/Dashboard';
+import { Admin } from './pages/Admin';
+import { Compliance } from './pages/Compliance';
+import { History } from './pages/History';
+import { ImportExport } from './pages/ImportExport';
+import { Invoices } from './pages/Invoices';
+import { Leave } from './pages/Leave';
+import { Projects } from './pages/Projects';
+import { WorkPolicy } from './pages/WorkPolicy';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { hasRole } from './lib/roles';
 
 const PrivateRoute = ({ children }: { children: React.ReactNode }) => {
   const { session } = useAuth();
@@ -12,6 +21,14 @@ const PrivateRoute = ({ children }: { children: React.ReactNode }) => {
   return <>{children}</>;
 };
 
+const RequireRole = ({ role, children }: { role: string; children: React.ReactNode }) => {
+  const { user } = useAuth();
+  if (!hasRole(user, role)) {
+    return <Navigate to="/" replace />;
+  }
+  return <>{children}</>;
+};
+
 function App() {
   return (
     <AuthProvider>
@@ -23,6 +40,56 @@ function App() {
               <Dashboard />
             </PrivateRoute>
           } />
+          <Route path="/history" element={
+            <PrivateRoute>
+              <History />
+            </PrivateRoute>
+          } />
+          <Route path="/import-export" element={
+            <PrivateRoute>
+              <ImportExport />
+            </PrivateRoute>
+          } />
+          <Route path="/leave" element={
+            <PrivateRoute>
+              <Leave />
+            </PrivateRoute>
+          } />
+          <Route path="/admin" element={
+            <PrivateRoute>
+              <RequireRole role="admin">
+                <Admin />
+              </RequireRole>
+            </PrivateRoute>
+          } />
+          <Route path="/admin/projects" element={
+            <PrivateRoute>
+              <RequireRole role="admin">
+                <Projects />
+              </RequireRole>
+            </PrivateRoute>
+          } />
+          <Route path="/admin/policy" element={
+            <PrivateRoute>
+              <RequireRole role="admin">
+                <WorkPolicy />
+              </RequireRole>
+            </PrivateRoute>
+          } />
+          <Route path="/admin/invoices" element={
+            <PrivateRoute>
+              <RequireRole role="admin">
+                <Invoices />
+              </RequireRole>
+            </PrivateRoute>
+          } />
+          <Route path="/admin/compliance" element={
+            <PrivateRoute>
+              <RequireRole role="admin">
+                <Compliance />
+              </RequireRole>
+            </PrivateRoute>
+          } />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </Router>
@@ -0,0 +1,138 @@
+import { useState, useEffect } from 'react';
+import { fetchTimer, RunningTimer, startTimer, StoppedTimer, stopTimer } from '../lib/timerApi';
+import { CatalogueProject, projectLabel } from '../lib/projectsApi';
+import { AlertTriangle, Loader2, Play, Square, Timer as TimerIcon } from 'lucide-react';
+
+interface TimerProps {
+  accessToken: string;
+  catalogue: CatalogueProject[];
+  maxDescriptionLength: number;
+  // Called with the rounded hours once the timer has been stopped
+  onStop: (stopped: StoppedTimer) => void;
+}
+
+const formatElapsed = (startedAt: string, now: number) => {
+  const seconds = Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000));
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${Math.floor(seconds / 3600)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+};
+
+// Start/stop timer for one project and task. The running timer lives on the
+// server, so it survives reloads and shows up on other devices.
+export const Timer = ({ accessToken, catalogue, maxDescriptionLength, onStop }: TimerProps) => {
+  const [timer, setTimer] = useState<RunningTimer | null>(null);
+  const [project, setProject] = useState('');
+  const [description, setDescription] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    fetchTimer(accessToken)
+      .then(({ timer }) => setTimer(timer))
+      .catch((error) => setError(error instanceof Error ? error.message : 'Failed to load timer'));
+  }, [accessToken]);
+
+  useEffect(() => {
+    if (!timer) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  const handleStart = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      const { timer } = await startTimer(accessToken, project, description);
+      setTimer(timer);
+      setNow(Date.now());
+      setDescription('');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to start timer');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStop = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      const stopped = await stopTimer(accessToken);
+      setTimer(null);
+      onStop(stopped);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to stop timer');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runningProject = timer && catalogue.find(p => p.code === timer.project);
+
+  return (
+    <div className="mb-6 p-4 bg-white border border-gray-200 rounded-lg text-sm">
+      {timer ? (
+        <>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center min-w-0">
+              <TimerIcon className="h-4 w-4 mr-2 text-indigo-600 flex-shrink-0" />
+              <span className="font-mono text-lg text-gray-900 mr-3">{formatElapsed(timer.startedAt, now)}</span>
+              <span className="truncate text-gray-700">
+                {runningProject ? projectLabel(runningProject) : timer.project}
+                {timer.description && ` · ${timer.description}`}
+              </span>
+            </div>
+            <button
+              type="button"
+              onClick={handleStop}
+              disabled={busy}
+              className="ml-3 inline-flex items-center px-3 py-1.5 rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+            >
+              {busy ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Square className="h-4 w-4 mr-1" />}
+              Stop
+            </button>
+          </div>
+          {timer.overnight && (
+            <p className="mt-2 flex items-center text-amber-700">
+              <AlertTriangle className="h-4 w-4 mr-1" />
+              This timer has been running since {new Date(timer.startedAt).toLocaleString()}. Check the hours after stopping it.
+            </p>
+          )}
+        </>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <TimerIcon className="h-4 w-4 text-gray-500" />
+          <select
+            value={project}
+            onChange={(e) => setProject(e.target.value)}
+            className="rounded-md border-gray-300 text-sm py-1.5"
+          >
+            <option value="">Project to time</option>
+            {catalogue.map(p => (
+              <option key={p.code} value={p.code}>{projectLabel(p)}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Task"
+            maxLength={maxDescriptionLength}
+            className="flex-grow rounded-md border-gray-300 text-sm py-1.5"
+          />
+          <button
+            type="button"
+            onClick={handleStart}
+            disabled={!project || busy}
+            className="inline-flex items-center px-3 py-1.5 rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {busy ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Play className="h-4 w-4 mr-1" />}
+            Start
+          </button>
+        </div>
+      )}
+      {error && <p className="mt-2 text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,343 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { deleteDay, EntryLimits, fetchRange, saveDay, TimesheetRange } from '../lib/timesheetApi';
+import { CatalogueProject, projectLabel } from '../lib/projectsApi';
+import { addDays, startOfWeek, weekDates } from '../lib/dates';
+import { ChevronLeft, ChevronRight, Plus, Trash2, Check, Loader2, Lock } from 'lucide-react';
+
+const DAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// One project/task line of the grid with its hours per date
+interface GridRow {
+  project: string;
+  description: string;
+  hours: Record<string, string>;
+}
+
+type DayProjects = { name: string; tasks: { description: string; hours: number }[] }[];
+
+interface WeekGridProps {
+  accessToken: string;
+  today: string;
+  catalogue: CatalogueProject[];
+  limits: EntryLimits;
+}
+
+const emptyRow = (): GridRow => ({ project: '', description: '', hours: {} });
+
+const rowHasHours = (row: GridRow) => Object.values(row.hours).some(hours => Number(hours) > 0);
+
+// Spread submitted entries over rows, reusing a row for the same project and
+// task on another day so a repeated task reads as one line
+function toRows(days: TimesheetRange['days']): GridRow[] {
+  const rows: GridRow[] = [];
+  for (const day of days) {
+    for (const project of day.projects) {
+      for (const task of project.tasks) {
+        let row = rows.find(r =>
+          r.project === project.name && r.description === task.description && !r.hours[day.date]
+        );
+        if (!row) {
+          row = { project: project.name, description: task.description, hours: {} };
+          rows.push(row);
+        }
+        row.hours[day.date] = String(task.hours);
+      }
+    }
+  }
+  return rows.length > 0 ? rows : [emptyRow()];
+}
+
+// The date's column as the projects/tasks payload the timesheet function takes
+function dayProjects(rows: GridRow[], date: string): DayProjects {
+  const projects: DayProjects = [];
+  for (const row of rows) {
+    const hours = Number(row.hours[date]);
+    if (!(hours > 0)) continue;
+    let project = projects.find(p => p.name === row.project);
+    if (!project) {
+      project = { name: row.project, tasks: [] };
+      projects.push(project);
+    }
+    project.tasks.push({ description: row.description.trim(), hours });
+  }
+  return projects;
+}
+
+export const WeekGrid = ({ accessToken, today, catalogue, limits }: WeekGridProps) => {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(today));
+  const [range, setRange] = useState<TimesheetRange | null>(null);
+  const [rows, setRows] = useState<GridRow[]>([emptyRow()]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+  const [dayErrors, setDayErrors] = useState<Record<string, string>>({});
+  // Each day's payload as loaded, to tell which days were changed
+  const [loadedContents, setLoadedContents] = useState<Record<string, string>>({});
+  // The request and idempotency key of each day's last failed save. Only a
+  // retry of that same request reuses the key; any other save gets a new one.
+  const failedSaves = useRef(new Map<string, { request: string; key: string }>());
+
+  const dates = weekDates(weekStart);
+
+  const loadWeek = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const week = await fetchRange(accessToken, weekStart, addDays(weekStart, 6));
+      const loadedRows = toRows(week.days);
+      setRange(week);
+      setRows(loadedRows);
+      setLoadedContents(Object.fromEntries(
+        week.days.map(day => [day.date, JSON.stringify(dayProjects(loadedRows, day.date))])
+      ));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load week');
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken, weekStart]);
+
+  useEffect(() => {
+    loadWeek();
+    setDayErrors({});
+  }, [loadWeek]);
+
+  const dayOf = (date: string) => range?.days.find(day => day.date === date);
+  const isLocked = (date: string) => date > today || dayOf(date)?.approval.status === 'approved';
+
+  const updateRow = (index: number, changes: Partial<GridRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const updateHours = (index: number, date: string, value: string) => {
+    updateRow(index, { hours: { ...rows[index].hours, [date]: value } });
+  };
+
+  const removeRow = (index: number) => {
+    const remaining = rows.filter((_, i) => i !== index);
+    setRows(remaining.length > 0 ? remaining : [emptyRow()]);
+  };
+
+  const dayTotal = (date: string) => rows.reduce((sum, row) => sum + (Number(row.hours[date]) || 0), 0);
+  const rowTotal = (row: GridRow) => dates.reduce((sum, date) => sum + (Number(row.hours[date]) || 0), 0);
+  const weekTotal = dates.reduce((sum, date) => sum + dayTotal(date), 0);
+
+  // Each changed day goes through the same POST/PUT/DELETE calls as the day
+  // form; one failing day does not stop the others
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!range) return;
+
+    setSaving(true);
+    setError('');
+    setSuccessMessage('');
+    const errors: Record<string, string> = {};
+    let saved = 0;
+
+    for (const date of dates) {
+      if (isLocked(date)) continue;
+
+      const projects = dayProjects(rows, date);
+      const contents = JSON.stringify(projects);
+      if (contents === loadedContents[date]) continue;
+      const hasSubmitted = (dayOf(date)?.projects.length || 0) > 0;
+
+      try {
+        if (projects.length === 0) {
+          await deleteDay(accessToken, date);
+        } else {
+          const method = hasSubmitted ? 'PUT' : 'POST';
+          const request = `${method} ${contents}`;
+          const failed = failedSaves.current.get(date);
+          const key = failed?.request === request ? failed.key : crypto.randomUUID();
+          failedSaves.current.set(date, { request, key });
+          await saveDay(accessToken, { date, projects }, key, method);
+          failedSaves.current.delete(date);
+        }
+        saved++;
+      } catch (error) {
+        errors[date] = error instanceof Error ? error.message : 'Failed to save';
+      }
+    }
+
+    // Reload first: it clears the banners set below
+    await loadWeek();
+    setDayErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      setError(`${Object.keys(errors).length} day(s) could not be saved; see the highlighted columns`);
+    } else {
+      setSuccessMessage(saved > 0 ? `Saved ${saved} day(s)` : 'Nothing to save');
+    }
+    setSaving(false);
+  };
+
+  const inputClasses = "block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm py-2 px-2 placeholder:text-gray-400 disabled:bg-gray-100 disabled:text-gray-400";
+  const navButtonClasses = "inline-flex items-center p-2 border border-gray-300 shadow-sm rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50";
+
+  return (
+    <form onSubmit={handleSave} className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-2">
+            <button type="button" onClick={() => setWeekStart(addDays(weekStart, -7))} className={navButtonClasses}>
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <input
+              type="date"
+              value={weekStart}
+              max={today}
+              onChange={(e) => e.target.value && setWeekStart(startOfWeek(e.target.value))}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm py-2 px-3"
+            />
+            <button
+              type="button"
+              onClick={() => setWeekStart(addDays(weekStart, 7))}
+              disabled={addDays(weekStart, 7) > today}
+              className={navButtonClasses}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+          <span className="text-sm text-gray-500">Week of {weekStart}</span>
+        </div>
+
+        {successMessage && (
+          <div className="mb-4 p-4 bg-green-100 border border-green-400 text-green-700 rounded">
+            {successMessage}
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="py-2 pr-2 text-left font-medium text-gray-700">Project</th>
+                  <th className="px-2 py-2 text-left font-medium text-gray-700">Task</th>
+                  {dates.map((date, index) => (
+                    <th key={date} className={`px-1 py-2 text-center font-medium ${dayErrors[date] ? 'text-red-600' : 'text-gray-700'}`}>
+                      <div className="flex items-center justify-center">
+                        {DAY_LABELS[index]}
+                        {dayOf(date)?.approval.status === 'approved' && <Lock className="h-3 w-3 ml-1 text-green-600" />}
+                      </div>
+                      <div className="text-xs font-normal text-gray-400">{date.slice(5)}</div>
+                    </th>
+                  ))}
+                  <th className="pl-2 py-2 text-right font-medium text-gray-700">Total</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => (
+                  <tr key={index}>
+                    <td className="py-1 pr-2 min-w-40">
+                      <select
+                        required={rowHasHours(row)}
+                        value={row.project}
+                        onChange={(e) => updateRow(index, { project: e.target.value })}
+                        className={inputClasses}
+                      >
+                        <option value="">Project</option>
+                        {catalogue.map((option) => (
+                          <option key={option.id} value={option.code}>{projectLabel(option)}</option>
+                        ))}
+                        {row.project && !catalogue.some(option => option.code === row.project) && (
+                          <option value={row.project} disabled>{row.project} (not available)</option>
+                        )}
+                      </select>
+                    </td>
+                    <td className="px-2 py-1 min-w-48">
+                      <input
+                        type="text"
+                        placeholder="Task Description"
+                        required={rowHasHours(row)}
+                        maxLength={limits.maxDescriptionLength}
+                        value={row.description}
+                        onChange={(e) => updateRow(index, { description: e.target.value })}
+                        className={inputClasses}
+                      />
+                    </td>
+                    {dates.map((date) => (
+                      <td key={date} className="px-1 py-1 w-16">
+                        <input
+                          type="number"
+                          min="0"
+                          max={limits.maxDailyHours}
+                          step={limits.hoursIncrement}
+                          disabled={isLocked(date)}
+                          value={row.hours[date] || ''}
+                          onChange={(e) => updateHours(index, date, e.target.value)}
+                          className={`${inputClasses} text-center`}
+                        />
+                      </td>
+                    ))}
+                    <td className="pl-2 py-1 text-right font-medium text-gray-900">{rowTotal(row)}</td>
+                    <td className="pl-2 py-1">
+                      <button
+                        type="button"
+                        onClick={() => removeRow(index)}
+                        className="p-1 text-red-600 hover:text-red-900 focus:outline-none"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="border-t border-gray-200">
+                  <td colSpan={2} className="py-2 pr-2 text-right font-medium text-gray-700">Day total</td>
+                  {dates.map((date) => (
+                    <td
+                      key={date}
+                      title={dayErrors[date]}
+                      className={`px-1 py-2 text-center font-semibold ${dayTotal(date) > limits.maxDailyHours || dayErrors[date] ? 'text-red-600' : 'text-gray-900'}`}
+                    >
+                      {dayTotal(date)}
+                    </td>
+                  ))}
+                  <td className="pl-2 py-2 text-right font-semibold text-gray-900">{weekTotal}</td>
+                  <td />
+                </tr>
+              </tfoot>
+            </table>
+
+            {Object.entries(dayErrors).map(([date, message]) => (
+              <p key={date} className="mt-2 text-sm text-red-600">{date}: {message}</p>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-between">
+          <button
+            type="button"
+            onClick={() => setRows([...rows, emptyRow()])}
+            className="inline-flex items-center px-4 py-2.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Row
+          </button>
+          <button
+            type="submit"
+            disabled={saving || loading}
+            className="inline-flex items-center px-4 py-2.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Check className="h-4 w-4 mr-2" />}
+            Save Week
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,33 @@
+import { callFunction } from './functions';
+import type { ApprovalStatus } from './timesheetApi';
+
+export interface TeamMemberWeek {
+  id: string;
+  email: string;
+  name: string;
+  hours: Record<string, number>;
+  expected: Record<string, number>;
+  statuses: Record<string, ApprovalStatus>;
+  total: number;
+}
+
+export interface TeamOverview {
+  weekStart: string;
+  dates: string[];
+  users: TeamMemberWeek[];
+}
+
+export const fetchTeamOverview = (accessToken: string, week: string) =>
+  callFunction<TeamOverview>('team-overview', accessToken, `?week=${encodeURIComponent(week)}`);
+
+export const decideTimesheet = (
+  accessToken: string,
+  userId: string,
+  dates: string[],
+  decision: 'approved' | 'rejected' | 'reopened',
+  comment?: string
+) =>
+  callFunction<{ message: string; updated: string[] }>('timesheet-approvals', accessToken, '', {
+    method: 'POST',
+    body: JSON.stringify({ userId, dates, decision, comment }),
+  });
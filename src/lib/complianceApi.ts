@@ -0,0 +1,56 @@
+import { callFunction } from './functions';
+
+export interface StatusCounts {
+  complete: number;
+  incomplete: number;
+  missing: number;
+  // Share of working days logged in full; null without any working days
+  complianceRate: number | null;
+}
+
+export interface PersonCompliance extends StatusCounts {
+  userId: string;
+  email: string;
+  name: string;
+  hoursLogged: number;
+  expected: number;
+  currentMissingStreak: number;
+  longestMissingStreak: number;
+}
+
+export interface WeekCompliance extends StatusCounts {
+  weekStart: string;
+}
+
+export interface MonitorRun {
+  id: string;
+  trigger: 'schedule' | 'rerun';
+  triggeredBy: string | null;
+  dates: string[];
+  users: number;
+  missing: number;
+  incomplete: number;
+  createdAt: string;
+}
+
+export interface ComplianceHistory {
+  from: string;
+  to: string;
+  team: StatusCounts;
+  people: PersonCompliance[];
+  weeks: WeekCompliance[];
+  runs: MonitorRun[];
+}
+
+export const fetchCompliance = (accessToken: string, from: string, to: string) =>
+  callFunction<ComplianceHistory>(
+    'compliance',
+    accessToken,
+    `?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`
+  );
+
+export const rerunCheck = (accessToken: string, date: string) =>
+  callFunction<{ message: string; run: MonitorRun }>('compliance', accessToken, '', {
+    method: 'POST',
+    body: JSON.stringify({ date }),
+  });
@@ -0,0 +1,98 @@
+import { parseCsv, unescapeFormula } from '../../supabase/functions/_shared/csv.ts';
+import { isValidDateString } from './dates';
+import { DayPayload } from './timesheetApi';
+
+export * from '../../supabase/functions/_shared/csv.ts';
+
+// Headings written by the export and the spreadsheet mirror; a trailing
+// Status column from the spreadsheet is ignored
+const IMPORT_HEADERS = ['date', 'project', 'task', 'hours'];
+
+// Each import is previewed one date at a time, so keep files to a quarter
+export const MAX_IMPORT_DAYS = 92;
+
+// One date's rows, shaped like a Dashboard submission, with the file row
+// number of every task so server errors can be pointed back at it
+export interface ImportDay extends DayPayload {
+  rowNumbers: number[][];
+}
+
+export interface ParsedImport {
+  days: ImportDay[];
+  // Problems found before anything is sent, keyed by file row number
+  rowErrors: Record<number, string>;
+  rowCount: number;
+}
+
+export const parseImport = (text: string, today: string): ParsedImport => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || header.slice(0, 4).map(heading => heading.trim().toLowerCase()).join() !== IMPORT_HEADERS.join()) {
+    throw new Error('The first row must be the headings Date, Project, Task, Hours');
+  }
+
+  const rowErrors: Record<number, string> = {};
+  const byDate = new Map<string, ImportDay>();
+
+  rows.forEach((fields, index) => {
+    // Row 1 is the header
+    const rowNumber = index + 2;
+    const [date = '', project = '', description = '', hours = ''] = fields.map(field => unescapeFormula(field.trim()));
+
+    if (!isValidDateString(date)) {
+      rowErrors[rowNumber] = 'Date must be YYYY-MM-DD';
+    } else if (date > today) {
+      rowErrors[rowNumber] = 'Date is in the future';
+    } else if (!project) {
+      rowErrors[rowNumber] = 'Project is required';
+    } else if (!description) {
+      rowErrors[rowNumber] = 'Task is required';
+    } else if (!(Number(hours) > 0)) {
+      rowErrors[rowNumber] = 'Hours must be a positive number';
+    }
+    if (rowErrors[rowNumber]) return;
+
+    const day = byDate.get(date) || { date, projects: [], rowNumbers: [] };
+    let projectIndex = day.projects.findIndex(p => p.name === project);
+    if (projectIndex === -1) {
+      projectIndex = day.projects.push({ name: project, tasks: [] }) - 1;
+      day.rowNumbers.push([]);
+    }
+    day.projects[projectIndex].tasks.push({ description, hours });
+    day.rowNumbers[projectIndex].push(rowNumber);
+    byDate.set(date, day);
+  });
+
+  if (byDate.size > MAX_IMPORT_DAYS) {
+    throw new Error(`A file can cover at most ${MAX_IMPORT_DAYS} dates; split it and import each part`);
+  }
+
+  return {
+    days: [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    rowErrors,
+    rowCount: rows.length
+  };
+};
+
+// Server field errors for a day, e.g. `projects.1.tasks.0.hours`, moved onto
+// the file rows they came from. Errors about the whole day land on all of its rows.
+export const rowErrorsFor = (day: ImportDay, fieldErrors: Record<string, string>, message: string) => {
+  const errors: Record<number, string> = {};
+  const allRows = day.rowNumbers.flat();
+
+  for (const [path, error] of Object.entries(fieldErrors)) {
+    const match = path.match(/^projects\.(\d+)(?:\.tasks\.(\d+))?/);
+    const rows = match
+      ? match[2] !== undefined
+        ? [day.rowNumbers[Number(match[1])]?.[Number(match[2])]]
+        : day.rowNumbers[Number(match[1])] || []
+      : allRows;
+    for (const row of rows) {
+      if (row !== undefined && !errors[row]) errors[row] = error;
+    }
+  }
+
+  if (Object.keys(errors).length === 0) {
+    for (const row of allRows) errors[row] = message;
+  }
+  return errors;
+};
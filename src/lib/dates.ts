@@ -0,0 +1,10 @@
+import type { User } from '@supabase/supabase-js';
+import { resolveTimeZone } from '../../supabase/functions/_shared/dates.ts';
+
+export * from '../../supabase/functions/_shared/dates.ts';
+
+export const orgTimeZone = resolveTimeZone(import.meta.env.VITE_ORG_TIMEZONE);
+
+// An admin can override the organisation timezone through a user's app metadata
+export const userTimeZone = (user: User | null) =>
+  resolveTimeZone(user?.app_metadata?.timezone, orgTimeZone);
@@ -0,0 +1,83 @@
+import { callFunction } from './functions';
+
+// Unsubmitted Dashboard forms, kept per user and date in localStorage and,
+// when the app is built with VITE_SERVER_DRAFTS=true, on the server as well
+// so they follow the user to another device.
+
+export interface DraftProject {
+  name: string;
+  tasks: { description: string; hours: string }[];
+}
+
+export interface Draft {
+  date: string;
+  projects: DraftProject[];
+  // True when the draft replaces entries already submitted for the date
+  editing: boolean;
+  updatedAt: string;
+}
+
+const serverDrafts = import.meta.env.VITE_SERVER_DRAFTS === 'true';
+
+const storageKey = (userId: string, date: string) => `timesheet-draft:${userId}:${date}`;
+
+const request = <T>(accessToken: string, path: string, init: RequestInit = {}) =>
+  callFunction<T>('timesheet-drafts', accessToken, path, init);
+
+// A form with nothing typed into it is not worth keeping
+export const isBlankForm = (projects: DraftProject[]) =>
+  projects.every(project => !project.name && project.tasks.every(task => !task.description && !task.hours));
+
+const readLocalDraft = (userId: string, date: string): Draft | null => {
+  try {
+    const stored = localStorage.getItem(storageKey(userId, date));
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Written straight away so nothing typed is lost if the tab closes
+export const saveLocalDraft = (userId: string, draft: Draft) => {
+  localStorage.setItem(storageKey(userId, draft.date), JSON.stringify(draft));
+};
+
+export const saveServerDraft = async (accessToken: string, draft: Draft) => {
+  if (!serverDrafts) return;
+  await request<{ message: string }>(accessToken, '', {
+    method: 'PUT',
+    body: JSON.stringify(draft),
+  });
+};
+
+// The newer of the local and server copies
+export const loadDraft = async (accessToken: string, userId: string, date: string): Promise<Draft | null> => {
+  const local = readLocalDraft(userId, date);
+  if (!serverDrafts) return local;
+
+  try {
+    const { draft: remote } = await request<{ draft: Draft | null }>(
+      accessToken,
+      `?date=${encodeURIComponent(date)}`
+    );
+    if (!remote) return local;
+    if (!local) return remote;
+    return Date.parse(remote.updatedAt) > Date.parse(local.updatedAt) ? remote : local;
+  } catch {
+    // Offline or the function is unavailable; the local copy is still good
+    return local;
+  }
+};
+
+export const discardDraft = async (accessToken: string, userId: string, date: string) => {
+  localStorage.removeItem(storageKey(userId, date));
+  if (!serverDrafts) return;
+
+  try {
+    await request<{ message: string }>(accessToken, `?date=${encodeURIComponent(date)}`, {
+      method: 'DELETE',
+    });
+  } catch {
+    // A leftover server copy is harmless; it is replaced by the next draft for the date
+  }
+};
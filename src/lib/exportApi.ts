@@ -0,0 +1,26 @@
+import { downloadFunction } from './functions';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportSelection {
+  from: string;
+  to: string;
+  format: ExportFormat;
+  project?: string;
+  // Another user's entries, for admins
+  userId?: string;
+}
+
+export const downloadExport = async (accessToken: string, selection: ExportSelection) => {
+  const params = new URLSearchParams({ from: selection.from, to: selection.to, format: selection.format });
+  if (selection.project) params.set('project', selection.project);
+  if (selection.userId) params.set('userId', selection.userId);
+
+  const blob = await downloadFunction('timesheet-export', accessToken, `?${params}`);
+
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `timesheet-${selection.from}-to-${selection.to}${selection.project ? `-${selection.project}` : ''}.${selection.format}`;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
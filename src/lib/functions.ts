@@ -0,0 +1,56 @@
+const FUNCTIONS_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`;
+
+// Error from a function call. Validation failures also carry a message per
+// offending field, keyed by its path in the request body.
+export class FunctionError extends Error {
+  status: number;
+  fieldErrors: Record<string, string>;
+
+  constructor(message: string, status: number, fieldErrors: Record<string, string> = {}) {
+    super(message);
+    this.name = 'FunctionError';
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// Call an edge function as the signed-in user. Throws a FunctionError with the
+// function's `details` message when the response is not ok.
+export async function callFunction<T>(
+  name: string,
+  accessToken: string,
+  path = '',
+  init: RequestInit = {}
+): Promise<T> {
+  const response = await fetch(`${FUNCTIONS_URL}/${name}${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new FunctionError(
+      result.details || result.error || `${name} request failed`,
+      response.status,
+      result.fieldErrors
+    );
+  }
+  return result as T;
+}
+
+// Call a function that answers with a file, such as an export
+export async function downloadFunction(name: string, accessToken: string, path = ''): Promise<Blob> {
+  const response = await fetch(`${FUNCTIONS_URL}/${name}${path}`, {
+    headers: { 'Authorization': `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new FunctionError(result.details || result.error || `${name} request failed`, response.status);
+  }
+  return response.blob();
+}
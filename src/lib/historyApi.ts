@@ -0,0 +1,29 @@
+import { callFunction } from './functions';
+import { SubmittedProject } from './timesheetApi';
+
+// Same statuses the daily monitor reports, plus `upcoming` for future dates
+export type DayStatus = 'off' | 'missing' | 'incomplete' | 'complete' | 'upcoming';
+
+export interface HistoryDay {
+  date: string;
+  hours: number;
+  expected: number;
+  holiday: string | null;
+  leaveHours: number;
+  status: DayStatus;
+  projects: SubmittedProject[];
+}
+
+export interface History {
+  from: string;
+  to: string;
+  today: string;
+  days: HistoryDay[];
+}
+
+export const fetchHistory = (accessToken: string, from: string, to: string) =>
+  callFunction<History>(
+    'timesheet-history',
+    accessToken,
+    `?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`
+  );
@@ -0,0 +1,87 @@
+import { callFunction, downloadFunction } from './functions';
+
+export interface InvoiceLine {
+  client: string;
+  projectCode: string;
+  projectName: string;
+  employee: string;
+  email: string;
+  hours: number;
+  billable: boolean;
+  rate: number | null;
+  amount: number;
+}
+
+export interface InvoiceProjectTotal {
+  code: string;
+  name: string;
+  billable: boolean;
+  rate: number | null;
+  hours: number;
+  amount: number;
+}
+
+export interface InvoiceClientTotal {
+  client: string;
+  hours: number;
+  billableHours: number;
+  amount: number;
+  projects: InvoiceProjectTotal[];
+}
+
+export interface InvoiceReport {
+  month: string;
+  from: string;
+  to: string;
+  currency: string;
+  generatedAt: string;
+  lines: InvoiceLine[];
+  clients: InvoiceClientTotal[];
+  totals: { hours: number; billableHours: number; amount: number };
+  unapprovedHours: number;
+}
+
+// `stored` is false for a live preview of a month nobody has generated yet
+export interface InvoiceReportResult {
+  report: InvoiceReport;
+  stored: boolean;
+}
+
+export const fetchInvoiceReport = (accessToken: string, month: string) =>
+  callFunction<InvoiceReportResult>('invoice-reports', accessToken, `?month=${encodeURIComponent(month)}`);
+
+// A month that already has a stored report is only replaced with `force`
+export const generateInvoiceReport = (accessToken: string, month: string, force = false) =>
+  callFunction<InvoiceReportResult>('invoice-reports', accessToken, '', {
+    method: 'POST',
+    body: JSON.stringify({ month, force }),
+  });
+
+export const downloadInvoiceCsv = async (accessToken: string, month: string) => {
+  const blob = await downloadFunction('invoice-reports', accessToken, `?month=${encodeURIComponent(month)}&format=csv`);
+
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `invoice-${month}.csv`;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+// Opens the printable report in a new tab, where the browser can print it or
+// save it as a PDF. The tab is opened before the request so popup blockers
+// treat it as part of the click.
+export const openInvoicePrintView = async (accessToken: string, month: string) => {
+  const printWindow = window.open('', '_blank');
+  try {
+    const blob = await downloadFunction('invoice-reports', accessToken, `?month=${encodeURIComponent(month)}&format=html`);
+    const url = URL.createObjectURL(blob);
+    if (printWindow) {
+      printWindow.location.href = url;
+    } else {
+      window.open(url, '_blank');
+    }
+  } catch (error) {
+    printWindow?.close();
+    throw error;
+  }
+};
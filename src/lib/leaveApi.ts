@@ -0,0 +1,83 @@
+import { callFunction } from './functions';
+
+export type LeaveType = 'annual' | 'sick' | 'casual' | 'unpaid';
+export type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  annual: 'Annual',
+  sick: 'Sick',
+  casual: 'Casual',
+  unpaid: 'Unpaid',
+};
+
+export interface LeaveRequest {
+  id: string;
+  userId: string;
+  type: LeaveType;
+  startDate: string;
+  endDate: string;
+  halfDay: boolean;
+  days: number;
+  reason: string | null;
+  status: LeaveStatus;
+  reviewComment: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+export interface LeaveBalance {
+  type: LeaveType;
+  // null when the type has no limit
+  allowance: number | null;
+  used: number;
+  pending: number;
+  remaining: number | null;
+}
+
+export interface TeamLeaveRequest extends LeaveRequest {
+  user: { name: string; email: string } | null;
+}
+
+export interface LeavePayload {
+  type: LeaveType;
+  startDate: string;
+  endDate: string;
+  halfDay: boolean;
+  reason: string;
+}
+
+const request = <T>(accessToken: string, path: string, init: RequestInit = {}) =>
+  callFunction<T>('leave', accessToken, path, init);
+
+export const fetchMyLeave = (accessToken: string, year: number) =>
+  request<{ year: number; requests: LeaveRequest[]; balances: LeaveBalance[] }>(accessToken, `?year=${year}`);
+
+export const fetchPendingLeave = (accessToken: string) =>
+  request<{ requests: TeamLeaveRequest[] }>(accessToken, '?scope=team');
+
+export const requestLeave = (accessToken: string, payload: LeavePayload) =>
+  request<{ message: string; request: LeaveRequest }>(accessToken, '', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+
+export const cancelLeave = (accessToken: string, id: string) =>
+  request<{ message: string }>(accessToken, `?id=${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+
+export const decideLeave = (
+  accessToken: string,
+  id: string,
+  decision: 'approved' | 'rejected',
+  comment?: string
+) =>
+  request<{ message: string }>(accessToken, `?id=${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ decision, comment }),
+  });
+
+export const formatLeaveDates = (leave: LeaveRequest) =>
+  leave.startDate === leave.endDate
+    ? `${leave.startDate}${leave.halfDay ? ' (half day)' : ''}`
+    : `${leave.startDate} to ${leave.endDate}`;
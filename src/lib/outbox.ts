@@ -0,0 +1,83 @@
+import { FunctionError } from './functions';
+import { DayPayload, saveDay } from './timesheetApi';
+
+// Submissions made while offline, kept in localStorage per user and sent in
+// the order they were made once the connection is back. Each keeps the
+// idempotency key it was queued with, so a send that reached the server
+// before the connection dropped is not applied twice.
+
+export interface QueuedSubmission {
+  key: string;
+  payload: DayPayload;
+  method: 'POST' | 'PUT';
+  queuedAt: string;
+}
+
+export interface RejectedSubmission {
+  submission: QueuedSubmission;
+  message: string;
+}
+
+const storageKey = (userId: string) => `timesheet-outbox:${userId}`;
+
+export const readOutbox = (userId: string): QueuedSubmission[] => {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(userId)) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writeOutbox = (userId: string, queue: QueuedSubmission[]) => {
+  if (queue.length === 0) {
+    localStorage.removeItem(storageKey(userId));
+  } else {
+    localStorage.setItem(storageKey(userId), JSON.stringify(queue));
+  }
+};
+
+export const enqueueSubmission = (userId: string, submission: QueuedSubmission) => {
+  writeOutbox(userId, [...readOutbox(userId), submission]);
+};
+
+// fetch rejects with a TypeError when the request never got a response
+export const isNetworkError = (error: unknown) => !navigator.onLine || error instanceof TypeError;
+
+// Refusals that mean "not now" rather than "not this": an expired session, a
+// timeout, the same submission still being processed, or rate limiting
+const RETRY_LATER_STATUSES = [401, 408, 409, 429];
+
+const shouldRetryLater = (status: number) => status >= 500 || RETRY_LATER_STATUSES.includes(status);
+
+let flushing: Promise<RejectedSubmission[]> | null = null;
+
+// Send queued submissions oldest first. Stops at the first one that cannot
+// reach the server, or that the server fails on or asks to retry later, so
+// later submissions for the same date never overtake it. Ones the server
+// refuses for good are dropped and returned so the caller can put them back
+// in front of the user.
+export const flushOutbox = (accessToken: string, userId: string): Promise<RejectedSubmission[]> => {
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    const rejected: RejectedSubmission[] = [];
+    try {
+      for (const submission of readOutbox(userId)) {
+        try {
+          await saveDay(accessToken, submission.payload, submission.key, submission.method);
+        } catch (error) {
+          if (!(error instanceof FunctionError) || shouldRetryLater(error.status)) {
+            break;
+          }
+          rejected.push({ submission, message: error.message });
+        }
+        writeOutbox(userId, readOutbox(userId).filter(queued => queued.key !== submission.key));
+      }
+    } finally {
+      flushing = null;
+    }
+    return rejected;
+  })();
+
+  return flushing;
+};
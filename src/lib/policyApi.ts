@@ -0,0 +1,52 @@
+import { callFunction } from './functions';
+
+export interface Holiday {
+  date: string;
+  name: string;
+}
+
+export interface UserSchedule {
+  userId: string;
+  email: string;
+  name: string;
+  // Expected hours Monday first
+  weekdayHours: number[];
+  custom: boolean;
+}
+
+export interface WorkPolicy {
+  year: string;
+  holidays: Holiday[];
+  defaultWeekdayHours: number[];
+  schedules: UserSchedule[];
+}
+
+const request = <T>(accessToken: string, path: string, init: RequestInit = {}) =>
+  callFunction<T>('work-policy', accessToken, path, init);
+
+export const fetchWorkPolicy = (accessToken: string, year: string) =>
+  request<WorkPolicy>(accessToken, `?year=${encodeURIComponent(year)}`);
+
+export const importHolidays = (accessToken: string, ics: string) =>
+  request<{ message: string; imported: number }>(accessToken, '?resource=holidays', {
+    method: 'POST',
+    body: JSON.stringify({ ics }),
+  });
+
+export const addHoliday = (accessToken: string, holiday: Holiday) =>
+  request<{ message: string }>(accessToken, '?resource=holidays', {
+    method: 'POST',
+    body: JSON.stringify(holiday),
+  });
+
+export const deleteHoliday = (accessToken: string, date: string) =>
+  request<{ message: string }>(accessToken, `?resource=holidays&date=${encodeURIComponent(date)}`, {
+    method: 'DELETE',
+  });
+
+// `null` puts the user back on the default schedule
+export const saveSchedule = (accessToken: string, userId: string, weekdayHours: number[] | null) =>
+  request<{ message: string }>(accessToken, '?resource=schedule', {
+    method: 'PUT',
+    body: JSON.stringify({ userId, weekdayHours }),
+  });
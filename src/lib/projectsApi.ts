@@ -0,0 +1,60 @@
+import { callFunction } from './functions';
+
+export interface CatalogueProject {
+  id: string;
+  code: string;
+  name: string;
+  client: string | null;
+  active: boolean;
+  billable: boolean;
+  hourlyRate: number | null;
+  memberIds: string[];
+}
+
+export interface AssignableUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+export interface ProjectPayload {
+  code: string;
+  name: string;
+  client: string;
+  active: boolean;
+  billable: boolean;
+  // Empty for no rate
+  hourlyRate: string;
+  memberIds: string[];
+}
+
+const request = <T>(accessToken: string, path: string, init: RequestInit = {}) =>
+  callFunction<T>('projects', accessToken, path, init);
+
+// Active projects the signed-in user can log time against
+export const fetchMyProjects = (accessToken: string) =>
+  request<{ projects: CatalogueProject[] }>(accessToken, '');
+
+// Whole catalogue including archived projects, for admins
+export const fetchCatalogue = (accessToken: string) =>
+  request<{ projects: CatalogueProject[]; users: AssignableUser[] }>(accessToken, '?all=true');
+
+export const createProject = (accessToken: string, payload: ProjectPayload) =>
+  request<{ message: string; id: string }>(accessToken, '', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+
+export const updateProject = (accessToken: string, id: string, payload: ProjectPayload) =>
+  request<{ message: string }>(accessToken, `?id=${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    body: JSON.stringify(payload),
+  });
+
+export const deleteProject = (accessToken: string, id: string) =>
+  request<{ message: string }>(accessToken, `?id=${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+
+export const projectLabel = (project: CatalogueProject) =>
+  project.client ? `${project.code} · ${project.name} (${project.client})` : `${project.code} · ${project.name}`;
@@ -0,0 +1,4 @@
+import type { User } from '@supabase/supabase-js';
+
+// Roles live in `app_metadata.role`, which users cannot change themselves
+export const hasRole = (user: User | null, role: string) => user?.app_metadata?.role === role;
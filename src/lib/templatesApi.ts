@@ -0,0 +1,31 @@
+import { callFunction } from './functions';
+
+export interface TemplateProject {
+  name: string;
+  tasks: { description: string; hours: number | null }[];
+}
+
+export interface Template {
+  id: string;
+  name: string;
+  projects: TemplateProject[];
+  updatedAt: string;
+}
+
+const request = <T>(accessToken: string, path: string, init: RequestInit = {}) =>
+  callFunction<T>('timesheet-templates', accessToken, path, init);
+
+export const fetchTemplates = (accessToken: string) =>
+  request<{ templates: Template[] }>(accessToken, '');
+
+// Saving under an existing name replaces that template
+export const saveTemplate = (accessToken: string, name: string, projects: TemplateProject[]) =>
+  request<{ message: string; id: string }>(accessToken, '', {
+    method: 'POST',
+    body: JSON.stringify({ name, projects }),
+  });
+
+export const deleteTemplate = (accessToken: string, id: string) =>
+  request<{ message: string }>(accessToken, `?id=${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
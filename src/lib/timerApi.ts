@@ -0,0 +1,35 @@
+import { callFunction } from './functions';
+
+export interface RunningTimer {
+  project: string;
+  description: string;
+  startedAt: string;
+  // Date the timer started on, in the user's timezone
+  date: string;
+  // Started before today, likely left running by mistake
+  overnight: boolean;
+}
+
+export interface StoppedTimer {
+  timer: RunningTimer;
+  stoppedAt: string;
+  // Elapsed time rounded to the configured hours increment
+  hours: number;
+}
+
+const request = <T>(accessToken: string, path: string, init: RequestInit = {}) =>
+  callFunction<T>('timesheet-timer', accessToken, path, init);
+
+export const fetchTimer = (accessToken: string) =>
+  request<{ timer: RunningTimer | null }>(accessToken, '');
+
+export const startTimer = (accessToken: string, project: string, description: string) =>
+  request<{ message: string; timer: RunningTimer }>(accessToken, '', {
+    method: 'POST',
+    body: JSON.stringify({ project, description }),
+  });
+
+export const stopTimer = (accessToken: string) =>
+  request<StoppedTimer & { message: string }>(accessToken, '', {
+    method: 'DELETE',
+  });
@@ -0,0 +1,79 @@
+import { callFunction } from './functions';
+
+export interface SubmittedTask {
+  description: string;
+  hours: number;
+}
+
+export interface SubmittedProject {
+  name: string;
+  tasks: SubmittedTask[];
+}
+
+export type ApprovalStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
+export interface Approval {
+  status: ApprovalStatus;
+  comment: string | null;
+  reviewedAt: string | null;
+}
+
+export interface EntryLimits {
+  hoursIncrement: number;
+  maxDailyHours: number;
+  maxDescriptionLength: number;
+}
+
+export interface TimesheetDay {
+  date: string;
+  projects: SubmittedProject[];
+  approval: Approval;
+  limits: EntryLimits;
+}
+
+export interface TimesheetRange {
+  from: string;
+  to: string;
+  days: Omit<TimesheetDay, 'limits'>[];
+  limits: EntryLimits;
+}
+
+export interface DayPayload {
+  date: string;
+  projects: { name: string; tasks: { description: string; hours: string | number }[] }[];
+}
+
+const request = <T>(accessToken: string, path: string, init: RequestInit = {}) =>
+  callFunction<T>('timesheet', accessToken, path, init);
+
+export const fetchDay = (accessToken: string, date: string) =>
+  request<TimesheetDay>(accessToken, `?date=${encodeURIComponent(date)}`);
+
+export const fetchRange = (accessToken: string, from: string, to: string) =>
+  request<TimesheetRange>(accessToken, `?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`);
+
+// POST appends a new submission, PUT replaces everything already submitted for the date
+export const saveDay = (
+  accessToken: string,
+  payload: DayPayload,
+  idempotencyKey: string,
+  method: 'POST' | 'PUT' = 'POST'
+) =>
+  request<{ message: string }>(accessToken, '', {
+    method,
+    headers: { 'Idempotency-Key': idempotencyKey },
+    body: JSON.stringify(payload),
+  });
+
+// Runs every check a POST or PUT would without writing; fails with the same
+// field errors, otherwise returns what the date holds now
+export const previewDay = (accessToken: string, payload: DayPayload, method: 'POST' | 'PUT') =>
+  request<{ date: string; existing: SubmittedProject[] }>(accessToken, '?dryRun=true', {
+    method,
+    body: JSON.stringify(payload),
+  });
+
+export const deleteDay = (accessToken: string, date: string) =>
+  request<{ message: string }>(accessToken, `?date=${encodeURIComponent(date)}`, {
+    method: 'DELETE',
+  });
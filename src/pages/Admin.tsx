@@ -0,0 +1,331 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { decideTimesheet, fetchTeamOverview, TeamMemberWeek, TeamOverview } from '../lib/adminApi';
+import { addDays, startOfWeek, todayInTimeZone, userTimeZone } from '../lib/dates';
+import { ApprovalStatus } from '../lib/timesheetApi';
+import { LogOut, Loader2, ChevronLeft, ChevronRight, ArrowLeft, Check, X, CheckCircle2, XCircle, RotateCcw, FolderKanban, CalendarClock, Receipt, ShieldCheck } from 'lucide-react';
+
+const DAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+interface Review {
+  member: TeamMemberWeek;
+  decision: 'approved' | 'rejected' | 'reopened';
+}
+
+const REVIEW_LABELS: Record<Review['decision'], { verb: string; done: string; placeholder: string }> = {
+  approved: { verb: 'Approve', done: 'approved', placeholder: 'Comment (optional)' },
+  rejected: { verb: 'Reject', done: 'rejected', placeholder: 'Reason for rejection' },
+  reopened: { verb: 'Reopen', done: 'reopened for changes', placeholder: 'Reason for reopening' }
+};
+
+const StatusIcon = ({ status }: { status: ApprovalStatus }) => {
+  if (status === 'approved') return <CheckCircle2 className="inline h-3 w-3 ml-1 text-green-600" />;
+  if (status === 'rejected') return <XCircle className="inline h-3 w-3 ml-1 text-red-600" />;
+  return null;
+};
+
+export const Admin = () => {
+  const { signOut, session, user } = useAuth();
+  const today = todayInTimeZone(userTimeZone(user));
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(today));
+  const [overview, setOverview] = useState<TeamOverview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+  const [review, setReview] = useState<Review | null>(null);
+  const [comment, setComment] = useState('');
+  const [deciding, setDeciding] = useState(false);
+
+  const loadOverview = useCallback(async () => {
+    if (!session) return;
+    setLoading(true);
+    setError('');
+    try {
+      setOverview(await fetchTeamOverview(session.access_token, weekStart));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load team overview');
+    } finally {
+      setLoading(false);
+    }
+  }, [session, weekStart]);
+
+  useEffect(() => {
+    loadOverview();
+  }, [loadOverview]);
+
+  const handleWeekChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.value) {
+      setWeekStart(startOfWeek(e.target.value));
+    }
+  };
+
+  // Approve and reject apply to the days waiting for review; reopen puts
+  // approved days back into review
+  const datesFor = (member: TeamMemberWeek, decision: Review['decision']) =>
+    Object.keys(member.statuses).filter(date =>
+      member.statuses[date] === (decision === 'reopened' ? 'approved' : 'submitted'));
+
+  const openReview = (member: TeamMemberWeek, decision: Review['decision']) => {
+    setReview({ member, decision });
+    setComment('');
+  };
+
+  const handleDecision = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session || !review) return;
+
+    setDeciding(true);
+    setError('');
+    setSuccessMessage('');
+    try {
+      await decideTimesheet(
+        session.access_token,
+        review.member.id,
+        datesFor(review.member, review.decision),
+        review.decision,
+        comment
+      );
+      setSuccessMessage(`${review.member.name}'s week ${REVIEW_LABELS[review.decision].done}`);
+      setReview(null);
+      await loadOverview();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to record decision');
+    } finally {
+      setDeciding(false);
+    }
+  };
+
+  const cellClasses = (date: string, hours: number, expected: number) => {
+    if (expected === 0 || date > today) return 'text-gray-400';
+    if (hours === 0) return 'bg-red-50 text-red-700 font-medium';
+    if (hours < expected) return 'bg-amber-50 text-amber-700';
+    return 'text-gray-900';
+  };
+
+  const navButtonClasses = "inline-flex items-center p-2 border border-gray-300 shadow-sm rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500";
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow">
+        <div className="max-w-5xl mx-auto px-4">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <h1 className="text-xl font-semibold text-gray-900">Team Overview</h1>
+            </div>
+            <div className="flex items-center">
+              <Link
+                to="/"
+                className="inline-flex items-center text-sm font-medium text-gray-700 hover:text-gray-900"
+              >
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                My Timesheet
+              </Link>
+              <Link
+                to="/admin/projects"
+                className="ml-4 inline-flex items-center text-sm font-medium text-gray-700 hover:text-gray-900"
+              >
+                <FolderKanban className="h-4 w-4 mr-1" />
+                Projects
+              </Link>
+              <Link
+                to="/admin/policy"
+                className="ml-4 inline-flex items-center text-sm font-medium text-gray-700 hover:text-gray-900"
+              >
+                <CalendarClock className="h-4 w-4 mr-1" />
+                Working Hours
+              </Link>
+              <Link
+                to="/admin/invoices"
+                className="ml-4 inline-flex items-center text-sm font-medium text-gray-700 hover:text-gray-900"
+              >
+                <Receipt className="h-4 w-4 mr-1" />
+                Invoices
+              </Link>
+              <Link
+                to="/admin/compliance"
+                className="ml-4 inline-flex items-center text-sm font-medium text-gray-700 hover:text-gray-900"
+              >
+                <ShieldCheck className="h-4 w-4 mr-1" />
+                Compliance
+              </Link>
+              <button
+                onClick={() => signOut()}
+                className="ml-4 inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign out
+              </button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-5xl mx-auto py-6 px-4 sm:px-6">
+        {successMessage && (
+          <div className="mb-4 p-4 bg-green-100 border border-green-400 text-green-700 rounded">
+            {successMessage}
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center space-x-2">
+                <button
+                  type="button"
+                  onClick={() => setWeekStart(addDays(weekStart, -7))}
+                  className={navButtonClasses}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </button>
+                <input
+                  type="date"
+                  value={weekStart}
+                  onChange={handleWeekChange}
+                  className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm py-2 px-3"
+                />
+                <button
+                  type="button"
+                  onClick={() => setWeekStart(addDays(weekStart, 7))}
+                  disabled={addDays(weekStart, 7) > today}
+                  className={`${navButtonClasses} disabled:opacity-50`}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </button>
+              </div>
+              <span className="text-sm text-gray-500">
+                Week of {weekStart}
+              </span>
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+              </div>
+            ) : overview && (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead>
+                    <tr>
+                      <th className="py-2 pr-4 text-left font-medium text-gray-700">Employee</th>
+                      {overview.dates.map((date, index) => (
+                        <th key={date} className="px-2 py-2 text-center font-medium text-gray-700">
+                          <div>{DAY_LABELS[index]}</div>
+                          <div className="text-xs font-normal text-gray-400">{date.slice(5)}</div>
+                        </th>
+                      ))}
+                      <th className="pl-4 py-2 text-right font-medium text-gray-700">Total</th>
+                      <th className="pl-4 py-2 text-right font-medium text-gray-700">Review</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {overview.users.map((member) => (
+                      <tr key={member.id}>
+                        <td className="py-2 pr-4">
+                          <div className="font-medium text-gray-900">{member.name}</div>
+                          <div className="text-xs text-gray-500">{member.email}</div>
+                        </td>
+                        {overview.dates.map((date) => (
+                          <td
+                            key={date}
+                            className={`px-2 py-2 text-center rounded ${cellClasses(date, member.hours[date], member.expected[date])}`}
+                            title={`${member.hours[date]} of ${member.expected[date]} hours`}
+                          >
+                            {member.hours[date] || '–'}
+                            <StatusIcon status={member.statuses[date]} />
+                          </td>
+                        ))}
+                        <td className="pl-4 py-2 text-right font-semibold text-gray-900">{member.total}</td>
+                        <td className="pl-4 py-2 text-right whitespace-nowrap">
+                          {member.id !== user?.id && datesFor(member, 'approved').length > 0 && (
+                            <>
+                              <button
+                                type="button"
+                                onClick={() => openReview(member, 'approved')}
+                                title="Approve week"
+                                className="p-1 text-green-600 hover:text-green-800"
+                              >
+                                <Check className="h-4 w-4" />
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => openReview(member, 'rejected')}
+                                title="Reject week"
+                                className="p-1 text-red-600 hover:text-red-800"
+                              >
+                                <X className="h-4 w-4" />
+                              </button>
+                            </>
+                          )}
+                          {member.id !== user?.id && datesFor(member, 'reopened').length > 0 && (
+                            <button
+                              type="button"
+                              onClick={() => openReview(member, 'reopened')}
+                              title="Reopen approved days"
+                              className="p-1 text-gray-600 hover:text-gray-800"
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {review && (
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
+            <form onSubmit={handleDecision} className="bg-white rounded-lg p-6 max-w-sm w-full">
+              <h3 className="text-lg font-medium text-gray-900 mb-2">
+                {REVIEW_LABELS[review.decision].verb} week of {weekStart}
+              </h3>
+              <p className="text-sm text-gray-500 mb-4">
+                {review.member.name}, {datesFor(review.member, review.decision).length} {review.decision === 'reopened' ? 'approved' : 'submitted'} day(s)
+              </p>
+              <textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                required={review.decision !== 'approved'}
+                placeholder={REVIEW_LABELS[review.decision].placeholder}
+                rows={3}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm py-2 px-3 mb-4"
+              />
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setReview(null)}
+                  className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={deciding}
+                  className={`inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 ${
+                    review.decision === 'approved'
+                      ? 'bg-green-600 hover:bg-green-700 focus:ring-green-500'
+                      : 'bg-red-600 hover:bg-red-700 focus:ring-red-500'
+                  }`}
+                >
+                  {deciding && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {REVIEW_LABELS[review.decision].verb}
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,257 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { ComplianceHistory, fetchCompliance, rerunCheck, StatusCounts } from '../lib/complianceApi';
+import { addDays, todayInTimeZone, userTimeZone } from '../lib/dates';
+import { LogOut, Loader2, ArrowLeft, RotateCcw } from 'lucide-react';
+
+const formatRate = (rate: number | null) => rate === null ? '–' : `${Math.round(rate * 100)}%`;
+
+// Stacked bar of complete, incomplete and missing working days
+const StatusBar = ({ counts }: { counts: StatusCounts }) => {
+  const working = counts.complete + counts.incomplete + counts.missing;
+  if (working === 0) return <div className="h-2 bg-gray-100 rounded" />;
+  return (
+    <div className="h-2 bg-gray-100 rounded flex overflow-hidden">
+      <div className="bg-green-500" style={{ width: `${(counts.complete / working) * 100}%` }} />
+      <div className="bg-amber-400" style={{ width: `${(counts.incomplete / working) * 100}%` }} />
+      <div className="bg-red-500" style={{ width: `${(counts.missing / working) * 100}%` }} />
+    </div>
+  );
+};
+
+export const Compliance = () => {
+  const { signOut, session, user } = useAuth();
+  const today = todayInTimeZone(userTimeZone(user));
+  const [range, setRange] = useState({ from: addDays(today, -89), to: today });
+  const [history, setHistory] = useState<ComplianceHistory | null>(null);
+  const [rerunDate, setRerunDate] = useState(addDays(today, -1));
+  const [loading, setLoading] = useState(false);
+  const [rerunning, setRerunning] = useState(false);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+
+  const loadHistory = useCallback(async () => {
+    if (!session || !range.from || !range.to) return;
+    setLoading(true);
+    try {
+      setHistory(await fetchCompliance(session.access_token, range.from, range.to));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load compliance history');
+    } finally {
+      setLoading(false);
+    }
+  }, [session, range]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleRerun = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session) return;
+    setRerunning(true);
+    setError('');
+    setSuccessMessage('');
+    try {
+      const result = await rerunCheck(session.access_token, rerunDate);
+      setSuccessMessage(result.message);
+      await loadHistory();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to re-run timesheet check');
+    } finally {
+      setRerunning(false);
+    }
+  };
+
+  const inputClasses = "rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm py-2 px-3";
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow">
+        <div className="max-w-5xl mx-auto px-4">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <h1 className="text-xl font-semibold text-gray-900">Compliance</h1>
+            </div>
+            <div className="flex items-center">
+              <Link
+                to="/admin"
+                className="inline-flex items-center text-sm font-medium text-gray-700 hover:text-gray-900"
+              >
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Team Overview
+              </Link>
+              <button
+                onClick={() => signOut()}
+                className="ml-4 inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign out
+              </button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-5xl mx-auto py-6 px-4 sm:px-6 space-y-6">
+        {successMessage && (
+          <div className="p-4 bg-green-100 border border-green-400 text-green-700 rounded">
+            {successMessage}
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6 flex flex-wrap items-end justify-between gap-4">
+          <div className="flex items-end gap-3">
+            <div>
+              <label htmlFor="from" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input
+                id="from"
+                type="date"
+                value={range.from}
+                max={range.to}
+                onChange={(e) => setRange({ ...range, from: e.target.value })}
+                className={inputClasses}
+              />
+            </div>
+            <div>
+              <label htmlFor="to" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <input
+                id="to"
+                type="date"
+                value={range.to}
+                min={range.from}
+                onChange={(e) => setRange({ ...range, to: e.target.value })}
+                className={inputClasses}
+              />
+            </div>
+          </div>
+          <form onSubmit={handleRerun} className="flex items-end gap-2">
+            <div>
+              <label htmlFor="rerun-date" className="block text-sm font-medium text-gray-700 mb-1">Re-run check for</label>
+              <input
+                id="rerun-date"
+                type="date"
+                value={rerunDate}
+                max={addDays(today, -1)}
+                onChange={(e) => setRerunDate(e.target.value)}
+                className={inputClasses}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={!rerunDate || rerunning}
+              className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {rerunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+              Re-run
+            </button>
+          </form>
+        </div>
+
+        {loading && !history ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+          </div>
+        ) : history && (
+          <>
+            <div className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-medium text-gray-900">Team</h2>
+                <span className="text-sm text-gray-600">
+                  {formatRate(history.team.complianceRate)} of working days complete · {history.team.missing} missing · {history.team.incomplete} incomplete
+                </span>
+              </div>
+              {history.weeks.length === 0 ? (
+                <p className="text-sm text-gray-500">No checks recorded in this range.</p>
+              ) : (
+                <ul className="space-y-2 text-sm">
+                  {history.weeks.map(week => (
+                    <li key={week.weekStart} className="grid grid-cols-[7rem_1fr_3rem] items-center gap-3">
+                      <span className="text-gray-700">Week of {week.weekStart}</span>
+                      <StatusBar counts={week} />
+                      <span className="text-right text-gray-900">{formatRate(week.complianceRate)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="mt-4 flex gap-4 text-xs text-gray-500">
+                <span className="flex items-center"><span className="h-2 w-2 mr-1 rounded-full bg-green-500" />Complete</span>
+                <span className="flex items-center"><span className="h-2 w-2 mr-1 rounded-full bg-amber-400" />Incomplete</span>
+                <span className="flex items-center"><span className="h-2 w-2 mr-1 rounded-full bg-red-500" />Missing</span>
+              </div>
+            </div>
+
+            <div className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6 overflow-x-auto">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">People</h2>
+              {history.people.length === 0 ? (
+                <p className="text-sm text-gray-500">No checks recorded in this range.</p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead>
+                    <tr>
+                      <th className="py-2 pr-4 text-left font-medium text-gray-700">Employee</th>
+                      <th className="px-2 py-2 text-right font-medium text-gray-700">Missing</th>
+                      <th className="px-2 py-2 text-right font-medium text-gray-700">Incomplete</th>
+                      <th className="px-2 py-2 text-right font-medium text-gray-700">Complete</th>
+                      <th className="px-2 py-2 text-right font-medium text-gray-700">Rate</th>
+                      <th className="px-2 py-2 text-right font-medium text-gray-700">Missing streak</th>
+                      <th className="pl-4 py-2 w-32" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {history.people.map(person => (
+                      <tr key={person.userId}>
+                        <td className="py-2 pr-4">
+                          <div className="text-gray-900">{person.name}</div>
+                          <div className="text-xs text-gray-500">{person.email}</div>
+                        </td>
+                        <td className="px-2 py-2 text-right">{person.missing}</td>
+                        <td className="px-2 py-2 text-right">{person.incomplete}</td>
+                        <td className="px-2 py-2 text-right">{person.complete}</td>
+                        <td className="px-2 py-2 text-right">{formatRate(person.complianceRate)}</td>
+                        <td className="px-2 py-2 text-right whitespace-nowrap">
+                          <span className={person.currentMissingStreak > 0 ? 'text-red-600 font-medium' : ''}>
+                            {person.currentMissingStreak}
+                          </span>
+                          <span className="text-gray-500"> (longest {person.longestMissingStreak})</span>
+                        </td>
+                        <td className="pl-4 py-2"><StatusBar counts={person} /></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Recent runs</h2>
+              {history.runs.length === 0 ? (
+                <p className="text-sm text-gray-500">The daily check has not run yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 text-sm">
+                  {history.runs.map(run => (
+                    <li key={run.id} className="py-2 flex justify-between">
+                      <span className="text-gray-700">
+                        {new Date(run.createdAt).toLocaleString()} · {run.trigger === 'rerun' ? 'Re-run' : 'Scheduled'} for {run.dates.join(', ')}
+                      </span>
+                      <span className="text-gray-600">
+                        {run.users} checked · {run.missing} missing · {run.incomplete} incomplete
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,19 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { LogOut, Plus, X, Check, Loader2, Trash2, AlertTriangle, Edit2 } from 'lucide-react';
+import { Approval, deleteDay, EntryLimits, fetchDay, saveDay, SubmittedProject } from '../lib/timesheetApi';
+import { FunctionError } from '../lib/functions';
+import { addDays, todayInTimeZone, userTimeZone } from '../lib/dates';
+import { CatalogueProject, fetchMyProjects, projectLabel } from '../lib/projectsApi';
+import { hasRole } from '../lib/roles';
+import { deleteTemplate, fetchTemplates, saveTemplate, Template, TemplateProject } from '../lib/templatesApi';
+import { discardDraft, Draft, isBlankForm, loadDraft, saveLocalDraft, saveServerDraft } from '../lib/drafts';
+import { enqueueSubmission, flushOutbox, isNetworkError, QueuedSubmission, readOutbox } from '../lib/outbox';
+import { supabase } from '../lib/supabase';
+import { StoppedTimer } from '../lib/timerApi';
+import { WeekGrid } from '../components/WeekGrid';
+import { Timer } from '../components/Timer';
+import { LogOut, Plus, X, Check, Loader2, Trash2, AlertTriangle, Edit2, ClipboardList, Users, Lock, XCircle, Palmtree, Copy, Save, CloudOff, BarChart3 } from 'lucide-react';
 
 interface Task {
   description: string;
@@ -12,8 +25,11 @@ interface Project {
   tasks: Task[];
 }
 
+// Used until the server's limits arrive with the first loaded day
+const DEFAULT_LIMITS: EntryLimits = { hoursIncrement: 0.5, maxDailyHours: 24, maxDescriptionLength: 500 };
+
 interface DeleteConfirmation {
-  type: 'project' | 'task';
+  type: 'project' | 'task' | 'day';
   projectIndex: number;
   taskIndex?: number;
   show: boolean;
@@ -21,7 +37,8 @@ interface DeleteConfirmation {
 
 export const Dashboard = () => {
   const { signOut, session, user, updateUserName } = useAuth();
-  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const timeZone = userTimeZone(user);
+  const [date, setDate] = useState(() => todayInTimeZone(timeZone));
   const [projects, setProjects] = useState<Project[]>([
     { name: '', tasks: [{ description: '', hours: '' }] }
   ]);
@@ -35,8 +52,154 @@ export const Dashboard = () => {
   });
   const [isEditingName, setIsEditingName] = useState(false);
   const [newName, setNewName] = useState(user?.user_metadata?.display_name || '');
+  // Reused across retries of the same form contents so the server can drop duplicates
+  const idempotencyKey = useRef(crypto.randomUUID());
+  const [submittedProjects, setSubmittedProjects] = useState<SubmittedProject[]>([]);
+  const [approval, setApproval] = useState<Approval | null>(null);
+  const [loadingSubmitted, setLoadingSubmitted] = useState(false);
+  const [isEditingSubmitted, setIsEditingSubmitted] = useState(false);
+  const [catalogue, setCatalogue] = useState<CatalogueProject[]>([]);
+  const [limits, setLimits] = useState<EntryLimits>(DEFAULT_LIMITS);
+  // Server validation messages keyed by field path, e.g. `projects.0.tasks.1.hours`
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [view, setView] = useState<'day' | 'week'>('day');
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [templateName, setTemplateName] = useState('');
+  // Whether copying a day or applying a template brings its hours along
+  const [keepHours, setKeepHours] = useState(false);
+  const [filling, setFilling] = useState(false);
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+  const [outbox, setOutbox] = useState<QueuedSubmission[]>(() => (user ? readOutbox(user.id) : []));
+  const [sendingQueued, setSendingQueued] = useState(false);
+  // Latest form rows for effects that must not re-run on every keystroke
+  const projectsRef = useRef(projects);
+
+  useEffect(() => {
+    idempotencyKey.current = crypto.randomUUID();
+  }, [date, projects]);
+
+  const loadSubmitted = useCallback(async () => {
+    if (!session) return;
+    setLoadingSubmitted(true);
+    try {
+      const day = await fetchDay(session.access_token, date);
+      setSubmittedProjects(day.projects);
+      setApproval(day.approval);
+      setLimits(day.limits);
+    } catch (error) {
+      setSubmittedProjects([]);
+      setApproval(null);
+      setError(error instanceof Error ? error.message : 'Failed to load submitted entries');
+    } finally {
+      setLoadingSubmitted(false);
+    }
+  }, [session, date]);
+
+  useEffect(() => {
+    loadSubmitted();
+  }, [loadSubmitted]);
+
+  useEffect(() => {
+    projectsRef.current = projects;
+  }, [projects]);
+
+  // Bring back the draft for a date when arriving at it with an empty form
+  useEffect(() => {
+    if (!session || !user) return;
+    let cancelled = false;
+    setDraftSavedAt(null);
+
+    loadDraft(session.access_token, user.id, date).then((draft) => {
+      if (cancelled || !draft || isBlankForm(draft.projects) || !isBlankForm(projectsRef.current)) return;
+      setProjects(draft.projects);
+      setIsEditingSubmitted(draft.editing);
+      setSuccessMessage(`Restored your unsaved draft from ${new Date(draft.updatedAt).toLocaleString()}`);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [session, user, date]);
+
+  // Keep whatever has been typed as a draft for the date: locally on every
+  // change, and on the server once typing pauses
+  useEffect(() => {
+    if (!session || !user || isBlankForm(projects)) return;
+    const draft: Draft = { date, projects, editing: isEditingSubmitted, updatedAt: new Date().toISOString() };
+    saveLocalDraft(user.id, draft);
+    setDraftSavedAt(draft.updatedAt);
+
+    const timer = setTimeout(() => {
+      saveServerDraft(session.access_token, draft).catch(() => {
+        // The local copy is enough until the next change
+      });
+    }, 2000);
+    return () => clearTimeout(timer);
+  }, [session, user, date, projects, isEditingSubmitted]);
+
+  // Send submissions queued while offline, oldest first
+  const sendQueued = useCallback(async () => {
+    if (!session || !user || readOutbox(user.id).length === 0) return;
+    setSendingQueued(true);
+    try {
+      // The token in `session` may have expired while the queue waited offline
+      const { data: { session: current } } = await supabase.auth.getSession();
+      if (!current) return;
+      const rejected = await flushOutbox(current.access_token, user.id);
+      if (rejected.length > 0) {
+        // Keep refused entries as drafts so they can be corrected and resubmitted
+        for (const { submission } of rejected) {
+          saveLocalDraft(user.id, {
+            date: submission.payload.date,
+            projects: submission.payload.projects.map(project => ({
+              name: project.name,
+              tasks: project.tasks.map(task => ({ description: task.description, hours: String(task.hours) }))
+            })),
+            editing: submission.method === 'PUT',
+            updatedAt: submission.queuedAt
+          });
+        }
+        setError(`${rejected.map(({ submission, message }) => `${submission.payload.date}: ${message}`).join('; ')}. `
+          + 'These entries were kept as drafts for their dates.');
+      }
+      await loadSubmitted();
+    } finally {
+      setOutbox(readOutbox(user.id));
+      setSendingQueued(false);
+    }
+  }, [session, user, loadSubmitted]);
+
+  useEffect(() => {
+    sendQueued();
+    window.addEventListener('online', sendQueued);
+    return () => window.removeEventListener('online', sendQueued);
+  }, [sendQueued]);
+
+  useEffect(() => {
+    if (!session) return;
+    fetchMyProjects(session.access_token)
+      .then(({ projects }) => setCatalogue(projects))
+      .catch((error) => setError(error instanceof Error ? error.message : 'Failed to load projects'));
+  }, [session]);
+
+  const loadTemplates = useCallback(async () => {
+    if (!session) return;
+    try {
+      setTemplates((await fetchTemplates(session.access_token)).templates);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load templates');
+    }
+  }, [session]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const submittedTaskCount = submittedProjects.reduce((count, project) => count + project.tasks.length, 0);
+  const isApproved = approval?.status === 'approved';
 
-  const today = new Date().toISOString().split('T')[0];
+  const today = todayInTimeZone(timeZone);
+  const lastWeekday = new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' });
 
   const handleNameUpdate = async () => {
     try {
@@ -60,13 +223,131 @@ export const Dashboard = () => {
     setProjects(newProjects);
   };
 
-  const confirmDelete = (type: 'project' | 'task', projectIndex: number, taskIndex?: number) => {
+  const startEditingSubmitted = () => {
+    setProjects(submittedProjects.map(project => ({
+      name: project.name,
+      tasks: project.tasks.map(task => ({ description: task.description, hours: String(task.hours) }))
+    })));
+    setIsEditingSubmitted(true);
+    setError('');
+    setSuccessMessage('');
+  };
+
+  const stopEditingSubmitted = () => {
+    setProjects([{ name: '', tasks: [{ description: '', hours: '' }] }]);
+    setIsEditingSubmitted(false);
+  };
+
+  // Replace the form rows with copied ones, keeping their hours only when asked
+  const fillForm = (source: TemplateProject[]) => {
+    setProjects(source.map(project => ({
+      name: project.name,
+      tasks: project.tasks.map(task => ({
+        description: task.description,
+        hours: keepHours && task.hours !== null ? String(task.hours) : ''
+      }))
+    })));
+    setFieldErrors({});
+    setError('');
+  };
+
+  const copyFromDate = async (source: string) => {
+    setFilling(true);
+    setSuccessMessage('');
+    try {
+      const day = await fetchDay(session!.access_token, source);
+      if (day.projects.length === 0) {
+        setError(`Nothing was submitted on ${source}`);
+        return;
+      }
+      fillForm(day.projects);
+      setSuccessMessage(`Copied the entries from ${source}`);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to copy entries');
+    } finally {
+      setFilling(false);
+    }
+  };
+
+  const applyTemplate = () => {
+    const template = templates.find(t => t.id === selectedTemplateId);
+    if (!template) return;
+    fillForm(template.projects);
+    setSuccessMessage(`Applied template "${template.name}"`);
+  };
+
+  const handleSaveTemplate = async () => {
+    const name = templateName.trim();
+    const rows = projects
+      .filter(project => project.name)
+      .map(project => ({
+        name: project.name,
+        tasks: project.tasks.map(task => ({
+          description: task.description,
+          hours: task.hours === '' ? null : Number(task.hours)
+        }))
+      }));
+    if (!name || rows.length === 0) {
+      setError('Pick at least one project and give the template a name');
+      return;
+    }
+
+    setFilling(true);
+    setError('');
+    setSuccessMessage('');
+    try {
+      const { id } = await saveTemplate(session!.access_token, name, rows);
+      await loadTemplates();
+      setSelectedTemplateId(id);
+      setTemplateName('');
+      setSuccessMessage(`Saved template "${name}"`);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save template');
+    } finally {
+      setFilling(false);
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!selectedTemplateId) return;
+    setFilling(true);
+    setError('');
+    setSuccessMessage('');
+    try {
+      await deleteTemplate(session!.access_token, selectedTemplateId);
+      setSelectedTemplateId('');
+      await loadTemplates();
+      setSuccessMessage('Template deleted');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to delete template');
+    } finally {
+      setFilling(false);
+    }
+  };
+
+  const clearFieldError = (path: string) => {
+    if (!(path in fieldErrors)) return;
+    const rest = { ...fieldErrors };
+    delete rest[path];
+    setFieldErrors(rest);
+  };
+
+  const confirmDelete = (type: DeleteConfirmation['type'], projectIndex: number, taskIndex?: number) => {
     setDeleteConfirmation({ type, projectIndex, taskIndex, show: true });
   };
 
-  const handleDelete = () => {
+  const handleDelete = async () => {
     const { type, projectIndex, taskIndex } = deleteConfirmation;
     
+    if (type === 'day') {
+      setDeleteConfirmation({ ...deleteConfirmation, show: false });
+      await handleDeleteDay();
+      return;
+    }
+
+    // Row positions shift, so field errors no longer line up
+    setFieldErrors({});
+
     if (type === 'project' && projects.length > 1) {
       setProjects(projects.filter((_, index) => index !== projectIndex));
     } else if (type === 'task' && taskIndex !== undefined) {
@@ -90,23 +371,67 @@ export const Dashboard = () => {
     const newProjects = [...projects];
     newProjects[index].name = name;
     setProjects(newProjects);
+    clearFieldError(`projects.${index}.name`);
   };
 
   const updateTask = (projectIndex: number, taskIndex: number, field: keyof Task, value: string) => {
     const newProjects = [...projects];
     newProjects[projectIndex].tasks[taskIndex][field] = value;
     setProjects(newProjects);
+    clearFieldError(`projects.${projectIndex}.tasks.${taskIndex}.${field}`);
+  };
+
+  const cancelEditing = () => {
+    discardDraft(session!.access_token, user!.id, date);
+    stopEditingSubmitted();
+  };
+
+  const changeDate = (selectedDate: string) => {
+    if (isEditingSubmitted) {
+      // The edits stay saved as a draft for the date being left
+      stopEditingSubmitted();
+    } else if (!isBlankForm(projects)) {
+      // New rows move to the chosen date, and their draft with them
+      discardDraft(session!.access_token, user!.id, date);
+    }
+    setDate(selectedDate);
   };
 
   const handleDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedDate = e.target.value;
-    const currentDate = new Date().toISOString().split('T')[0];
-    
-    if (selectedDate <= currentDate) {
-      setDate(selectedDate);
+    if (selectedDate <= today) {
+      changeDate(selectedDate);
     }
   };
 
+  // Add the timed task to the form for the date the timer started on,
+  // under its project if the form already has it
+  const handleTimerStopped = ({ timer, hours }: StoppedTimer) => {
+    if (timer.date !== date) {
+      changeDate(timer.date);
+    }
+
+    const task = { description: timer.description, hours: String(hours) };
+    setProjects(current => {
+      if (isBlankForm(current)) {
+        return [{ name: timer.project, tasks: [task] }];
+      }
+      const index = current.findIndex(project => project.name === timer.project);
+      if (index === -1) {
+        return [...current, { name: timer.project, tasks: [task] }];
+      }
+      return current.map((project, i) => i !== index ? project : {
+        ...project,
+        tasks: [...project.tasks.filter(t => t.description || t.hours), task]
+      });
+    });
+
+    const note = timer.overnight || hours > limits.maxDailyHours
+      ? ' It ran overnight, so check the hours before submitting.'
+      : '';
+    setSuccessMessage(`Added ${hours}h for ${timer.project} to ${timer.date}.${note}`);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
       e.preventDefault();
@@ -123,48 +448,84 @@ export const Dashboard = () => {
     setSubmitting(true);
     setError('');
     setSuccessMessage('');
+    setFieldErrors({});
+
+    const submission: QueuedSubmission = {
+      key: idempotencyKey.current,
+      payload: { date, projects },
+      method: isEditingSubmitted ? 'PUT' : 'POST',
+      queuedAt: new Date().toISOString()
+    };
+    const queueSubmission = () => {
+      enqueueSubmission(user!.id, submission);
+      setOutbox(readOutbox(user!.id));
+      discardDraft(session!.access_token, user!.id, date);
+      stopEditingSubmitted();
+      setDate(todayInTimeZone(timeZone));
+    };
+
+    // Earlier submissions still waiting to be sent must go first
+    if (outbox.length > 0) {
+      queueSubmission();
+      setSuccessMessage('Added to the entries waiting to be sent');
+      setSubmitting(false);
+      sendQueued();
+      return;
+    }
 
     try {
-      const entries = projects.flatMap(project => 
-        project.tasks.map(task => ({
-          date,
-          project: project.name,
-          description: task.description,
-          hours: task.hours,
-          userEmail: session?.user.email,
-          userName: user?.user_metadata?.display_name || user?.email
-        }))
-      );
-
-      let isFirstTask = true;
-      for (const entry of entries) {
-        const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/timesheet`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-            'Content-Type': 'application/json',
-            'X-First-Task': isFirstTask ? entry.project : ''
-          },
-          body: JSON.stringify(entry),
-        });
-
-        if (!response.ok) {
-          throw new Error('Failed to save timesheet entry');
-        }
-        isFirstTask = false;
+      await saveDay(session!.access_token, submission.payload, submission.key, submission.method);
+      discardDraft(session!.access_token, user!.id, date);
+
+      if (isEditingSubmitted) {
+        setSuccessMessage('Timesheet entries updated successfully!');
+        stopEditingSubmitted();
+        await loadSubmitted();
+      } else {
+        setSuccessMessage('Timesheet entries saved successfully!');
+        setProjects([{ name: '', tasks: [{ description: '', hours: '' }] }]);
+        setDate(todayInTimeZone(timeZone));
       }
+    } catch (error) {
+      if (isNetworkError(error)) {
+        queueSubmission();
+        setSuccessMessage("You're offline. These entries will be sent when the connection is back.");
+      } else if (error instanceof FunctionError && Object.keys(error.fieldErrors).length > 0) {
+        // Row problems are shown next to their rows; the banner keeps the rest
+        setFieldErrors(error.fieldErrors);
+        setError(error.fieldErrors.total || error.fieldErrors.date || error.fieldErrors.projects
+          || 'Please fix the highlighted entries');
+      } else {
+        setError(error instanceof Error ? error.message : 'Failed to save timesheet');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
 
-      setSuccessMessage('Timesheet entries saved successfully!');
-      setProjects([{ name: '', tasks: [{ description: '', hours: '' }] }]);
-      setDate(new Date().toISOString().split('T')[0]);
-    } catch (error: any) {
-      setError(error.message);
+  const handleDeleteDay = async () => {
+    setSubmitting(true);
+    setError('');
+    setSuccessMessage('');
+
+    try {
+      await deleteDay(session!.access_token, date);
+      setSuccessMessage('Timesheet entries deleted successfully!');
+      stopEditingSubmitted();
+      await loadSubmitted();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to delete timesheet entries');
     } finally {
       setSubmitting(false);
     }
   };
 
   const inputClasses = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-base py-2.5 px-4 placeholder:text-gray-400";
+  const fieldClasses = (path: string) =>
+    fieldErrors[path] ? `${inputClasses} border-red-500 ring-1 ring-red-500` : inputClasses;
+
+  const FieldError = ({ path }: { path: string }) =>
+    fieldErrors[path] ? <p className="mt-1 text-sm text-red-600">{fieldErrors[path]}</p> : null;
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -210,6 +571,29 @@ export const Dashboard = () => {
                   </button>
                 </div>
               )}
+              <Link
+                to="/history"
+                className="ml-4 inline-flex items-center text-sm font-medium text-gray-700 hover:text-gray-900"
+              >
+                <BarChart3 className="h-4 w-4 mr-1" />
+                History
+              </Link>
+              <Link
+                to="/leave"
+                className="ml-4 inline-flex items-center text-sm font-medium text-gray-700 hover:text-gray-900"
+              >
+                <Palmtree className="h-4 w-4 mr-1" />
+                Leave
+              </Link>
+              {hasRole(user, 'admin') && (
+                <Link
+                  to="/admin"
+                  className="ml-4 inline-flex items-center text-sm font-medium text-gray-700 hover:text-gray-900"
+                >
+                  <Users className="h-4 w-4 mr-1" />
+                  Team
+                </Link>
+              )}
               <button
                 onClick={() => signOut()}
                 className="ml-4 inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
@@ -222,136 +606,367 @@ export const Dashboard = () => {
         </div>
       </nav>
 
-      <div className="max-w-2xl mx-auto py-6 px-4 sm:px-6">
-        {successMessage && (
-          <div className="mb-4 p-4 bg-green-100 border border-green-400 text-green-700 rounded">
-            {successMessage}
-          </div>
-        )}
-
-        {error && (
-          <div className="mb-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded">
-            {error}
-          </div>
-        )}
+      <div className={`${view === 'week' ? 'max-w-5xl' : 'max-w-2xl'} mx-auto py-6 px-4 sm:px-6`}>
+        <div className="mb-4 inline-flex rounded-md shadow-sm">
+          {(['day', 'week'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setView(option)}
+              className={`px-4 py-2 text-sm font-medium border border-gray-300 first:rounded-l-md last:rounded-r-md -ml-px first:ml-0 ${
+                view === option ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option === 'day' ? 'Day' : 'Week'}
+            </button>
+          ))}
+        </div>
 
-        <form onSubmit={handleSubmit} className="space-y-6">
-          <div className="bg-white shadow sm:rounded-lg">
-            <div className="px-4 py-5 sm:p-6">
-              <div className="mb-6">
-                <label htmlFor="date" className="block text-sm font-medium text-gray-700 mb-1">
-                  Date
-                </label>
-                <input
-                  type="date"
-                  id="date"
-                  required
-                  value={date}
-                  onChange={handleDateChange}
-                  max={today}
-                  className={inputClasses}
-                />
+        {view === 'week' && session ? (
+          <WeekGrid accessToken={session.access_token} today={today} catalogue={catalogue} limits={limits} />
+        ) : (
+          <>
+            {outbox.length > 0 && (
+              <div className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center font-medium">
+                    <CloudOff className="h-4 w-4 mr-2" />
+                    {outbox.length} {outbox.length === 1 ? 'submission' : 'submissions'} waiting to be sent
+                  </span>
+                  <button
+                    type="button"
+                    onClick={sendQueued}
+                    disabled={sendingQueued}
+                    className="inline-flex items-center font-medium text-amber-700 hover:text-amber-900 disabled:opacity-50"
+                  >
+                    {sendingQueued && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                    Send now
+                  </button>
+                </div>
+                <ul className="mt-2 ml-6 space-y-1">
+                  {outbox.map(({ key, payload, method }) => (
+                    <li key={key}>
+                      {payload.date}: {payload.projects.map(project => project.name).join(', ')}
+                      {' · '}
+                      {payload.projects.reduce(
+                        (sum, project) => sum + project.tasks.reduce((taskSum, task) => taskSum + Number(task.hours), 0),
+                        0
+                      )}h
+                      {method === 'PUT' && ' (replaces submitted entries)'}
+                    </li>
+                  ))}
+                </ul>
               </div>
+            )}
+
+            {session && (
+              <Timer
+                accessToken={session.access_token}
+                catalogue={catalogue}
+                maxDescriptionLength={limits.maxDescriptionLength}
+                onStop={handleTimerStopped}
+              />
+            )}
+
+            {successMessage && (
+              <div className="mb-4 p-4 bg-green-100 border border-green-400 text-green-700 rounded">
+                {successMessage}
+              </div>
+            )}
 
-              {projects.map((project, projectIndex) => (
-                <div key={projectIndex} className="mb-8 p-4 border border-gray-200 rounded-lg">
-                  <div className="flex items-center justify-between mb-4">
+            {error && (
+              <div className="mb-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+                {error}
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="bg-white shadow sm:rounded-lg">
+                <div className="px-4 py-5 sm:p-6">
+                  <div className="mb-6">
+                    <label htmlFor="date" className="block text-sm font-medium text-gray-700 mb-1">
+                      Date
+                    </label>
                     <input
-                      type="text"
-                      placeholder="Project Name"
+                      type="date"
+                      id="date"
                       required
-                      value={project.name}
-                      onChange={(e) => updateProject(projectIndex, e.target.value)}
+                      value={date}
+                      onChange={handleDateChange}
+                      max={today}
                       className={inputClasses}
                     />
-                    {projects.length > 1 && (
+                  </div>
+
+                  {loadingSubmitted ? (
+                    <div className="mb-6 flex items-center text-sm text-gray-500">
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Checking submitted entries...
+                    </div>
+                  ) : isEditingSubmitted ? (
+                    <div className="mb-6 p-4 flex items-center justify-between bg-amber-50 border border-amber-200 rounded-lg">
+                      <span className="text-sm text-amber-800">
+                        Editing the entries already submitted for {date}
+                      </span>
+                      <div className="flex items-center space-x-3">
+                        <button
+                          type="button"
+                          onClick={() => confirmDelete('day', 0)}
+                          className="text-sm font-medium text-red-600 hover:text-red-800"
+                        >
+                          Delete all
+                        </button>
+                        <button
+                          type="button"
+                          onClick={cancelEditing}
+                          className="text-sm font-medium text-gray-600 hover:text-gray-800"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : isApproved ? (
+                    <div className="mb-6 p-4 flex items-center bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+                      <Lock className="h-4 w-4 mr-2" />
+                      This date has been approved and is locked against changes
+                    </div>
+                  ) : approval?.status === 'rejected' ? (
+                    <div className="mb-6 p-4 flex items-start justify-between bg-red-50 border border-red-200 rounded-lg">
+                      <div className="text-sm text-red-800">
+                        <div className="flex items-center font-medium">
+                          <XCircle className="h-4 w-4 mr-2" />
+                          Rejected by your manager
+                        </div>
+                        {approval.comment && <p className="mt-1 ml-6">{approval.comment}</p>}
+                      </div>
                       <button
                         type="button"
-                        onClick={() => confirmDelete('project', projectIndex)}
-                        className="ml-2 p-1 text-red-600 hover:text-red-900 focus:outline-none"
+                        onClick={startEditingSubmitted}
+                        className="inline-flex items-center text-sm font-medium text-red-600 hover:text-red-800"
                       >
-                        <Trash2 className="h-5 w-5" />
+                        <Edit2 className="h-4 w-4 mr-1" />
+                        Fix entries
                       </button>
-                    )}
-                  </div>
+                    </div>
+                  ) : submittedTaskCount > 0 && (
+                    <div className="mb-6 p-4 flex items-center justify-between bg-indigo-50 border border-indigo-200 rounded-lg">
+                      <span className="flex items-center text-sm text-indigo-800">
+                        <ClipboardList className="h-4 w-4 mr-2" />
+                        {submittedTaskCount} {submittedTaskCount === 1 ? 'entry' : 'entries'} submitted for this date, awaiting approval
+                      </span>
+                      <button
+                        type="button"
+                        onClick={startEditingSubmitted}
+                        className="inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-800"
+                      >
+                        <Edit2 className="h-4 w-4 mr-1" />
+                        Edit
+                      </button>
+                    </div>
+                  )}
 
-                  <div className="space-y-4">
-                    {project.tasks.map((task, taskIndex) => (
-                      <div key={taskIndex} className="flex items-start space-x-4">
-                        <div className="flex-grow">
+                  {!loadingSubmitted && !isApproved && (
+                    <div className="mb-6 p-4 space-y-3 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+                      <div className="flex flex-wrap items-center gap-3">
+                        <span className="flex items-center text-gray-700">
+                          <Copy className="h-4 w-4 mr-1" />
+                          Copy from
+                        </span>
+                        <button
+                          type="button"
+                          disabled={filling}
+                          onClick={() => copyFromDate(addDays(date, -1))}
+                          className="font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                        >
+                          Yesterday
+                        </button>
+                        <button
+                          type="button"
+                          disabled={filling}
+                          onClick={() => copyFromDate(addDays(date, -7))}
+                          className="font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                        >
+                          Last {lastWeekday}
+                        </button>
+                        <label className="ml-auto flex items-center text-gray-700">
                           <input
-                            type="text"
-                            placeholder="Task Description"
-                            required
-                            value={task.description}
-                            onChange={(e) => updateTask(projectIndex, taskIndex, 'description', e.target.value)}
-                            className={inputClasses}
+                            type="checkbox"
+                            checked={keepHours}
+                            onChange={(e) => setKeepHours(e.target.checked)}
+                            className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
                           />
-                        </div>
-                        <div className="w-24">
-                          <input
-                            type="number"
-                            placeholder="Hours"
+                          Keep hours
+                        </label>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <select
+                          value={selectedTemplateId}
+                          onChange={(e) => setSelectedTemplateId(e.target.value)}
+                          className="rounded-md border-gray-300 text-sm py-1.5"
+                        >
+                          <option value="">{templates.length > 0 ? 'Choose a template' : 'No templates yet'}</option>
+                          {templates.map(template => (
+                            <option key={template.id} value={template.id}>{template.name}</option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          disabled={!selectedTemplateId || filling}
+                          onClick={applyTemplate}
+                          className="font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                        >
+                          Apply
+                        </button>
+                        <button
+                          type="button"
+                          disabled={!selectedTemplateId || filling}
+                          onClick={handleDeleteTemplate}
+                          className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                          title="Delete template"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                        <input
+                          type="text"
+                          value={templateName}
+                          onChange={(e) => setTemplateName(e.target.value)}
+                          placeholder="Template name"
+                          maxLength={80}
+                          className="ml-auto rounded-md border-gray-300 text-sm py-1.5"
+                        />
+                        <button
+                          type="button"
+                          disabled={filling}
+                          onClick={handleSaveTemplate}
+                          className="inline-flex items-center font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                        >
+                          <Save className="h-4 w-4 mr-1" />
+                          Save rows as template
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {projects.map((project, projectIndex) => (
+                    <div key={projectIndex} className="mb-8 p-4 border border-gray-200 rounded-lg">
+                      <div className="flex items-start justify-between mb-4">
+                        <div className="flex-grow">
+                          <select
                             required
-                            min="0.5"
-                            max="24"
-                            step="0.5"
-                            value={task.hours}
-                            onKeyDown={handleKeyDown}
-                            onChange={(e) => updateTask(projectIndex, taskIndex, 'hours', e.target.value)}
-                            className={inputClasses}
-                          />
+                            value={project.name}
+                            onChange={(e) => updateProject(projectIndex, e.target.value)}
+                            className={fieldClasses(`projects.${projectIndex}.name`)}
+                          >
+                            <option value="" disabled>Select a project</option>
+                            {catalogue.map((option) => (
+                              <option key={option.id} value={option.code}>{projectLabel(option)}</option>
+                            ))}
+                            {/* Entries submitted before the catalogue, or against a project since archived */}
+                            {project.name && !catalogue.some(option => option.code === project.name) && (
+                              <option value={project.name} disabled>{project.name} (not available)</option>
+                            )}
+                          </select>
+                          <FieldError path={`projects.${projectIndex}.name`} />
                         </div>
-                        {project.tasks.length > 1 && (
+                        {projects.length > 1 && (
                           <button
                             type="button"
-                            onClick={() => confirmDelete('task', projectIndex, taskIndex)}
-                            className="p-1 text-red-600 hover:text-red-900 focus:outline-none mt-2"
+                            onClick={() => confirmDelete('project', projectIndex)}
+                            className="ml-2 p-1 text-red-600 hover:text-red-900 focus:outline-none mt-2"
                           >
                             <Trash2 className="h-5 w-5" />
                           </button>
                         )}
                       </div>
-                    ))}
-                  </div>
+
+                      <div className="space-y-4">
+                        {project.tasks.map((task, taskIndex) => (
+                          <div key={taskIndex} className="flex items-start space-x-4">
+                            <div className="flex-grow">
+                              <input
+                                type="text"
+                                placeholder="Task Description"
+                                required
+                                maxLength={limits.maxDescriptionLength}
+                                value={task.description}
+                                onChange={(e) => updateTask(projectIndex, taskIndex, 'description', e.target.value)}
+                                className={fieldClasses(`projects.${projectIndex}.tasks.${taskIndex}.description`)}
+                              />
+                              <FieldError path={`projects.${projectIndex}.tasks.${taskIndex}.description`} />
+                              <FieldError path={`projects.${projectIndex}.tasks.${taskIndex}.hours`} />
+                            </div>
+                            <div className="w-24">
+                              <input
+                                type="number"
+                                placeholder="Hours"
+                                required
+                                min={limits.hoursIncrement}
+                                max={limits.maxDailyHours}
+                                step={limits.hoursIncrement}
+                                value={task.hours}
+                                onKeyDown={handleKeyDown}
+                                onChange={(e) => updateTask(projectIndex, taskIndex, 'hours', e.target.value)}
+                                className={fieldClasses(`projects.${projectIndex}.tasks.${taskIndex}.hours`)}
+                              />
+                            </div>
+                            {project.tasks.length > 1 && (
+                              <button
+                                type="button"
+                                onClick={() => confirmDelete('task', projectIndex, taskIndex)}
+                                className="p-1 text-red-600 hover:text-red-900 focus:outline-none mt-2"
+                              >
+                                <Trash2 className="h-5 w-5" />
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                      <FieldError path={`projects.${projectIndex}.tasks`} />
+
+                      <button
+                        type="button"
+                        onClick={() => addTask(projectIndex)}
+                        className="mt-4 inline-flex items-center px-4 py-2.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                      >
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add Task
+                      </button>
+                    </div>
+                  ))}
 
                   <button
                     type="button"
-                    onClick={() => addTask(projectIndex)}
-                    className="mt-4 inline-flex items-center px-4 py-2.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                    onClick={addProject}
+                    className="inline-flex items-center px-4 py-2.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
                   >
                     <Plus className="h-4 w-4 mr-2" />
-                    Add Task
+                    Add Project
                   </button>
-                </div>
-              ))}
 
-              <button
-                type="button"
-                onClick={addProject}
-                className="inline-flex items-center px-4 py-2.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Add Project
-              </button>
-
-              <div className="mt-6 flex justify-end">
-                <button
-                  type="submit"
-                  disabled={submitting}
-                  className="inline-flex items-center px-4 py-2.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
-                >
-                  {submitting ? (
-                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  ) : (
-                    <Check className="h-4 w-4 mr-2" />
-                  )}
-                  Submit Timesheet
-                </button>
+                  <div className="mt-6 flex items-center justify-end">
+                    {draftSavedAt && (
+                      <span className="mr-4 text-xs text-gray-500">
+                        Draft saved {new Date(draftSavedAt).toLocaleTimeString()}
+                      </span>
+                    )}
+                    <button
+                      type="submit"
+                      disabled={submitting || isApproved}
+                      className="inline-flex items-center px-4 py-2.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                    >
+                      {submitting ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Check className="h-4 w-4 mr-2" />
+                      )}
+                      {isEditingSubmitted ? 'Save Changes' : 'Submit Timesheet'}
+                    </button>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
-        </form>
+            </form>
+          </>
+        )}
 
         {deleteConfirmation.show && (
           <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
@@ -363,7 +978,9 @@ export const Dashboard = () => {
                 </h3>
               </div>
               <p className="text-sm text-gray-500 mb-4">
-                {deleteConfirmation.type === 'project'
+                {deleteConfirmation.type === 'day'
+                  ? 'Are you sure you want to delete every entry submitted for this date?'
+                  : deleteConfirmation.type === 'project'
                   ? 'Are you sure you want to delete this project and all its tasks?'
                   : 'Are you sure you want to delete this task?'}
               </p>
@@ -0,0 +1,395 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { DayStatus, fetchHistory, History as HistoryData, HistoryDay } from '../lib/historyApi';
+import { addDays, dayOfWeek, startOfWeek, todayInTimeZone, userTimeZone } from '../lib/dates';
+import { LogOut, Loader2, ArrowLeft, ArrowDownUp } from 'lucide-react';
+
+type Grouping = 'day' | 'week' | 'month' | 'project';
+
+interface GroupTotal {
+  key: string;
+  label: string;
+  hours: number;
+  // Only meaningful for date groupings
+  expected: number | null;
+}
+
+interface TaskLine {
+  date: string;
+  project: string;
+  description: string;
+  hours: number;
+}
+
+const DAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const GROUPINGS: { value: Grouping; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'project', label: 'Project' },
+];
+
+const STATUS_CLASSES: Record<DayStatus, string> = {
+  complete: 'bg-green-500 text-white',
+  incomplete: 'bg-amber-300 text-amber-900',
+  missing: 'bg-red-400 text-white',
+  off: 'bg-gray-100 text-gray-400',
+  upcoming: 'bg-white text-gray-300 border border-gray-200',
+};
+
+const STATUS_LABELS: Record<DayStatus, string> = {
+  complete: 'Complete',
+  incomplete: 'Short',
+  missing: 'Missing',
+  off: 'Day off',
+  upcoming: 'Upcoming',
+};
+
+const formatHours = (hours: number) => `${Number(hours.toFixed(2))}h`;
+
+const monthLabel = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+// First day of the month `monthsBack` months before the date's month
+const monthStart = (date: string, monthsBack: number) => {
+  const [year, month] = date.split('-').map(Number);
+  const start = new Date(Date.UTC(year, month - 1 - monthsBack, 1));
+  return start.toISOString().slice(0, 10);
+};
+
+const groupKey = (grouping: Exclude<Grouping, 'project'>, date: string) =>
+  grouping === 'day' ? date : grouping === 'week' ? startOfWeek(date) : date.slice(0, 7);
+
+const groupLabel = (grouping: Grouping, key: string) => {
+  if (grouping === 'week') return `Week of ${key}`;
+  if (grouping === 'month') return monthLabel(key);
+  return key;
+};
+
+const tasksOf = (day: HistoryDay): TaskLine[] =>
+  day.projects.flatMap(project =>
+    project.tasks.map(task => ({ date: day.date, project: project.name, ...task }))
+  );
+
+const totalsBy = (grouping: Grouping, days: HistoryDay[]): GroupTotal[] => {
+  const totals = new Map<string, GroupTotal>();
+
+  if (grouping === 'project') {
+    for (const task of days.flatMap(tasksOf)) {
+      const total = totals.get(task.project) || { key: task.project, label: task.project, hours: 0, expected: null };
+      total.hours += task.hours;
+      totals.set(task.project, total);
+    }
+    return [...totals.values()].sort((a, b) => b.hours - a.hours);
+  }
+
+  for (const day of days) {
+    if (day.status === 'upcoming') continue;
+    const key = groupKey(grouping, day.date);
+    const total = totals.get(key) || { key, label: groupLabel(grouping, key), hours: 0, expected: 0 };
+    total.hours += day.hours;
+    total.expected = (total.expected || 0) + day.expected;
+    totals.set(key, total);
+  }
+  return [...totals.values()];
+};
+
+export const History = () => {
+  const { signOut, session, user } = useAuth();
+  const today = todayInTimeZone(userTimeZone(user));
+  const [from, setFrom] = useState(() => monthStart(today, 2));
+  const [to, setTo] = useState(today);
+  const [history, setHistory] = useState<HistoryData | null>(null);
+  const [grouping, setGrouping] = useState<Grouping>('week');
+  // Group or day picked for the task list below the totals
+  const [selection, setSelection] = useState<{ grouping: Grouping; key: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadHistory = useCallback(async () => {
+    if (!session) return;
+    setLoading(true);
+    setError('');
+    try {
+      setHistory(await fetchHistory(session.access_token, from, to));
+      setSelection(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, [session, from, to]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const days = history?.days || [];
+  const pastDays = days.filter(day => day.status !== 'upcoming');
+  const totalHours = pastDays.reduce((sum, day) => sum + day.hours, 0);
+  const totalExpected = pastDays.reduce((sum, day) => sum + day.expected, 0);
+  const countOf = (status: DayStatus) => days.filter(day => day.status === status).length;
+
+  const totals = totalsBy(grouping, days);
+  const maxHours = Math.max(1, ...totals.map(total => Math.max(total.hours, total.expected || 0)));
+
+  const selectedTasks = selection
+    ? days.flatMap(tasksOf).filter(task =>
+      selection.grouping === 'project'
+        ? task.project === selection.key
+        : groupKey(selection.grouping, task.date) === selection.key)
+    : [];
+
+  // Heatmap months, each padded to start on a Monday
+  const months = [...new Set(days.map(day => day.date.slice(0, 7)))].map(month => {
+    const monthDays = days.filter(day => day.date.startsWith(month));
+    const padding = (dayOfWeek(monthDays[0].date) + 6) % 7;
+    return { month, padding, days: monthDays };
+  });
+
+  const inputClasses = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm py-2 px-3";
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow">
+        <div className="max-w-4xl mx-auto px-4">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <h1 className="text-xl font-semibold text-gray-900">History</h1>
+            </div>
+            <div className="flex items-center">
+              <Link
+                to="/import-export"
+                className="inline-flex items-center text-sm font-medium text-gray-700 hover:text-gray-900"
+              >
+                <ArrowDownUp className="h-4 w-4 mr-1" />
+                Import &amp; Export
+              </Link>
+              <Link
+                to="/"
+                className="ml-4 inline-flex items-center text-sm font-medium text-gray-700 hover:text-gray-900"
+              >
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                My Timesheet
+              </Link>
+              <button
+                onClick={() => signOut()}
+                className="ml-4 inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign out
+              </button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-4xl mx-auto py-6 px-4 sm:px-6 space-y-6">
+        {error && (
+          <div className="p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6">
+          <div className="grid grid-cols-2 gap-4 sm:w-96">
+            <label className="block text-sm font-medium text-gray-700">
+              From
+              <input
+                type="date"
+                value={from}
+                max={to}
+                onChange={(e) => e.target.value && setFrom(e.target.value)}
+                className={inputClasses}
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              To
+              <input
+                type="date"
+                value={to}
+                min={from}
+                max={addDays(from, 365)}
+                onChange={(e) => e.target.value && setTo(e.target.value)}
+                className={inputClasses}
+              />
+            </label>
+          </div>
+
+          {loading ? (
+            <div className="mt-6 flex items-center text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Loading entries...
+            </div>
+          ) : history && (
+            <dl className="mt-6 grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+              <div>
+                <dt className="text-gray-500">Logged</dt>
+                <dd className="text-lg font-semibold text-gray-900">
+                  {formatHours(totalHours)} <span className="text-sm font-normal text-gray-500">of {formatHours(totalExpected)}</span>
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Complete days</dt>
+                <dd className="text-lg font-semibold text-green-700">{countOf('complete')}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Short days</dt>
+                <dd className="text-lg font-semibold text-amber-700">{countOf('incomplete')}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Missing days</dt>
+                <dd className="text-lg font-semibold text-red-700">{countOf('missing')}</dd>
+              </div>
+            </dl>
+          )}
+        </div>
+
+        {history && !loading && (
+          <>
+            <div className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Calendar</h2>
+              <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+                {months.map(({ month, padding, days: monthDays }) => (
+                  <div key={month}>
+                    <h3 className="text-sm font-medium text-gray-700 mb-2">{monthLabel(month)}</h3>
+                    <div className="grid grid-cols-7 gap-1 text-xs text-center">
+                      {DAY_LABELS.map(label => (
+                        <div key={label} className="text-gray-400">{label[0]}</div>
+                      ))}
+                      {Array.from({ length: padding }, (_, i) => <div key={`pad-${i}`} />)}
+                      {monthDays.map(day => (
+                        <button
+                          key={day.date}
+                          type="button"
+                          onClick={() => setSelection({ grouping: 'day', key: day.date })}
+                          title={`${day.date}: ${STATUS_LABELS[day.status]}, ${formatHours(day.hours)} of ${formatHours(day.expected)}${day.holiday ? ` (${day.holiday})` : ''}`}
+                          className={`h-8 rounded ${STATUS_CLASSES[day.status]} ${
+                            selection?.grouping === 'day' && selection.key === day.date ? 'ring-2 ring-indigo-500' : ''
+                          }`}
+                        >
+                          {Number(day.date.slice(8))}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="mt-4 flex flex-wrap gap-4 text-xs text-gray-600">
+                {(Object.keys(STATUS_LABELS) as DayStatus[]).map(status => (
+                  <span key={status} className="flex items-center">
+                    <span className={`inline-block h-3 w-3 mr-1 rounded ${STATUS_CLASSES[status]}`} />
+                    {STATUS_LABELS[status]}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-medium text-gray-900">Totals</h2>
+                <div className="inline-flex rounded-md shadow-sm">
+                  {GROUPINGS.map(option => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setGrouping(option.value)}
+                      className={`px-3 py-1.5 text-sm font-medium border border-gray-300 first:rounded-l-md last:rounded-r-md -ml-px first:ml-0 ${
+                        grouping === option.value ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {totals.length === 0 ? (
+                <p className="text-sm text-gray-500">Nothing logged in this range.</p>
+              ) : (
+                <ul className="space-y-2 text-sm">
+                  {totals.map(total => (
+                    <li key={total.key}>
+                      <button
+                        type="button"
+                        onClick={() => setSelection({ grouping, key: total.key })}
+                        className={`w-full text-left rounded px-2 py-1 hover:bg-gray-50 ${
+                          selection?.grouping === grouping && selection.key === total.key ? 'bg-indigo-50' : ''
+                        }`}
+                      >
+                        <div className="flex justify-between">
+                          <span className="text-gray-700">{total.label}</span>
+                          <span className="text-gray-900 font-medium">
+                            {formatHours(total.hours)}
+                            {total.expected !== null && (
+                              <span className="font-normal text-gray-500"> / {formatHours(total.expected)}</span>
+                            )}
+                          </span>
+                        </div>
+                        <div className="mt-1 h-2 bg-gray-100 rounded relative">
+                          {total.expected !== null && (
+                            <div
+                              className="absolute h-2 border-r-2 border-gray-400"
+                              style={{ width: `${(total.expected / maxHours) * 100}%` }}
+                            />
+                          )}
+                          <div
+                            className={`h-2 rounded ${
+                              total.expected !== null && total.hours < total.expected ? 'bg-amber-400' : 'bg-indigo-500'
+                            }`}
+                            style={{ width: `${(total.hours / maxHours) * 100}%` }}
+                          />
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {selection && (
+              <div className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-medium text-gray-900">{groupLabel(selection.grouping, selection.key)}</h2>
+                  <button
+                    type="button"
+                    onClick={() => setSelection(null)}
+                    className="text-sm text-gray-500 hover:text-gray-700"
+                  >
+                    Close
+                  </button>
+                </div>
+                {selectedTasks.length === 0 ? (
+                  <p className="text-sm text-gray-500">No entries.</p>
+                ) : (
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="py-2 pr-4 font-medium">Date</th>
+                        <th className="py-2 pr-4 font-medium">Project</th>
+                        <th className="py-2 pr-4 font-medium">Task</th>
+                        <th className="py-2 text-right font-medium">Hours</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {selectedTasks.map((task, index) => (
+                        <tr key={index}>
+                          <td className="py-2 pr-4 whitespace-nowrap text-gray-700">{task.date}</td>
+                          <td className="py-2 pr-4 text-gray-700">{task.project}</td>
+                          <td className="py-2 pr-4 text-gray-900">{task.description}</td>
+                          <td className="py-2 text-right text-gray-900">{formatHours(task.hours)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,360 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { ImportDay, parseImport, ParsedImport, rowErrorsFor } from '../lib/csv';
+import { downloadExport, ExportFormat } from '../lib/exportApi';
+import { FunctionError } from '../lib/functions';
+import { AssignableUser, CatalogueProject, fetchCatalogue, fetchMyProjects, projectLabel } from '../lib/projectsApi';
+import { hasRole } from '../lib/roles';
+import { addDays, todayInTimeZone, userTimeZone } from '../lib/dates';
+import { previewDay, saveDay, SubmittedProject } from '../lib/timesheetApi';
+import { LogOut, Loader2, ArrowLeft, Download, Upload, Check } from 'lucide-react';
+
+type ImportMode = 'append' | 'replace';
+
+// Dry-run outcome for one date of the file
+interface DayPreview {
+  day: ImportDay;
+  existing: SubmittedProject[];
+  error: string | null;
+  // Generated with the preview so retrying a failed import does not double up days
+  idempotencyKey: string;
+  saved: boolean;
+}
+
+const taskHours = (projects: { tasks: { hours: string | number }[] }[]) =>
+  projects.reduce((sum, project) => sum + project.tasks.reduce((taskSum, task) => taskSum + Number(task.hours), 0), 0);
+
+export const ImportExport = () => {
+  const { signOut, session, user } = useAuth();
+  const today = todayInTimeZone(userTimeZone(user));
+  const isAdmin = hasRole(user, 'admin');
+  const [from, setFrom] = useState(() => `${today.slice(0, 7)}-01`);
+  const [to, setTo] = useState(today);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [project, setProject] = useState('');
+  const [exportUserId, setExportUserId] = useState('');
+  const [projects, setProjects] = useState<CatalogueProject[]>([]);
+  const [users, setUsers] = useState<AssignableUser[]>([]);
+  const [exporting, setExporting] = useState(false);
+  const [mode, setMode] = useState<ImportMode>('append');
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [rowErrors, setRowErrors] = useState<Record<number, string>>({});
+  const [previews, setPreviews] = useState<DayPreview[]>([]);
+  const [previewing, setPreviewing] = useState(false);
+  const [committing, setCommitting] = useState(false);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+
+  useEffect(() => {
+    if (!session) return;
+    const load = isAdmin
+      ? fetchCatalogue(session.access_token).then(({ projects, users }) => {
+        setProjects(projects);
+        setUsers(users);
+      })
+      : fetchMyProjects(session.access_token).then(({ projects }) => setProjects(projects));
+    load.catch((error) => setError(error instanceof Error ? error.message : 'Failed to load projects'));
+  }, [session, isAdmin]);
+
+  // Check the file locally, then dry-run each date through the timesheet
+  // function so the preview shows exactly what submitting would do
+  useEffect(() => {
+    if (!session || fileText === null) return;
+    let cancelled = false;
+
+    const preview = async () => {
+      setPreviewing(true);
+      setError('');
+      setSuccessMessage('');
+      setPreviews([]);
+      setRowErrors({});
+      setParsed(null);
+
+      try {
+        const file = parseImport(fileText, today);
+        const method = mode === 'replace' ? 'PUT' : 'POST';
+        const errors = { ...file.rowErrors };
+        const results: DayPreview[] = [];
+
+        for (const day of file.days) {
+          if (cancelled) return;
+          const result: DayPreview = { day, existing: [], error: null, idempotencyKey: crypto.randomUUID(), saved: false };
+          try {
+            result.existing = (await previewDay(session.access_token, { date: day.date, projects: day.projects }, method)).existing;
+          } catch (error) {
+            result.error = error instanceof Error ? error.message : 'Failed to check this date';
+            Object.assign(errors, rowErrorsFor(day, error instanceof FunctionError ? error.fieldErrors : {}, result.error));
+          }
+          results.push(result);
+        }
+
+        if (cancelled) return;
+        setParsed(file);
+        setRowErrors(errors);
+        setPreviews(results);
+      } catch (error) {
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Failed to read the file');
+      } finally {
+        if (!cancelled) setPreviewing(false);
+      }
+    };
+
+    preview();
+    return () => {
+      cancelled = true;
+    };
+  }, [session, fileText, mode, today]);
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session) return;
+    setExporting(true);
+    setError('');
+    try {
+      await downloadExport(session.access_token, {
+        from,
+        to,
+        format,
+        project: project || undefined,
+        userId: exportUserId || undefined
+      });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to export entries');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setFileText(file ? await file.text() : null);
+  };
+
+  // Submit each date in turn exactly as the Dashboard would
+  const handleCommit = async () => {
+    if (!session) return;
+    setCommitting(true);
+    setError('');
+    setSuccessMessage('');
+    const method = mode === 'replace' ? 'PUT' : 'POST';
+    const updated = [...previews];
+
+    for (const [index, preview] of updated.entries()) {
+      if (preview.saved) continue;
+      try {
+        await saveDay(
+          session.access_token,
+          { date: preview.day.date, projects: preview.day.projects },
+          preview.idempotencyKey,
+          method
+        );
+        updated[index] = { ...preview, saved: true };
+      } catch (error) {
+        updated[index] = { ...preview, error: error instanceof Error ? error.message : 'Failed to save this date' };
+        setError(`Stopped at ${preview.day.date}; earlier dates were saved. Press Import again to retry the rest.`);
+        break;
+      }
+    }
+
+    setPreviews(updated);
+    if (updated.every(preview => preview.saved)) {
+      setSuccessMessage(`Imported ${updated.length} day(s)`);
+    }
+    setCommitting(false);
+  };
+
+  const errorCount = Object.keys(rowErrors).length;
+  const canCommit = previews.length > 0 && errorCount === 0 && !previewing && !previews.every(p => p.saved);
+
+  const inputClasses = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm py-2 px-3";
+  const buttonClasses = "inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50";
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow">
+        <div className="max-w-4xl mx-auto px-4">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <h1 className="text-xl font-semibold text-gray-900">Import &amp; Export</h1>
+            </div>
+            <div className="flex items-center">
+              <Link
+                to="/"
+                className="inline-flex items-center text-sm font-medium text-gray-700 hover:text-gray-900"
+              >
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                My Timesheet
+              </Link>
+              <button
+                onClick={() => signOut()}
+                className="ml-4 inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign out
+              </button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-4xl mx-auto py-6 px-4 sm:px-6 space-y-6">
+        {successMessage && (
+          <div className="p-4 bg-green-100 border border-green-400 text-green-700 rounded">
+            {successMessage}
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleExport} className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Export</h2>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            <label className="block text-sm font-medium text-gray-700">
+              From
+              <input type="date" required value={from} max={to} onChange={(e) => setFrom(e.target.value)} className={inputClasses} />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              To
+              <input
+                type="date"
+                required
+                value={to}
+                min={from}
+                max={addDays(from, 365)}
+                onChange={(e) => setTo(e.target.value)}
+                className={inputClasses}
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Project
+              <select value={project} onChange={(e) => setProject(e.target.value)} className={inputClasses}>
+                <option value="">All projects</option>
+                {projects.map(p => (
+                  <option key={p.code} value={p.code}>{projectLabel(p)}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Format
+              <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={inputClasses}>
+                <option value="csv">CSV</option>
+                <option value="xlsx">Excel (XLSX)</option>
+              </select>
+            </label>
+            {isAdmin && (
+              <label className="block text-sm font-medium text-gray-700 col-span-2">
+                Employee
+                <select value={exportUserId} onChange={(e) => setExportUserId(e.target.value)} className={inputClasses}>
+                  <option value="">Me</option>
+                  {users.filter(member => member.id !== user?.id).map(member => (
+                    <option key={member.id} value={member.id}>{member.name} ({member.email})</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+          <div className="mt-4 flex justify-end">
+            <button type="submit" disabled={exporting} className={buttonClasses}>
+              {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              Download
+            </button>
+          </div>
+        </form>
+
+        <div className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-1">Import</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            A CSV with the headings Date, Project, Task, Hours, as produced by the export. Nothing is saved until you press Import.
+          </p>
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="block text-sm font-medium text-gray-700">
+              File
+              <input type="file" accept=".csv,text/csv" onChange={handleFile} className="mt-1 block text-sm" />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Existing entries on the same dates
+              <select value={mode} onChange={(e) => setMode(e.target.value as ImportMode)} className={inputClasses}>
+                <option value="append">Keep them and add the file's rows</option>
+                <option value="replace">Replace them with the file's rows</option>
+              </select>
+            </label>
+          </div>
+
+          {previewing && (
+            <div className="mt-6 flex items-center text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Checking each date...
+            </div>
+          )}
+
+          {parsed && !previewing && (
+            <div className="mt-6 space-y-4 text-sm">
+              <p className="text-gray-700">
+                {parsed.rowCount} row(s) across {parsed.days.length} date(s).{' '}
+                {errorCount > 0
+                  ? <span className="text-red-700">{errorCount} row(s) need fixing before the file can be imported.</span>
+                  : <span className="text-green-700">Every row passed validation.</span>}
+              </p>
+
+              {errorCount > 0 && (
+                <ul className="p-3 bg-red-50 border border-red-200 rounded text-red-800 space-y-1">
+                  {Object.entries(rowErrors)
+                    .sort(([a], [b]) => Number(a) - Number(b))
+                    .map(([row, message]) => (
+                      <li key={row}>Row {row}: {message}</li>
+                    ))}
+                </ul>
+              )}
+
+              {previews.map(({ day, existing, error: dayError, saved }) => {
+                const after = mode === 'replace' ? taskHours(day.projects) : taskHours(existing) + taskHours(day.projects);
+                return (
+                  <div key={day.date} className="border border-gray-200 rounded-lg p-3">
+                    <div className="flex justify-between font-medium text-gray-900">
+                      <span className="flex items-center">
+                        {saved && <Check className="h-4 w-4 mr-1 text-green-600" />}
+                        {day.date}
+                      </span>
+                      <span className={dayError ? 'text-red-700' : 'text-gray-700'}>
+                        {taskHours(existing)}h → {after}h
+                      </span>
+                    </div>
+                    <ul className="mt-2 space-y-0.5">
+                      {existing.flatMap(p => p.tasks.map((task, i) => (
+                        <li
+                          key={`existing-${p.name}-${i}`}
+                          className={mode === 'replace' ? 'text-red-700 line-through' : 'text-gray-500'}
+                        >
+                          {mode === 'replace' ? '− ' : '  '}{p.name} · {task.description} · {task.hours}h
+                        </li>
+                      )))}
+                      {day.projects.flatMap(p => p.tasks.map((task, i) => (
+                        <li key={`new-${p.name}-${i}`} className="text-green-700">
+                          + {p.name} · {task.description} · {task.hours}h
+                        </li>
+                      )))}
+                    </ul>
+                    {dayError && <p className="mt-2 text-red-700">{dayError}</p>}
+                  </div>
+                );
+              })}
+
+              <div className="flex justify-end">
+                <button type="button" onClick={handleCommit} disabled={!canCommit || committing} className={buttonClasses}>
+                  {committing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                  Import
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
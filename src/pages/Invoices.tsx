@@ -0,0 +1,257 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  downloadInvoiceCsv,
+  fetchInvoiceReport,
+  generateInvoiceReport,
+  InvoiceReportResult,
+  openInvoicePrintView
+} from '../lib/invoicesApi';
+import { addDays, todayInTimeZone, userTimeZone } from '../lib/dates';
+import { LogOut, Loader2, ArrowLeft, Download, Printer, RefreshCw, AlertTriangle } from 'lucide-react';
+
+// Invoices usually go out for the month that just ended
+const previousMonth = (today: string) => addDays(`${today.slice(0, 7)}-01`, -1).slice(0, 7);
+
+export const Invoices = () => {
+  const { signOut, session, user } = useAuth();
+  const [month, setMonth] = useState(() => previousMonth(todayInTimeZone(userTimeZone(user))));
+  const [result, setResult] = useState<InvoiceReportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+  const [confirmingRegenerate, setConfirmingRegenerate] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    if (!session || !month) return;
+    setLoading(true);
+    setError('');
+    try {
+      setResult(await fetchInvoiceReport(session.access_token, month));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load invoice report');
+    } finally {
+      setLoading(false);
+    }
+  }, [session, month]);
+
+  useEffect(() => {
+    setSuccessMessage('');
+    loadReport();
+  }, [loadReport]);
+
+  // Run a report action, reporting failures in the error banner
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    setError('');
+    setSuccessMessage('');
+    try {
+      await action();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Replacing a stored month reprices it at today's rates, so it is confirmed first
+  const handleGenerate = (force: boolean) => run(async () => {
+    if (!session) return;
+    setConfirmingRegenerate(false);
+    setResult(await generateInvoiceReport(session.access_token, month, force));
+    setSuccessMessage(`Invoice report for ${month} saved`);
+  }, 'Failed to generate invoice report');
+
+  const report = result?.report;
+  const money = (amount: number) =>
+    `${report?.currency} ${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  const buttonClasses = "inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50";
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow">
+        <div className="max-w-5xl mx-auto px-4">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <h1 className="text-xl font-semibold text-gray-900">Invoices</h1>
+            </div>
+            <div className="flex items-center">
+              <Link
+                to="/admin"
+                className="inline-flex items-center text-sm font-medium text-gray-700 hover:text-gray-900"
+              >
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Team Overview
+              </Link>
+              <button
+                onClick={() => signOut()}
+                className="ml-4 inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign out
+              </button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-5xl mx-auto py-6 px-4 sm:px-6 space-y-6">
+        {successMessage && (
+          <div className="p-4 bg-green-100 border border-green-400 text-green-700 rounded">
+            {successMessage}
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+              <div>
+                <label htmlFor="month" className="block text-sm font-medium text-gray-700 mb-1">Month</label>
+                <input
+                  id="month"
+                  type="month"
+                  value={month}
+                  onChange={(e) => setMonth(e.target.value)}
+                  className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm py-2 px-3"
+                />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button type="button" onClick={() => (result?.stored ? setConfirmingRegenerate(true) : handleGenerate(false))} disabled={busy || loading} className={buttonClasses}>
+                  {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                  {result?.stored ? 'Regenerate' : 'Generate'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => run(() => downloadInvoiceCsv(session!.access_token, month), 'Failed to download invoice report')}
+                  disabled={busy || !report}
+                  className={buttonClasses}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  CSV
+                </button>
+                <button
+                  type="button"
+                  onClick={() => run(() => openInvoicePrintView(session!.access_token, month), 'Failed to open printable report')}
+                  disabled={busy || !report}
+                  className={buttonClasses}
+                >
+                  <Printer className="h-4 w-4 mr-2" />
+                  Print / PDF
+                </button>
+              </div>
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+              </div>
+            ) : report && (
+              <>
+                <p className="text-sm text-gray-500 mb-4">
+                  {result?.stored
+                    ? `Saved report generated ${new Date(report.generatedAt).toLocaleString()}. Regenerate to pick up later approvals or rate changes.`
+                    : 'Live preview. Generate the report to keep a copy that stays the same when rates change.'}
+                </p>
+
+                {report.unapprovedHours > 0 && (
+                  <p className="mb-4 flex items-center text-sm text-amber-700">
+                    <AlertTriangle className="h-4 w-4 mr-1" />
+                    {report.unapprovedHours} hours on days that are not approved are left out.
+                  </p>
+                )}
+
+                {report.clients.length === 0 ? (
+                  <p className="text-sm text-gray-500">No approved hours in {month}.</p>
+                ) : (
+                  <div className="space-y-6">
+                    {report.clients.map(client => (
+                      <div key={client.client}>
+                        <h3 className="text-sm font-semibold text-gray-900 mb-2">{client.client}</h3>
+                        <table className="min-w-full divide-y divide-gray-200 text-sm">
+                          <thead>
+                            <tr>
+                              <th className="py-2 pr-4 text-left font-medium text-gray-700">Project</th>
+                              <th className="px-4 py-2 text-right font-medium text-gray-700">Hours</th>
+                              <th className="px-4 py-2 text-right font-medium text-gray-700">Rate</th>
+                              <th className="pl-4 py-2 text-right font-medium text-gray-700">Amount</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-100">
+                            {client.projects.map(project => (
+                              <tr key={project.code}>
+                                <td className="py-2 pr-4 text-gray-900">
+                                  {project.code} · {project.name}
+                                  {!project.billable && <span className="ml-2 text-xs text-gray-500">non-billable</span>}
+                                </td>
+                                <td className="px-4 py-2 text-right">{project.hours}</td>
+                                <td className="px-4 py-2 text-right">
+                                  {project.billable && project.rate !== null ? money(project.rate) : '–'}
+                                </td>
+                                <td className="pl-4 py-2 text-right">{money(project.amount)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                          <tfoot>
+                            <tr className="font-medium">
+                              <td className="py-2 pr-4">Total</td>
+                              <td className="px-4 py-2 text-right">{client.hours}</td>
+                              <td />
+                              <td className="pl-4 py-2 text-right">{money(client.amount)}</td>
+                            </tr>
+                          </tfoot>
+                        </table>
+                      </div>
+                    ))}
+
+                    <div className="pt-4 border-t border-gray-200 flex justify-end gap-6 text-sm">
+                      <span>{report.totals.hours} hours</span>
+                      <span>{report.totals.billableHours} billable</span>
+                      <span className="font-semibold text-gray-900">{money(report.totals.amount)}</span>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        {confirmingRegenerate && (
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
+            <div className="bg-white rounded-lg p-6 max-w-sm w-full">
+              <div className="flex items-center mb-4">
+                <AlertTriangle className="h-6 w-6 text-amber-600 mr-2" />
+                <h3 className="text-lg font-medium text-gray-900">
+                  Regenerate {month}?
+                </h3>
+              </div>
+              <p className="text-sm text-gray-500 mb-4">
+                The saved report is replaced with one priced at today's rates and approvals. Invoices already sent from it will no longer match.
+              </p>
+              <div className="flex justify-end space-x-3">
+                <button type="button" onClick={() => setConfirmingRegenerate(false)} className={buttonClasses}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleGenerate(true)}
+                  disabled={busy}
+                  className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-amber-600 hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500 disabled:opacity-50"
+                >
+                  Regenerate
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
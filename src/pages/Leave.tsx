@@ -0,0 +1,377 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  cancelLeave,
+  decideLeave,
+  fetchMyLeave,
+  fetchPendingLeave,
+  formatLeaveDates,
+  LEAVE_TYPE_LABELS,
+  LeaveBalance,
+  LeavePayload,
+  LeaveRequest,
+  LeaveStatus,
+  LeaveType,
+  requestLeave,
+  TeamLeaveRequest
+} from '../lib/leaveApi';
+import { todayInTimeZone, userTimeZone } from '../lib/dates';
+import { hasRole } from '../lib/roles';
+import { LogOut, Loader2, ArrowLeft, ChevronLeft, ChevronRight, Check, X, Send } from 'lucide-react';
+
+const STATUS_CLASSES: Record<LeaveStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+const LEAVE_TYPES = Object.keys(LEAVE_TYPE_LABELS) as LeaveType[];
+
+export const Leave = () => {
+  const { signOut, session, user } = useAuth();
+  const today = todayInTimeZone(userTimeZone(user));
+  const isAdmin = hasRole(user, 'admin');
+  const [year, setYear] = useState(() => Number(today.slice(0, 4)));
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [teamRequests, setTeamRequests] = useState<TeamLeaveRequest[]>([]);
+  const [form, setForm] = useState<LeavePayload>({
+    type: 'annual',
+    startDate: today,
+    endDate: today,
+    halfDay: false,
+    reason: ''
+  });
+  // Rejection comment being written for one of the team's requests
+  const [rejecting, setRejecting] = useState<{ id: string; comment: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+
+  const loadLeave = useCallback(async () => {
+    if (!session) return;
+    setLoading(true);
+    try {
+      const [mine, team] = await Promise.all([
+        fetchMyLeave(session.access_token, year),
+        isAdmin ? fetchPendingLeave(session.access_token) : Promise.resolve({ requests: [] })
+      ]);
+      setRequests(mine.requests);
+      setBalances(mine.balances);
+      // Admins' own requests are decided by another admin
+      setTeamRequests(team.requests.filter((leave) => leave.userId !== user?.id));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load leave');
+    } finally {
+      setLoading(false);
+    }
+  }, [session, year, isAdmin, user?.id]);
+
+  useEffect(() => {
+    loadLeave();
+  }, [loadLeave]);
+
+  // Run a change, report its outcome and reload
+  const apply = async (change: () => Promise<{ message: string }>) => {
+    if (!session) return false;
+    setSaving(true);
+    setError('');
+    setSuccessMessage('');
+    try {
+      const result = await change();
+      setSuccessMessage(result.message);
+      await loadLeave();
+      return true;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update leave');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const payload = { ...form, endDate: form.halfDay ? form.startDate : form.endDate };
+    if (await apply(() => requestLeave(session!.access_token, payload))) {
+      setForm({ ...form, reason: '', halfDay: false });
+    }
+  };
+
+  const handleStartChange = (startDate: string) => {
+    setForm({ ...form, startDate, endDate: form.endDate < startDate ? startDate : form.endDate });
+  };
+
+  const canCancel = (leave: LeaveRequest) =>
+    leave.status === 'pending' || (leave.status === 'approved' && leave.startDate > today);
+
+  const inputClasses = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm py-2 px-3 placeholder:text-gray-400";
+  const navButtonClasses = "inline-flex items-center p-2 border border-gray-300 shadow-sm rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500";
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow">
+        <div className="max-w-2xl mx-auto px-4">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <h1 className="text-xl font-semibold text-gray-900">Leave</h1>
+            </div>
+            <div className="flex items-center">
+              <Link
+                to="/"
+                className="inline-flex items-center text-sm font-medium text-gray-700 hover:text-gray-900"
+              >
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                My Timesheet
+              </Link>
+              <button
+                onClick={() => signOut()}
+                className="ml-4 inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign out
+              </button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-2xl mx-auto py-6 px-4 sm:px-6 space-y-6">
+        {successMessage && (
+          <div className="p-4 bg-green-100 border border-green-400 text-green-700 rounded">
+            {successMessage}
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+            {error}
+          </div>
+        )}
+
+        {isAdmin && teamRequests.length > 0 && (
+          <div className="bg-white shadow sm:rounded-lg">
+            <div className="px-4 py-5 sm:p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Awaiting your approval</h2>
+              <ul className="divide-y divide-gray-100">
+                {teamRequests.map((leave) => (
+                  <li key={leave.id} className="py-3 text-sm">
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <div className="font-medium text-gray-900">{leave.user?.name || leave.userId}</div>
+                        <div className="text-gray-600">
+                          {LEAVE_TYPE_LABELS[leave.type]} · {formatLeaveDates(leave)} · {leave.days} day(s)
+                        </div>
+                        {leave.reason && <div className="text-gray-500 mt-1">{leave.reason}</div>}
+                      </div>
+                      <div className="flex items-center whitespace-nowrap">
+                        <button
+                          type="button"
+                          onClick={() => apply(() => decideLeave(session!.access_token, leave.id, 'approved'))}
+                          disabled={saving}
+                          title="Approve"
+                          className="p-1 text-green-600 hover:text-green-800"
+                        >
+                          <Check className="h-4 w-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setRejecting({ id: leave.id, comment: '' })}
+                          disabled={saving}
+                          title="Reject"
+                          className="p-1 text-red-600 hover:text-red-800"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                    {rejecting?.id === leave.id && (
+                      <form
+                        onSubmit={async (e) => {
+                          e.preventDefault();
+                          if (await apply(() => decideLeave(session!.access_token, leave.id, 'rejected', rejecting.comment))) {
+                            setRejecting(null);
+                          }
+                        }}
+                        className="mt-2 flex items-center space-x-2"
+                      >
+                        <input
+                          type="text"
+                          required
+                          autoFocus
+                          placeholder="Reason for rejection"
+                          value={rejecting.comment}
+                          onChange={(e) => setRejecting({ ...rejecting, comment: e.target.value })}
+                          className={inputClasses}
+                        />
+                        <button
+                          type="submit"
+                          disabled={saving}
+                          className="mt-1 inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                        >
+                          Reject
+                        </button>
+                      </form>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Request leave</h2>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="type" className="block text-sm font-medium text-gray-700">Type</label>
+                  <select
+                    id="type"
+                    value={form.type}
+                    onChange={(e) => setForm({ ...form, type: e.target.value as LeaveType })}
+                    className={inputClasses}
+                  >
+                    {LEAVE_TYPES.map((type) => (
+                      <option key={type} value={type}>{LEAVE_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="startDate" className="block text-sm font-medium text-gray-700">From</label>
+                  <input
+                    id="startDate"
+                    type="date"
+                    required
+                    value={form.startDate}
+                    onChange={(e) => handleStartChange(e.target.value)}
+                    className={inputClasses}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="endDate" className="block text-sm font-medium text-gray-700">To</label>
+                  <input
+                    id="endDate"
+                    type="date"
+                    required
+                    min={form.startDate}
+                    disabled={form.halfDay}
+                    value={form.halfDay ? form.startDate : form.endDate}
+                    onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                    className={`${inputClasses} disabled:bg-gray-100`}
+                  />
+                </div>
+              </div>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.halfDay}
+                  onChange={(e) => setForm({ ...form, halfDay: e.target.checked })}
+                  className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Half day
+              </label>
+              <textarea
+                placeholder="Reason (optional)"
+                rows={2}
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                className={inputClasses}
+              />
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="inline-flex items-center px-4 py-2.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                  {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                  Submit Request
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <div className="flex items-center space-x-2 mb-4">
+              <button type="button" onClick={() => setYear(year - 1)} className={navButtonClasses}>
+                <ChevronLeft className="h-4 w-4" />
+              </button>
+              <h2 className="text-lg font-medium text-gray-900 px-2">My leave in {year}</h2>
+              <button type="button" onClick={() => setYear(year + 1)} className={navButtonClasses}>
+                <ChevronRight className="h-4 w-4" />
+              </button>
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6">
+                  {balances.map((balance) => (
+                    <div key={balance.type} className="p-3 border border-gray-200 rounded-lg">
+                      <div className="text-xs font-medium text-gray-500">{LEAVE_TYPE_LABELS[balance.type]}</div>
+                      <div className="text-xl font-semibold text-gray-900">
+                        {balance.remaining === null ? '∞' : balance.remaining}
+                        {balance.allowance !== null && (
+                          <span className="text-sm font-normal text-gray-400"> / {balance.allowance}</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {balance.used} used{balance.pending > 0 && `, ${balance.pending} pending`}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {requests.length === 0 ? (
+                  <p className="text-sm text-gray-500">No leave requested in {year}</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {requests.map((leave) => (
+                      <li key={leave.id} className="py-3 flex items-start justify-between text-sm">
+                        <div>
+                          <div className="font-medium text-gray-900">
+                            {LEAVE_TYPE_LABELS[leave.type]} · {formatLeaveDates(leave)}
+                          </div>
+                          <div className="text-gray-500">
+                            {leave.days} day(s){leave.reason && ` · ${leave.reason}`}
+                          </div>
+                          {leave.reviewComment && (
+                            <div className="text-gray-500 mt-1 italic">{leave.reviewComment}</div>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_CLASSES[leave.status]}`}>
+                            {leave.status}
+                          </span>
+                          {canCancel(leave) && (
+                            <button
+                              type="button"
+                              onClick={() => apply(() => cancelLeave(session!.access_token, leave.id))}
+                              disabled={saving}
+                              className="text-sm font-medium text-red-600 hover:text-red-800"
+                            >
+                              Cancel
+                            </button>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
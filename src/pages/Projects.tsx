@@ -0,0 +1,377 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  AssignableUser,
+  CatalogueProject,
+  createProject,
+  deleteProject,
+  fetchCatalogue,
+  ProjectPayload,
+  updateProject
+} from '../lib/projectsApi';
+import { LogOut, Loader2, ArrowLeft, Plus, Edit2, Trash2, AlertTriangle, Check } from 'lucide-react';
+
+interface ProjectForm extends ProjectPayload {
+  id?: string;
+}
+
+const EMPTY_FORM: ProjectForm = { code: '', name: '', client: '', active: true, billable: false, hourlyRate: '', memberIds: [] };
+
+export const Projects = () => {
+  const { signOut, session } = useAuth();
+  const [projects, setProjects] = useState<CatalogueProject[]>([]);
+  const [users, setUsers] = useState<AssignableUser[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+  const [form, setForm] = useState<ProjectForm | null>(null);
+  const [projectToDelete, setProjectToDelete] = useState<CatalogueProject | null>(null);
+
+  const loadCatalogue = useCallback(async () => {
+    if (!session) return;
+    setLoading(true);
+    try {
+      const catalogue = await fetchCatalogue(session.access_token);
+      setProjects(catalogue.projects);
+      setUsers(catalogue.users);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load projects');
+    } finally {
+      setLoading(false);
+    }
+  }, [session]);
+
+  useEffect(() => {
+    loadCatalogue();
+  }, [loadCatalogue]);
+
+  const editProject = (project: CatalogueProject) => {
+    setForm({
+      id: project.id,
+      code: project.code,
+      name: project.name,
+      client: project.client || '',
+      active: project.active,
+      billable: project.billable,
+      hourlyRate: project.hourlyRate === null ? '' : String(project.hourlyRate),
+      memberIds: project.memberIds
+    });
+    setError('');
+    setSuccessMessage('');
+  };
+
+  const toggleMember = (userId: string) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      memberIds: form.memberIds.includes(userId)
+        ? form.memberIds.filter(id => id !== userId)
+        : [...form.memberIds, userId]
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session || !form) return;
+
+    setSaving(true);
+    setError('');
+    setSuccessMessage('');
+    try {
+      const { id, ...payload } = form;
+      if (id) {
+        await updateProject(session.access_token, id, payload);
+      } else {
+        await createProject(session.access_token, payload);
+      }
+      setSuccessMessage(`Project ${payload.code.toUpperCase()} saved`);
+      setForm(null);
+      await loadCatalogue();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save project');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!session || !projectToDelete) return;
+
+    setSaving(true);
+    setError('');
+    setSuccessMessage('');
+    try {
+      await deleteProject(session.access_token, projectToDelete.id);
+      setSuccessMessage(`Project ${projectToDelete.code} deleted`);
+      await loadCatalogue();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to delete project');
+    } finally {
+      setProjectToDelete(null);
+      setSaving(false);
+    }
+  };
+
+  const memberSummary = (project: CatalogueProject) =>
+    project.memberIds.length === 0 ? 'Everyone' : `${project.memberIds.length} assigned`;
+
+  const inputClasses = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm py-2 px-3 placeholder:text-gray-400";
+  const secondaryButtonClasses = "inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500";
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow">
+        <div className="max-w-5xl mx-auto px-4">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <h1 className="text-xl font-semibold text-gray-900">Projects</h1>
+            </div>
+            <div className="flex items-center">
+              <Link
+                to="/admin"
+                className="inline-flex items-center text-sm font-medium text-gray-700 hover:text-gray-900"
+              >
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Team Overview
+              </Link>
+              <button
+                onClick={() => signOut()}
+                className="ml-4 inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign out
+              </button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-5xl mx-auto py-6 px-4 sm:px-6">
+        {successMessage && (
+          <div className="mb-4 p-4 bg-green-100 border border-green-400 text-green-700 rounded">
+            {successMessage}
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <div className="flex justify-end mb-6">
+              <button
+                type="button"
+                onClick={() => setForm(EMPTY_FORM)}
+                className="inline-flex items-center px-4 py-2.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                New Project
+              </button>
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+              </div>
+            ) : projects.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-12">No projects yet</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead>
+                  <tr>
+                    <th className="py-2 pr-4 text-left font-medium text-gray-700">Code</th>
+                    <th className="px-2 py-2 text-left font-medium text-gray-700">Name</th>
+                    <th className="px-2 py-2 text-left font-medium text-gray-700">Client</th>
+                    <th className="px-2 py-2 text-left font-medium text-gray-700">Billing</th>
+                    <th className="px-2 py-2 text-left font-medium text-gray-700">Members</th>
+                    <th className="px-2 py-2 text-left font-medium text-gray-700">Status</th>
+                    <th className="pl-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {projects.map((project) => (
+                    <tr key={project.id} className={project.active ? '' : 'text-gray-400'}>
+                      <td className="py-2 pr-4 font-mono font-medium">{project.code}</td>
+                      <td className="px-2 py-2">{project.name}</td>
+                      <td className="px-2 py-2">{project.client || '–'}</td>
+                      <td className="px-2 py-2">
+                        {project.billable ? `${project.hourlyRate}/h` : 'Non-billable'}
+                      </td>
+                      <td className="px-2 py-2">{memberSummary(project)}</td>
+                      <td className="px-2 py-2">{project.active ? 'Active' : 'Archived'}</td>
+                      <td className="pl-4 py-2 text-right whitespace-nowrap">
+                        <button
+                          type="button"
+                          onClick={() => editProject(project)}
+                          title="Edit project"
+                          className="p-1 text-gray-600 hover:text-gray-800"
+                        >
+                          <Edit2 className="h-4 w-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setProjectToDelete(project)}
+                          title="Delete project"
+                          className="p-1 text-red-600 hover:text-red-800"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+
+        {form && (
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
+            <form onSubmit={handleSave} className="bg-white rounded-lg p-6 max-w-md w-full max-h-full overflow-y-auto">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">
+                {form.id ? `Edit ${form.code}` : 'New Project'}
+              </h3>
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="code" className="block text-sm font-medium text-gray-700">Code</label>
+                  <input
+                    id="code"
+                    type="text"
+                    required
+                    pattern="[A-Za-z0-9][A-Za-z0-9\-]*"
+                    placeholder="SR-CRM"
+                    value={form.code}
+                    onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                    className={`${inputClasses} font-mono`}
+                  />
+                  {form.id && (
+                    <p className="mt-1 text-xs text-gray-500">The code cannot change once timesheet entries use it.</p>
+                  )}
+                </div>
+                <div>
+                  <label htmlFor="name" className="block text-sm font-medium text-gray-700">Name</label>
+                  <input
+                    id="name"
+                    type="text"
+                    required
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    className={inputClasses}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="client" className="block text-sm font-medium text-gray-700">Client</label>
+                  <input
+                    id="client"
+                    type="text"
+                    value={form.client}
+                    onChange={(e) => setForm({ ...form, client: e.target.value })}
+                    className={inputClasses}
+                  />
+                </div>
+                <div className="flex items-end gap-4">
+                  <label className="flex items-center text-sm text-gray-700 pb-2">
+                    <input
+                      type="checkbox"
+                      checked={form.billable}
+                      onChange={(e) => setForm({ ...form, billable: e.target.checked })}
+                      className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    Billable
+                  </label>
+                  <div className="flex-grow">
+                    <label htmlFor="hourlyRate" className="block text-sm font-medium text-gray-700">Hourly rate</label>
+                    <input
+                      id="hourlyRate"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      required={form.billable}
+                      value={form.hourlyRate}
+                      onChange={(e) => setForm({ ...form, hourlyRate: e.target.value })}
+                      className={inputClasses}
+                    />
+                  </div>
+                </div>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.active}
+                    onChange={(e) => setForm({ ...form, active: e.target.checked })}
+                    className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Active (archived projects cannot receive new entries)
+                </label>
+                <div>
+                  <span className="block text-sm font-medium text-gray-700">Members</span>
+                  <p className="text-xs text-gray-500 mb-2">Leave everyone unticked to open the project to all users</p>
+                  <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-md p-2 space-y-1">
+                    {users.map((member) => (
+                      <label key={member.id} className="flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={form.memberIds.includes(member.id)}
+                          onChange={() => toggleMember(member.id)}
+                          className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        {member.name}
+                        <span className="ml-1 text-xs text-gray-400">{member.email}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <div className="mt-6 flex justify-end space-x-3">
+                <button type="button" onClick={() => setForm(null)} className={secondaryButtonClasses}>
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                  {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Check className="h-4 w-4 mr-2" />}
+                  Save
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {projectToDelete && (
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
+            <div className="bg-white rounded-lg p-6 max-w-sm w-full">
+              <div className="flex items-center mb-4">
+                <AlertTriangle className="h-6 w-6 text-red-600 mr-2" />
+                <h3 className="text-lg font-medium text-gray-900">
+                  Confirm Delete
+                </h3>
+              </div>
+              <p className="text-sm text-gray-500 mb-4">
+                Delete project {projectToDelete.code}? Projects with timesheet entries can only be archived.
+              </p>
+              <div className="flex justify-end space-x-3">
+                <button type="button" onClick={() => setProjectToDelete(null)} className={secondaryButtonClasses}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleDelete}
+                  disabled={saving}
+                  className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
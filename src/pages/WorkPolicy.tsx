@@ -0,0 +1,285 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  addHoliday,
+  deleteHoliday,
+  fetchWorkPolicy,
+  importHolidays,
+  saveSchedule,
+  WorkPolicy as Policy
+} from '../lib/policyApi';
+import { todayInTimeZone, userTimeZone } from '../lib/dates';
+import { LogOut, Loader2, ArrowLeft, ChevronLeft, ChevronRight, Upload, Plus, Trash2, Check, RotateCcw } from 'lucide-react';
+
+const DAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export const WorkPolicy = () => {
+  const { signOut, session, user } = useAuth();
+  const [year, setYear] = useState(() => Number(todayInTimeZone(userTimeZone(user)).slice(0, 4)));
+  const [policy, setPolicy] = useState<Policy | null>(null);
+  // Unsaved schedule edits keyed by user id
+  const [drafts, setDrafts] = useState<Record<string, string[]>>({});
+  const [newHoliday, setNewHoliday] = useState({ date: '', name: '' });
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+
+  const loadPolicy = useCallback(async () => {
+    if (!session) return;
+    setLoading(true);
+    try {
+      setPolicy(await fetchWorkPolicy(session.access_token, String(year)));
+      setDrafts({});
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load working-hours policy');
+    } finally {
+      setLoading(false);
+    }
+  }, [session, year]);
+
+  useEffect(() => {
+    loadPolicy();
+  }, [loadPolicy]);
+
+  // Run a change, report its outcome and reload the policy
+  const apply = async (change: () => Promise<{ message: string }>) => {
+    setSaving(true);
+    setError('');
+    setSuccessMessage('');
+    try {
+      const result = await change();
+      setSuccessMessage(result.message);
+      await loadPolicy();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update working-hours policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !session) return;
+    const ics = await file.text();
+    await apply(() => importHolidays(session.access_token, ics));
+  };
+
+  const handleAddHoliday = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session) return;
+    await apply(() => addHoliday(session.access_token, newHoliday));
+    setNewHoliday({ date: '', name: '' });
+  };
+
+  const updateDraft = (userId: string, current: number[], dayIndex: number, value: string) => {
+    const draft = [...(drafts[userId] || current.map(String))];
+    draft[dayIndex] = value;
+    setDrafts({ ...drafts, [userId]: draft });
+  };
+
+  const inputClasses = "block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm py-2 px-3";
+  const navButtonClasses = "inline-flex items-center p-2 border border-gray-300 shadow-sm rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500";
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow">
+        <div className="max-w-5xl mx-auto px-4">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <h1 className="text-xl font-semibold text-gray-900">Working Hours</h1>
+            </div>
+            <div className="flex items-center">
+              <Link
+                to="/admin"
+                className="inline-flex items-center text-sm font-medium text-gray-700 hover:text-gray-900"
+              >
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Team Overview
+              </Link>
+              <button
+                onClick={() => signOut()}
+                className="ml-4 inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign out
+              </button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-5xl mx-auto py-6 px-4 sm:px-6 space-y-6">
+        {successMessage && (
+          <div className="p-4 bg-green-100 border border-green-400 text-green-700 rounded">
+            {successMessage}
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center space-x-2">
+                <button type="button" onClick={() => setYear(year - 1)} className={navButtonClasses}>
+                  <ChevronLeft className="h-4 w-4" />
+                </button>
+                <h2 className="text-lg font-medium text-gray-900 px-2">Holidays {year}</h2>
+                <button type="button" onClick={() => setYear(year + 1)} className={navButtonClasses}>
+                  <ChevronRight className="h-4 w-4" />
+                </button>
+              </div>
+              <label className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+                <Upload className="h-4 w-4 mr-2" />
+                Import .ics
+                <input type="file" accept=".ics,text/calendar" onChange={handleImport} disabled={saving} className="hidden" />
+              </label>
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+              </div>
+            ) : policy && (
+              <>
+                {policy.holidays.length === 0 ? (
+                  <p className="text-sm text-gray-500 mb-4">No holidays in {year}</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100 mb-4 text-sm">
+                    {policy.holidays.map((holiday) => (
+                      <li key={holiday.date} className="flex items-center justify-between py-2">
+                        <span>
+                          <span className="font-mono text-gray-500 mr-4">{holiday.date}</span>
+                          {holiday.name}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => apply(() => deleteHoliday(session!.access_token, holiday.date))}
+                          disabled={saving}
+                          title="Delete holiday"
+                          className="p-1 text-red-600 hover:text-red-800"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <form onSubmit={handleAddHoliday} className="flex items-center space-x-2">
+                  <input
+                    type="date"
+                    required
+                    value={newHoliday.date}
+                    onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })}
+                    className={`${inputClasses} w-44`}
+                  />
+                  <input
+                    type="text"
+                    required
+                    placeholder="Holiday name"
+                    value={newHoliday.name}
+                    onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+                    className={inputClasses}
+                  />
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </button>
+                </form>
+              </>
+            )}
+          </div>
+        </div>
+
+        {policy && (
+          <div className="bg-white shadow sm:rounded-lg">
+            <div className="px-4 py-5 sm:p-6">
+              <h2 className="text-lg font-medium text-gray-900">Expected hours</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                Users without their own schedule are expected to log {policy.defaultWeekdayHours.join(' / ')} hours, Monday to Sunday
+              </p>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead>
+                    <tr>
+                      <th className="py-2 pr-4 text-left font-medium text-gray-700">Employee</th>
+                      {DAY_LABELS.map((label) => (
+                        <th key={label} className="px-1 py-2 text-center font-medium text-gray-700">{label}</th>
+                      ))}
+                      <th className="pl-4 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {policy.schedules.map((schedule) => {
+                      const draft = drafts[schedule.userId];
+                      const values = draft || schedule.weekdayHours.map(String);
+                      return (
+                        <tr key={schedule.userId}>
+                          <td className="py-2 pr-4">
+                            <div className="font-medium text-gray-900">{schedule.name}</div>
+                            <div className="text-xs text-gray-500">
+                              {schedule.email}{schedule.custom ? '' : ' · default'}
+                            </div>
+                          </td>
+                          {values.map((value, dayIndex) => (
+                            <td key={dayIndex} className="px-1 py-2">
+                              <input
+                                type="number"
+                                min="0"
+                                max="24"
+                                step="0.5"
+                                value={value}
+                                onChange={(e) => updateDraft(schedule.userId, schedule.weekdayHours, dayIndex, e.target.value)}
+                                className={`${inputClasses} w-16 text-center`}
+                              />
+                            </td>
+                          ))}
+                          <td className="pl-4 py-2 text-right whitespace-nowrap">
+                            {draft && (
+                              <button
+                                type="button"
+                                onClick={() => apply(() => saveSchedule(session!.access_token, schedule.userId, draft.map(Number)))}
+                                disabled={saving}
+                                title="Save schedule"
+                                className="p-1 text-green-600 hover:text-green-800"
+                              >
+                                <Check className="h-4 w-4" />
+                              </button>
+                            )}
+                            {schedule.custom && (
+                              <button
+                                type="button"
+                                onClick={() => apply(() => saveSchedule(session!.access_token, schedule.userId, null))}
+                                disabled={saving}
+                                title="Reset to default"
+                                className="p-1 text-gray-600 hover:text-gray-800"
+                              >
+                                <RotateCcw className="h-4 w-4" />
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
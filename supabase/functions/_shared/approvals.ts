@@ -0,0 +1,168 @@
+import { HttpError } from './errors.ts';
+import { supabaseAdmin } from './supabase.ts';
+import { userDateKey } from './team.ts';
+
+export type ApprovalStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
+export interface Approval {
+  status: ApprovalStatus;
+  comment: string | null;
+  reviewedAt: string | null;
+}
+
+export const DRAFT: Approval = { status: 'draft', comment: null, reviewedAt: null };
+
+export async function getApproval(userId: string, date: string): Promise<Approval> {
+  const { data, error } = await supabaseAdmin
+    .from('timesheet_approvals')
+    .select('status, comment, reviewed_at')
+    .eq('user_id', userId)
+    .eq('date', date)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load approval: ${error.message}`);
+  }
+
+  return data
+    ? { status: data.status, comment: data.comment, reviewedAt: data.reviewed_at }
+    : DRAFT;
+}
+
+// One user's review state per date in the range; dates without a row are drafts
+export async function getUserApprovals(userId: string, from: string, to: string): Promise<Map<string, Approval>> {
+  const { data, error } = await supabaseAdmin
+    .from('timesheet_approvals')
+    .select('date, status, comment, reviewed_at')
+    .eq('user_id', userId)
+    .gte('date', from)
+    .lte('date', to);
+
+  if (error) {
+    throw new Error(`Failed to load approvals: ${error.message}`);
+  }
+
+  return new Map(data.map((row) => [
+    row.date,
+    { status: row.status, comment: row.comment, reviewedAt: row.reviewed_at }
+  ]));
+}
+
+// Review state of every user's days in the range, keyed by `userDateKey`
+export async function getApprovals(from: string, to: string): Promise<Map<string, ApprovalStatus>> {
+  const { data, error } = await supabaseAdmin
+    .from('timesheet_approvals')
+    .select('user_id, date, status')
+    .gte('date', from)
+    .lte('date', to);
+
+  if (error) {
+    throw new Error(`Failed to load approvals: ${error.message}`);
+  }
+
+  return new Map(data.map((row) => [userDateKey(row.user_id, row.date), row.status]));
+}
+
+// Approved days cannot be changed by their owner
+export async function assertUnlocked(userId: string, date: string) {
+  const { status } = await getApproval(userId, date);
+  if (status === 'approved') {
+    throw new HttpError(423, `${date} has been approved and can no longer be changed`);
+  }
+}
+
+// Called after the owner writes entries: the day goes (back) into review
+export async function markSubmitted(userId: string, date: string) {
+  const { error } = await supabaseAdmin
+    .from('timesheet_approvals')
+    .upsert({
+      user_id: userId,
+      date,
+      status: 'submitted',
+      comment: null,
+      reviewed_by: null,
+      reviewed_at: null,
+      updated_at: new Date().toISOString()
+    });
+
+  if (error) {
+    throw new Error(`Failed to update approval: ${error.message}`);
+  }
+}
+
+export async function clearApproval(userId: string, date: string) {
+  const { error } = await supabaseAdmin
+    .from('timesheet_approvals')
+    .delete()
+    .eq('user_id', userId)
+    .eq('date', date);
+
+  if (error) {
+    throw new Error(`Failed to update approval: ${error.message}`);
+  }
+}
+
+export type ReviewAction = 'approved' | 'rejected' | 'reopened';
+
+// Every decision and reopen is kept in `timesheet_approval_log`
+async function logReview(userId: string, dates: string[], action: ReviewAction, reviewerId: string, comment: string | null) {
+  if (dates.length === 0) return;
+
+  const { error } = await supabaseAdmin
+    .from('timesheet_approval_log')
+    .insert(dates.map((date) => ({ user_id: userId, date, action, reviewed_by: reviewerId, comment })));
+
+  if (error) {
+    throw new Error(`Failed to log review: ${error.message}`);
+  }
+}
+
+// Move the given days from one review state to another. Days in any other
+// state are left alone; returns the dates that were updated.
+async function review(
+  userId: string,
+  dates: string[],
+  from: ApprovalStatus,
+  action: ReviewAction,
+  reviewerId: string,
+  comment: string | null
+): Promise<string[]> {
+  const { data, error } = await supabaseAdmin
+    .from('timesheet_approvals')
+    .update({
+      status: action === 'reopened' ? 'submitted' : action,
+      comment,
+      reviewed_by: reviewerId,
+      reviewed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('user_id', userId)
+    .in('date', dates)
+    .eq('status', from)
+    .select('date');
+
+  if (error) {
+    throw new Error(`Failed to record decision: ${error.message}`);
+  }
+
+  const updated = data.map((row) => row.date);
+  await logReview(userId, updated, action, reviewerId, comment);
+  return updated;
+}
+
+// Record a reviewer's decision on the given days. Only days waiting for
+// review are touched; an approved day has to be reopened first.
+export function decide(
+  userId: string,
+  dates: string[],
+  decision: 'approved' | 'rejected',
+  reviewerId: string,
+  comment: string | null
+): Promise<string[]> {
+  return review(userId, dates, 'submitted', decision, reviewerId, comment);
+}
+
+// Put approved days back into review so their owner can change them again
+export function reopen(userId: string, dates: string[], reviewerId: string, comment: string): Promise<string[]> {
+  return review(userId, dates, 'approved', 'reopened', reviewerId, comment);
+}
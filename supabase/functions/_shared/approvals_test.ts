@@ -0,0 +1,37 @@
+import { ALICE, BOB, db } from '../_test/setup.ts';
+import assert from 'node:assert/strict';
+import { decide, getApproval, reopen } from './approvals.ts';
+
+function seedDays(statuses: Record<string, string>) {
+  db.reset();
+  for (const [date, status] of Object.entries(statuses)) {
+    db.rows('timesheet_approvals').push({ user_id: ALICE.id, date, status, comment: null });
+  }
+}
+
+const log = () => db.rows('timesheet_approval_log').map(({ date, action, reviewed_by }) => ({ date, action, reviewed_by }));
+
+Deno.test('a decision only applies to days waiting for review', async () => {
+  seedDays({ '2025-04-07': 'submitted', '2025-04-08': 'approved', '2025-04-09': 'rejected' });
+
+  const updated = await decide(ALICE.id, ['2025-04-07', '2025-04-08', '2025-04-09', '2025-04-10'], 'rejected', BOB.id, 'Missing tasks');
+
+  assert.deepEqual(updated, ['2025-04-07']);
+  assert.equal((await getApproval(ALICE.id, '2025-04-08')).status, 'approved');
+  assert.deepEqual(log(), [{ date: '2025-04-07', action: 'rejected', reviewed_by: BOB.id }]);
+});
+
+Deno.test('reopening puts approved days back into review and is logged', async () => {
+  seedDays({ '2025-04-14': 'approved', '2025-04-15': 'submitted' });
+
+  const updated = await reopen(ALICE.id, ['2025-04-14', '2025-04-15'], BOB.id, 'Client asked for a correction');
+
+  assert.deepEqual(updated, ['2025-04-14']);
+  const approval = await getApproval(ALICE.id, '2025-04-14');
+  assert.equal(approval.status, 'submitted');
+  assert.equal(approval.comment, 'Client asked for a correction');
+  assert.deepEqual(log(), [{ date: '2025-04-14', action: 'reopened', reviewed_by: BOB.id }]);
+
+  // Approving again needs the day to be waiting for review, which it now is
+  assert.deepEqual(await decide(ALICE.id, ['2025-04-14'], 'approved', BOB.id, null), ['2025-04-14']);
+});
@@ -0,0 +1,78 @@
+import { jwtVerify, type JWTPayload, type JWTVerifyOptions } from 'npm:jose@5.2.3';
+import { resolveTimeZone } from './dates.ts';
+import { getOrgTimeZone } from './env.ts';
+import { HttpError } from './errors.ts';
+
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  timeZone: string;
+  appMetadata: Record<string, unknown>;
+}
+
+async function verifyAccessToken(req: Request, options?: JWTVerifyOptions): Promise<JWTPayload> {
+  const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '').trim();
+  if (!token) {
+    throw new HttpError(401, 'Missing access token');
+  }
+
+  const secret = Deno.env.get('JWT_SECRET');
+  if (!secret) {
+    throw new Error('Missing required environment variable: JWT_SECRET');
+  }
+
+  try {
+    const { payload } = await jwtVerify(token, new TextEncoder().encode(secret), options);
+    return payload;
+  } catch (error) {
+    console.error('Access token verification failed:', error);
+    throw new HttpError(401, 'Invalid or expired access token');
+  }
+}
+
+// Resolve the caller from the Supabase session access token in the
+// Authorization header. The anon key is signed with the same secret, so the
+// `authenticated` role is required as well as a valid signature.
+export async function getAuthenticatedUser(req: Request): Promise<AuthenticatedUser> {
+  const payload = await verifyAccessToken(req, { audience: 'authenticated' });
+
+  if (payload.role !== 'authenticated' || !payload.sub || typeof payload.email !== 'string') {
+    throw new HttpError(401, 'Access token does not belong to a signed-in user');
+  }
+
+  const userMetadata = (payload.user_metadata || {}) as Record<string, unknown>;
+  const appMetadata = (payload.app_metadata || {}) as Record<string, unknown>;
+  const email = payload.email.toLowerCase();
+
+  return {
+    id: payload.sub,
+    email,
+    name: typeof userMetadata.display_name === 'string' && userMetadata.display_name
+      ? userMetadata.display_name
+      : email,
+    // Users can edit their own user metadata, so the timezone that decides
+    // which days are closed comes from app metadata, like the role
+    timeZone: resolveTimeZone(appMetadata.timezone, getOrgTimeZone()),
+    appMetadata
+  };
+}
+
+// For scheduled functions: only the service role key may call them
+export async function requireServiceRole(req: Request) {
+  const payload = await verifyAccessToken(req);
+  if (payload.role !== 'service_role') {
+    throw new HttpError(403, 'This function can only be called with the service role key');
+  }
+}
+
+// Roles are kept in `app_metadata.role`, which only the service role can set
+export function hasRole(user: AuthenticatedUser, role: string): boolean {
+  return user.appMetadata.role === role;
+}
+
+export function requireRole(user: AuthenticatedUser, role: string) {
+  if (!hasRole(user, role)) {
+    throw new HttpError(403, `This action requires the ${role} role`);
+  }
+}
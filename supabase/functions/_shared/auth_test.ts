@@ -0,0 +1,76 @@
+import { ALICE, db, serviceRoleToken, signAccessToken, userToken } from '../_test/setup.ts';
+import assert from 'node:assert/strict';
+import { handleTimesheetRequest } from '../timesheet/handler.ts';
+import { getAuthenticatedUser, requireServiceRole } from './auth.ts';
+import { HttpError } from './errors.ts';
+
+const withToken = (token: string) =>
+  new Request('http://localhost/', { headers: { Authorization: `Bearer ${token}` } });
+
+async function rejectsWith(status: number, work: Promise<unknown>) {
+  await assert.rejects(work, (error: unknown) => error instanceof HttpError && error.status === status);
+}
+
+Deno.test('a signed-in user token is accepted', async () => {
+  const user = await getAuthenticatedUser(withToken(await userToken(ALICE, {
+    email: 'Alice@Example.com',
+    user_metadata: { display_name: 'Alice', timezone: 'America/New_York' },
+    app_metadata: { role: 'admin', timezone: 'Europe/Berlin' }
+  })));
+
+  assert.equal(user.id, ALICE.id);
+  assert.equal(user.email, 'alice@example.com');
+  assert.equal(user.name, 'Alice');
+  assert.equal(user.timeZone, 'Europe/Berlin');
+  assert.deepEqual(user.appMetadata, { role: 'admin', timezone: 'Europe/Berlin' });
+});
+
+Deno.test('the anon key is not a signed-in user', async () => {
+  const anonKey = await signAccessToken({ role: 'anon', iss: 'supabase' });
+  await rejectsWith(401, getAuthenticatedUser(withToken(anonKey)));
+  await rejectsWith(403, requireServiceRole(withToken(anonKey)));
+});
+
+Deno.test('expired tokens and bad signatures are rejected', async () => {
+  const expired = await signAccessToken(
+    { sub: ALICE.id, email: ALICE.email, role: 'authenticated', aud: 'authenticated' },
+    { expiresIn: Math.floor(Date.now() / 1000) - 60 }
+  );
+  await rejectsWith(401, getAuthenticatedUser(withToken(expired)));
+
+  const forged = await signAccessToken(
+    { sub: ALICE.id, email: ALICE.email, role: 'authenticated', aud: 'authenticated' },
+    { secret: 'some-other-secret-with-at-least-32-characters' }
+  );
+  await rejectsWith(401, getAuthenticatedUser(withToken(forged)));
+  await rejectsWith(401, requireServiceRole(withToken(forged)));
+
+  await rejectsWith(401, getAuthenticatedUser(new Request('http://localhost/')));
+});
+
+Deno.test('a token without an email is rejected', async () => {
+  const token = await signAccessToken({ sub: ALICE.id, role: 'authenticated', aud: 'authenticated' });
+  await rejectsWith(401, getAuthenticatedUser(withToken(token)));
+});
+
+Deno.test('a user token cannot call scheduled functions, the service role can', async () => {
+  await rejectsWith(403, requireServiceRole(withToken(await userToken(ALICE))));
+  await requireServiceRole(withToken(await serviceRoleToken()));
+});
+
+Deno.test('a submission naming another user is refused', async () => {
+  db.reset();
+  const response = await handleTimesheetRequest(new Request('http://localhost/timesheet', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${await userToken(ALICE)}`, 'Idempotency-Key': 'someone-else' },
+    body: JSON.stringify({
+      userEmail: 'bob@example.com',
+      date: '2025-04-01',
+      projects: [{ name: 'SR-CRM', tasks: [{ description: 'Work', hours: 1 }] }]
+    })
+  }));
+
+  assert.equal(response.status, 403);
+  assert.equal((await response.json()).details, 'userEmail does not match the signed-in user');
+  assert.equal(db.rows('timesheet_submissions').length, 0);
+});
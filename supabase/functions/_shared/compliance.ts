@@ -0,0 +1,176 @@
+import type { User } from 'npm:@supabase/supabase-js@2.39.7';
+import { type DayCompliance, dayCompliance, expectedHours, loadWorkPolicy } from './policy.ts';
+import { supabaseAdmin } from './supabase.ts';
+import { getHoursByUser, userDateKey } from './team.ts';
+
+// The daily monitor's checks and their stored history. Each user and date has
+// one stored check, so checking a date again replaces its results.
+
+const PAGE_SIZE = 1000;
+
+export type RunTrigger = 'schedule' | 'rerun';
+
+export interface ComplianceCheck {
+  user: User;
+  date: string;
+  status: DayCompliance;
+  hoursLogged: number;
+  expected: number;
+}
+
+export interface StoredCheck {
+  userId: string;
+  date: string;
+  status: DayCompliance;
+  hoursLogged: number;
+  expected: number;
+}
+
+export interface MonitorRun {
+  id: string;
+  trigger: RunTrigger;
+  triggeredBy: string | null;
+  dates: string[];
+  users: number;
+  missing: number;
+  incomplete: number;
+  stats: Record<string, unknown>;
+  createdAt: string;
+}
+
+// Check each user against the hours expected of them on the paired date
+export async function checkCompliance(userDates: { user: User; date: string }[]): Promise<ComplianceCheck[]> {
+  if (userDates.length === 0) return [];
+
+  const dates = [...new Set(userDates.map(({ date }) => date))].sort();
+  const [hoursByUser, policy] = await Promise.all([
+    getHoursByUser(dates),
+    loadWorkPolicy(dates[0], dates[dates.length - 1])
+  ]);
+
+  return userDates.map(({ user, date }) => {
+    // Weekends, holidays, days off in the user's schedule and full-day leave are 'off'
+    const { expected } = expectedHours(policy, user.id, date);
+    const logged = hoursByUser.get(userDateKey(user.id, date));
+    return { user, date, status: dayCompliance(expected, logged), hoursLogged: logged || 0, expected };
+  });
+}
+
+// Store a run and its checks, overwriting earlier checks of the same days
+export async function recordRun(
+  trigger: RunTrigger,
+  triggeredBy: string | null,
+  checks: ComplianceCheck[],
+  stats: Record<string, unknown>
+): Promise<MonitorRun> {
+  const { data: run, error } = await supabaseAdmin
+    .from('monitor_runs')
+    .insert({
+      trigger,
+      triggered_by: triggeredBy,
+      dates: [...new Set(checks.map((check) => check.date))].sort(),
+      users: new Set(checks.map((check) => check.user.id)).size,
+      missing: checks.filter((check) => check.status === 'missing').length,
+      incomplete: checks.filter((check) => check.status === 'incomplete').length,
+      stats
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to record monitor run: ${error.message}`);
+  }
+
+  const checkedAt = new Date().toISOString();
+  for (let offset = 0; offset < checks.length; offset += PAGE_SIZE) {
+    const { error: checksError } = await supabaseAdmin
+      .from('compliance_checks')
+      .upsert(checks.slice(offset, offset + PAGE_SIZE).map((check) => ({
+        user_id: check.user.id,
+        date: check.date,
+        status: check.status,
+        hours_logged: check.hoursLogged,
+        expected: check.expected,
+        run_id: run.id,
+        checked_at: checkedAt
+      })));
+
+    if (checksError) {
+      throw new Error(`Failed to record compliance checks: ${checksError.message}`);
+    }
+  }
+
+  return toMonitorRun(run);
+}
+
+function toMonitorRun(row: Record<string, unknown>): MonitorRun {
+  return {
+    id: row.id as string,
+    trigger: row.trigger as RunTrigger,
+    triggeredBy: row.triggered_by as string | null,
+    dates: row.dates as string[],
+    users: row.users as number,
+    missing: row.missing as number,
+    incomplete: row.incomplete as number,
+    stats: row.stats as Record<string, unknown>,
+    createdAt: row.created_at as string
+  };
+}
+
+// Runs of missing working days; days off neither extend nor break a streak.
+// `current` is the streak still running on the latest checked working day.
+export function missingStreaks(checks: StoredCheck[]): { current: number; longest: number } {
+  let current = 0;
+  let longest = 0;
+  for (const check of checks) {
+    if (check.status === 'off') continue;
+    current = check.status === 'missing' ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return { current, longest };
+}
+
+export async function listChecks(from: string, to: string): Promise<StoredCheck[]> {
+  const checks: StoredCheck[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('compliance_checks')
+      .select('user_id, date, status, hours_logged, expected')
+      .gte('date', from)
+      .lte('date', to)
+      .order('date')
+      .order('user_id')
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load compliance checks: ${error.message}`);
+    }
+
+    checks.push(...data.map((row) => ({
+      userId: row.user_id,
+      date: row.date,
+      status: row.status,
+      hoursLogged: Number(row.hours_logged),
+      expected: Number(row.expected)
+    })));
+
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return checks;
+}
+
+export async function listRecentRuns(limit = 20): Promise<MonitorRun[]> {
+  const { data, error } = await supabaseAdmin
+    .from('monitor_runs')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load monitor runs: ${error.message}`);
+  }
+
+  return data.map(toMonitorRun);
+}
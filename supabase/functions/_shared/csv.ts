@@ -0,0 +1,71 @@
+// Minimal RFC 4180 CSV reading and writing, shared by the export function and
+// the web app's import. Fields with commas, quotes or line breaks are quoted.
+
+export type CsvRow = (string | number)[];
+
+// Spreadsheet apps run text starting with one of these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// Text cells that would be read as a formula get a leading apostrophe, so an
+// entry like `=HYPERLINK(...)` opens as plain text. Numbers are left alone.
+export function escapeFormula(value: string | number): string | number {
+  return typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : value;
+}
+
+// Undoes `escapeFormula` when a file is read back
+export function unescapeFormula(text: string): string {
+  return text.startsWith("'") && FORMULA_START.test(text.slice(1)) ? text.slice(1) : text;
+}
+
+function quoteField(value: string | number): string {
+  const text = String(escapeFormula(value));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: CsvRow[]): string {
+  return rows.map((row) => row.map(quoteField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Rows of fields; blank lines are dropped. Quoted fields may span lines.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  // A byte order mark from spreadsheet exports would end up in the first header
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
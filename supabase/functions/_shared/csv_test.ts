@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import { escapeFormula, parseCsv, toCsv, unescapeFormula } from './csv.ts';
+
+Deno.test('text that a spreadsheet would run as a formula is written as text', () => {
+  const csv = toCsv([
+    ['Date', 'Project', 'Task', 'Hours'],
+    ['2025-04-01', 'SR-CRM', '=HYPERLINK("http://example.com","x")', 2],
+    ['2025-04-01', 'SR-CRM', '+1 review', 1.5],
+    ['2025-04-01', 'SR-CRM', '-', 1],
+    ['2025-04-01', 'SR-CRM', '@SUM(A1)', -1]
+  ]);
+
+  assert.deepEqual(parseCsv(csv).slice(1).map((row) => [row[2], row[3]]), [
+    ['\'=HYPERLINK("http://example.com","x")', '2'],
+    ["'+1 review", '1.5'],
+    ["'-", '1'],
+    ["'@SUM(A1)", '-1']
+  ]);
+});
+
+Deno.test('escaped text reads back as written', () => {
+  for (const text of ['=1+1', '+call', '-x', '@me', '\tindent', 'plain', "'quoted"]) {
+    assert.equal(unescapeFormula(String(escapeFormula(text))), text);
+  }
+  assert.equal(escapeFormula(-3), -3);
+  assert.equal(escapeFormula('2025-04-01'), '2025-04-01');
+});
@@ -0,0 +1,83 @@
+// Calendar date helpers shared by the edge functions and the React app
+// (imported through src/lib/dates.ts), so keep this free of Deno and DOM APIs.
+// Dates are passed around as YYYY-MM-DD strings; "today" always depends on a
+// timezone, never on the server's or the browser's UTC offset.
+
+export const DEFAULT_TIME_ZONE = 'Asia/Kolkata';
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// First valid timezone among the candidates, e.g. the user's own setting
+// followed by the organisation's
+export function resolveTimeZone(...candidates: unknown[]): string {
+  return candidates.find(isValidTimeZone) || DEFAULT_TIME_ZONE;
+}
+
+// Calendar date of an instant as seen in the given timezone
+export function dateInTimeZone(instant: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(instant);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+export function todayInTimeZone(timeZone: string, now = new Date()): string {
+  return dateInTimeZone(now, timeZone);
+}
+
+// Minutes since midnight of an instant as seen in the given timezone
+export function minutesInTimeZone(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(instant);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return part('hour') * 60 + part('minute');
+}
+
+// Strict YYYY-MM-DD check that also rejects dates like 2025-02-30
+export function isValidDateString(date: unknown): date is string {
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date;
+}
+
+// Calendar arithmetic is done at UTC midnight so no offset can shift the day
+export function addDays(date: string, days: number): string {
+  const parsed = new Date(`${date}T00:00:00Z`);
+  parsed.setUTCDate(parsed.getUTCDate() + days);
+  return parsed.toISOString().slice(0, 10);
+}
+
+// 0 = Sunday ... 6 = Saturday
+export function dayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+export function isWeekend(date: string): boolean {
+  const day = dayOfWeek(date);
+  return day === 0 || day === 6;
+}
+
+// Monday of the week containing the date
+export function startOfWeek(date: string): string {
+  return addDays(date, -((dayOfWeek(date) + 6) % 7));
+}
+
+export function weekDates(weekStart: string): string[] {
+  return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+}
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import {
+  addDays,
+  dateInTimeZone,
+  isValidDateString,
+  minutesInTimeZone,
+  startOfWeek,
+  todayInTimeZone,
+  weekDates
+} from './dates.ts';
+
+const KOLKATA = 'Asia/Kolkata';
+const NEW_YORK = 'America/New_York';
+
+Deno.test('India turns the day at 18:30 UTC', () => {
+  assert.equal(todayInTimeZone(KOLKATA, new Date('2025-06-10T18:29:00Z')), '2025-06-10');
+  assert.equal(todayInTimeZone(KOLKATA, new Date('2025-06-10T18:30:00Z')), '2025-06-11');
+  assert.equal(minutesInTimeZone(new Date('2025-06-10T18:29:00Z'), KOLKATA), 23 * 60 + 59);
+  assert.equal(minutesInTimeZone(new Date('2025-06-10T18:30:00Z'), KOLKATA), 0);
+});
+
+Deno.test('the local date rolls over months and years ahead of UTC', () => {
+  assert.equal(dateInTimeZone(new Date('2025-01-31T18:29:00Z'), KOLKATA), '2025-01-31');
+  assert.equal(dateInTimeZone(new Date('2025-01-31T18:30:00Z'), KOLKATA), '2025-02-01');
+  assert.equal(dateInTimeZone(new Date('2024-02-28T18:30:00Z'), KOLKATA), '2024-02-29');
+  assert.equal(dateInTimeZone(new Date('2025-12-31T18:29:00Z'), KOLKATA), '2025-12-31');
+  assert.equal(dateInTimeZone(new Date('2025-12-31T18:30:00Z'), KOLKATA), '2026-01-01');
+  // West of UTC the local date is still the previous year
+  assert.equal(dateInTimeZone(new Date('2026-01-01T04:59:00Z'), NEW_YORK), '2025-12-31');
+});
+
+Deno.test('local midnight follows a DST switch', () => {
+  // New York springs forward at 07:00 UTC on 2025-03-09, from EST to EDT
+  assert.equal(dateInTimeZone(new Date('2025-03-09T04:59:00Z'), NEW_YORK), '2025-03-08');
+  assert.equal(dateInTimeZone(new Date('2025-03-09T05:00:00Z'), NEW_YORK), '2025-03-09');
+  assert.equal(dateInTimeZone(new Date('2025-03-10T03:59:00Z'), NEW_YORK), '2025-03-09');
+  assert.equal(dateInTimeZone(new Date('2025-03-10T04:00:00Z'), NEW_YORK), '2025-03-10');
+
+  assert.equal(minutesInTimeZone(new Date('2025-03-09T06:59:00Z'), NEW_YORK), 1 * 60 + 59);
+  assert.equal(minutesInTimeZone(new Date('2025-03-09T07:00:00Z'), NEW_YORK), 3 * 60);
+  // ...and falls back at 06:00 UTC on 2025-11-02
+  assert.equal(minutesInTimeZone(new Date('2025-11-02T06:00:00Z'), NEW_YORK), 1 * 60);
+  assert.equal(dateInTimeZone(new Date('2025-11-03T04:59:00Z'), NEW_YORK), '2025-11-02');
+  assert.equal(dateInTimeZone(new Date('2025-11-03T05:00:00Z'), NEW_YORK), '2025-11-03');
+});
+
+Deno.test('addDays crosses month and year ends', () => {
+  assert.equal(addDays('2025-01-31', 1), '2025-02-01');
+  assert.equal(addDays('2025-03-01', -1), '2025-02-28');
+  assert.equal(addDays('2024-03-01', -1), '2024-02-29');
+  assert.equal(addDays('2025-12-31', 1), '2026-01-01');
+  assert.equal(addDays('2026-01-01', -1), '2025-12-31');
+  // The DST switch does not add or lose a day
+  assert.equal(addDays('2025-03-08', 2), '2025-03-10');
+});
+
+Deno.test('startOfWeek is the Monday, across month ends', () => {
+  assert.equal(startOfWeek('2025-06-11'), '2025-06-09');
+  assert.equal(startOfWeek('2025-06-09'), '2025-06-09');
+  assert.equal(startOfWeek('2025-06-15'), '2025-06-09');
+  assert.equal(startOfWeek('2025-03-01'), '2025-02-24');
+  assert.equal(startOfWeek('2026-01-01'), '2025-12-29');
+  assert.deepEqual(weekDates('2025-12-29'), [
+    '2025-12-29', '2025-12-30', '2025-12-31', '2026-01-01', '2026-01-02', '2026-01-03', '2026-01-04'
+  ]);
+});
+
+Deno.test('isValidDateString rejects impossible dates', () => {
+  assert.equal(isValidDateString('2024-02-29'), true);
+  assert.equal(isValidDateString('2025-02-29'), false);
+  assert.equal(isValidDateString('2025-2-01'), false);
+  assert.equal(isValidDateString(20250201), false);
+});
@@ -0,0 +1,87 @@
+import { resolveTimeZone } from './dates.ts';
+
+// Enhanced environment variable validation
+export function getRequiredEnvVar(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`Required environment variable ${name} is not set`);
+  }
+  return value;
+}
+
+// Organisation timezone used to decide what "today" is, overridable per user
+export function getOrgTimeZone(): string {
+  return resolveTimeZone(Deno.env.get('ORG_TIMEZONE'));
+}
+
+export interface EntryLimits {
+  hoursIncrement: number;
+  maxDailyHours: number;
+  maxDescriptionLength: number;
+}
+
+// Settings must be positive unless `allowZero` is set; anything else, or an
+// unset variable, gives the fallback
+function getNumberEnvVar(name: string, fallback: number, { allowZero = false } = {}): number {
+  const raw = Deno.env.get(name)?.trim();
+  const value = Number(raw);
+  if (!raw || !Number.isFinite(value)) return fallback;
+  return value > 0 || (allowZero && value === 0) ? value : fallback;
+}
+
+// Rules applied to submitted entries; hours must be a multiple of the increment
+export function getEntryLimits(): EntryLimits {
+  return {
+    hoursIncrement: getNumberEnvVar('HOURS_INCREMENT', 0.5),
+    maxDailyHours: getNumberEnvVar('MAX_DAILY_HOURS', 24),
+    maxDescriptionLength: getNumberEnvVar('MAX_DESCRIPTION_LENGTH', 500)
+  };
+}
+
+// Currency the invoice report states amounts in; project rates are in this currency
+export function getInvoiceCurrency(): string {
+  return Deno.env.get('INVOICE_CURRENCY') || 'USD';
+}
+
+export interface GoogleApiLimits {
+  maxConcurrency: number;
+  maxRetries: number;
+}
+
+// How hard the functions push the Google APIs: calls in flight at once per
+// function instance, and retries of a call that failed with a transient error
+// (0 makes one attempt only)
+export function getGoogleApiLimits(): GoogleApiLimits {
+  return {
+    maxConcurrency: getNumberEnvVar('GOOGLE_MAX_CONCURRENCY', 4),
+    maxRetries: getNumberEnvVar('GOOGLE_MAX_RETRIES', 5, { allowZero: true })
+  };
+}
+
+export interface ReminderRules {
+  // Time of day, in each user's timezone, by which the day should be logged
+  cutoff: string;
+  cutoffMinutes: number;
+  // How long before the cutoff the personal reminder goes out
+  leadMinutes: number;
+  // Missing working days in a row before the user's manager hears about it;
+  // 0 turns escalation off
+  escalateAfterMissedDays: number;
+  // Whether the daily check still posts its summary to the Slack channel
+  channelDigest: boolean;
+}
+
+export function getReminderRules(): ReminderRules {
+  const configured = Deno.env.get('REMINDER_CUTOFF') || '';
+  const cutoff = /^([01]\d|2[0-3]):[0-5]\d$/.test(configured) ? configured : '18:00';
+  const [hours, minutes] = cutoff.split(':').map(Number);
+  const escalateAfter = Number(Deno.env.get('ESCALATE_AFTER_MISSED_DAYS') || 3);
+
+  return {
+    cutoff,
+    cutoffMinutes: hours * 60 + minutes,
+    leadMinutes: getNumberEnvVar('REMINDER_LEAD_MINUTES', 60),
+    escalateAfterMissedDays: Number.isInteger(escalateAfter) && escalateAfter >= 0 ? escalateAfter : 3,
+    channelDigest: Deno.env.get('SLACK_CHANNEL_DIGEST') !== 'false'
+  };
+}
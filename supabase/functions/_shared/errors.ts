@@ -0,0 +1,32 @@
+// Error carrying an HTTP status, picked up by the handlers through `errorStatus`
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+// 400 with one message per offending field, keyed by its path in the request
+// body such as `projects.0.tasks.1.hours`
+export class ValidationError extends HttpError {
+  fieldErrors: Record<string, string>;
+
+  constructor(fieldErrors: Record<string, string>) {
+    super(400, Object.values(fieldErrors).join('; '));
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// The status and message a handler reports for anything it caught; errors
+// other than HttpError are a 500
+export function errorStatus(error: unknown): number {
+  return error instanceof HttpError ? error.status : 500;
+}
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
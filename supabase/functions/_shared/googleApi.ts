@@ -0,0 +1,127 @@
+import { getGoogleApiLimits } from './env.ts';
+import { HttpError } from './errors.ts';
+
+// Every Sheets and Drive request goes through `callGoogle`, which caps how
+// many run at once and retries rate limits (429), server errors (5xx) and
+// dropped connections with exponential backoff. A call that still fails is
+// raised as a GoogleApiError, so callers can tell "Google is unavailable"
+// apart from "there is nothing there".
+//
+// Calls that are not safe to repeat (creating files, appending or deleting
+// rows) are only retried after a 429, when Google has not acted on them; after
+// a 5xx or a dropped connection the write may have happened, so the error is
+// raised for the caller's own retry (the sheet sync queue) to deal with.
+//
+// Anything else that goes wrong inside a call, such as a bug or missing
+// configuration, fails straight away instead of being retried.
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+// Node-style codes of connections that dropped or never got through
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'ENETUNREACH',
+  'EHOSTUNREACH'
+]);
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 30_000;
+
+export class GoogleApiError extends HttpError {
+  // True when retrying later may succeed
+  transient: boolean;
+  googleStatus: number | null;
+
+  constructor(operation: string, googleStatus: number | null, transient: boolean, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(
+      transient ? 503 : 502,
+      transient
+        ? `Google API temporarily unavailable during ${operation}: ${reason}`
+        : `Google API request failed during ${operation}: ${reason}`
+    );
+    this.name = 'GoogleApiError';
+    this.transient = transient;
+    this.googleStatus = googleStatus;
+  }
+}
+
+interface GoogleErrorDetails {
+  status: number | null;
+  transient: boolean;
+  retryAfterMs: number | null;
+}
+
+// googleapis raises errors with the HTTP response attached; network failures
+// have none but carry a code such as ECONNRESET
+function errorDetails(error: unknown): GoogleErrorDetails {
+  const response = (error as { response?: { status?: number; headers?: Record<string, string> } })?.response;
+  const code = (error as { code?: unknown })?.code;
+  const status = response?.status ?? (typeof code === 'number' ? code : null);
+  const transient = status === null
+    ? typeof code === 'string' && NETWORK_ERROR_CODES.has(code)
+    : RETRYABLE_STATUSES.has(status);
+  const retryAfter = Number(response?.headers?.['retry-after']);
+  return { status, transient, retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : null };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Full jitter: a random wait up to the exponential bound, so instances that
+// were throttled together do not retry together
+function backoffDelay(attempt: number, retryAfterMs: number | null): number {
+  const bound = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.max(retryAfterMs ?? 0, Math.random() * bound);
+}
+
+let running = 0;
+const waiting: (() => void)[] = [];
+
+async function acquireSlot() {
+  if (running < getGoogleApiLimits().maxConcurrency) {
+    running++;
+    return;
+  }
+  // The slot is handed over directly by `releaseSlot`
+  await new Promise<void>((resolve) => waiting.push(resolve));
+}
+
+function releaseSlot() {
+  const next = waiting.shift();
+  if (next) {
+    next();
+  } else {
+    running--;
+  }
+}
+
+export async function callGoogle<T>(
+  operation: string,
+  call: () => Promise<T>,
+  { idempotent = true } = {}
+): Promise<T> {
+  const { maxRetries } = getGoogleApiLimits();
+
+  for (let attempt = 0; ; attempt++) {
+    let delay: number;
+    await acquireSlot();
+    try {
+      return await call();
+    } catch (error) {
+      const { status, transient, retryAfterMs } = errorDetails(error);
+      if (!transient || attempt >= maxRetries || (!idempotent && status !== 429)) {
+        throw new GoogleApiError(operation, status, transient, error);
+      }
+      delay = backoffDelay(attempt, retryAfterMs);
+      console.warn('Retrying Google API call:', { operation, status, attempt: attempt + 1, delayMs: Math.round(delay) });
+    } finally {
+      // Free the slot while waiting to retry so other calls can use it
+      releaseSlot();
+    }
+    await sleep(delay);
+  }
+}
@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { request } from 'npm:gaxios@6.1.1';
+import { callGoogle, GoogleApiError } from './googleApi.ts';
+
+// A local stand-in for a Google API that answers each request with the next
+// status in the script, then 200
+function startFakeGoogle(statuses: number[]) {
+  const script = [...statuses];
+  let requests = 0;
+  const server = Deno.serve({ port: 0, hostname: '127.0.0.1', onListen: () => {} }, () => {
+    requests++;
+    const status = script.shift() ?? 200;
+    return new Response(JSON.stringify(status === 200 ? { ok: true } : { error: { code: status } }), {
+      status,
+      headers: { 'Content-Type': 'application/json', ...(status === 429 && { 'Retry-After': '0' }) }
+    });
+  });
+  return {
+    // The same client googleapis uses, so errors have the real shape
+    call: () => request<{ ok: boolean }>({ url: `http://127.0.0.1:${server.addr.port}/v4/spreadsheets` }),
+    requests: () => requests,
+    close: () => server.shutdown()
+  };
+}
+
+async function withRetries<T>(maxRetries: string | null, work: () => Promise<T>): Promise<T> {
+  if (maxRetries === null) {
+    Deno.env.delete('GOOGLE_MAX_RETRIES');
+  } else {
+    Deno.env.set('GOOGLE_MAX_RETRIES', maxRetries);
+  }
+  try {
+    return await work();
+  } finally {
+    Deno.env.delete('GOOGLE_MAX_RETRIES');
+  }
+}
+
+Deno.test('rate limits and server errors are retried until Google answers', async () => {
+  const google = startFakeGoogle([429, 503]);
+  try {
+    const response = await withRetries(null, () => callGoogle('read rows', google.call));
+    assert.deepEqual(response.data, { ok: true });
+    assert.equal(google.requests(), 3);
+  } finally {
+    await google.close();
+  }
+});
+
+Deno.test('a write is retried after a 429 but not after a 5xx', async () => {
+  const google = startFakeGoogle([429, 503]);
+  try {
+    await assert.rejects(
+      callGoogle('append rows', google.call, { idempotent: false }),
+      (error: unknown) => error instanceof GoogleApiError &&
+        error.transient && error.googleStatus === 503 && error.status === 503
+    );
+    assert.equal(google.requests(), 2);
+  } finally {
+    await google.close();
+  }
+});
+
+Deno.test('a client error fails at once and is not transient', async () => {
+  const google = startFakeGoogle([404]);
+  try {
+    await assert.rejects(
+      callGoogle('read tabs', google.call),
+      (error: unknown) => error instanceof GoogleApiError &&
+        !error.transient && error.googleStatus === 404 && error.status === 502
+    );
+    assert.equal(google.requests(), 1);
+  } finally {
+    await google.close();
+  }
+});
+
+Deno.test('GOOGLE_MAX_RETRIES=0 makes a single attempt', async () => {
+  const google = startFakeGoogle([503]);
+  try {
+    await assert.rejects(
+      withRetries('0', () => callGoogle('read rows', google.call)),
+      (error: unknown) => error instanceof GoogleApiError && error.transient
+    );
+    assert.equal(google.requests(), 1);
+  } finally {
+    await google.close();
+  }
+});
+
+Deno.test('only known network errors count as transient', async () => {
+  let attempts = 0;
+  const result = await withRetries('2', () => callGoogle('read rows', () => {
+    attempts++;
+    if (attempts === 1) {
+      return Promise.reject(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }));
+    }
+    return Promise.resolve('ok');
+  }));
+  assert.equal(result, 'ok');
+  assert.equal(attempts, 2);
+
+  let bugAttempts = 0;
+  await assert.rejects(
+    callGoogle('read rows', () => {
+      bugAttempts++;
+      throw new TypeError("Cannot read properties of undefined (reading 'data')");
+    }),
+    (error: unknown) => error instanceof GoogleApiError && !error.transient && error.googleStatus === null
+  );
+  assert.equal(bugAttempts, 1);
+
+  let configAttempts = 0;
+  await assert.rejects(
+    callGoogle('find spreadsheet', () => {
+      configAttempts++;
+      throw new Error('GOOGLE_DRIVE_FOLDER_ID environment variable is not set');
+    }),
+    (error: unknown) => error instanceof GoogleApiError && !error.transient
+  );
+  assert.equal(configAttempts, 1);
+});
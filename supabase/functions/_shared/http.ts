@@ -0,0 +1,28 @@
+// CORS and JSON helpers for the functions called from the web app
+
+// Updated CORS headers with more comprehensive configuration
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, idempotency-key',
+  'Access-Control-Max-Age': '86400',
+  'Access-Control-Allow-Credentials': 'true'
+};
+
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      ...headers,
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+export function preflightResponse() {
+  return new Response(null, {
+    status: 204,
+    headers: corsHeaders
+  });
+}
@@ -0,0 +1,86 @@
+import { addDays, dateInTimeZone, isValidDateString, isValidTimeZone } from './dates.ts';
+
+// Minimal iCalendar (.ics) reader for holiday calendars such as the ones
+// exported from Google Calendar. Only all-day and timed VEVENTs are read;
+// recurrence rules are ignored, so recurring holidays need one event per year.
+// Each date appears once; events sharing a day have their names joined.
+
+export interface CalendarDay {
+  date: string;
+  name: string;
+}
+
+// Long lines are folded onto continuation lines starting with a space or tab
+function unfold(text: string): string[] {
+  return text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+}
+
+// `20250101` to `2025-01-01`. A date with a local time, with or without a
+// TZID, is already the day in that zone; a UTC time (`...Z`) is moved into
+// `timeZone` first, so an evening event east of UTC keeps its day.
+function parseDate(value: string, timeZone: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const date = `${year}-${month}-${day}`;
+  if (!isValidDateString(date)) return null;
+  return utc ? dateInTimeZone(new Date(`${date}T${hours}:${minutes}:${seconds}Z`), timeZone) : date;
+}
+
+// One entry per date, keeping the first event's position
+function mergeByDate(days: CalendarDay[]): CalendarDay[] {
+  const byDate = new Map<string, string[]>();
+  for (const { date, name } of days) {
+    const names = byDate.get(date) || [];
+    if (!names.includes(name)) names.push(name);
+    byDate.set(date, names);
+  }
+  return [...byDate].map(([date, names]) => ({ date, name: names.join(' / ') }));
+}
+
+// `timeZone` places events given in UTC; the calendar's own
+// X-WR-TIMEZONE takes precedence when it has one
+export function parseIcsHolidays(text: string, timeZone: string): CalendarDay[] {
+  const days: CalendarDay[] = [];
+  let calendarTimeZone = timeZone;
+  let event: Record<string, string> | null = null;
+
+  for (const line of unfold(text)) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      const start = event?.DTSTART ? parseDate(event.DTSTART, calendarTimeZone) : null;
+      if (start) {
+        const name = unescapeText(event?.SUMMARY || 'Holiday');
+        // All-day events end on the day after the last one
+        const end = event?.DTEND && !event.DTEND.includes('T') ? parseDate(event.DTEND, calendarTimeZone) : null;
+        const last = end && end > start ? addDays(end, -1) : start;
+        for (let date = start; date <= last; date = addDays(date, 1)) {
+          days.push({ date, name });
+        }
+      }
+      event = null;
+      continue;
+    }
+
+    // `DTSTART;VALUE=DATE:20250101` -> property DTSTART, value 20250101
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const property = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (!event) {
+      if (property === 'X-WR-TIMEZONE' && isValidTimeZone(value)) calendarTimeZone = value;
+      continue;
+    }
+    event[property] = value;
+  }
+
+  return mergeByDate(days);
+}
@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { parseIcsHolidays } from './ics.ts';
+
+const KOLKATA = 'Asia/Kolkata';
+
+function calendar(...lines: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+}
+
+function event(...lines: string[]): string[] {
+  return ['BEGIN:VEVENT', ...lines, 'END:VEVENT'];
+}
+
+Deno.test('events on the same day are merged into one holiday', () => {
+  const days = parseIcsHolidays(
+    calendar(
+      ...event('DTSTART;VALUE=DATE:20251020', 'DTEND;VALUE=DATE:20251023', 'SUMMARY:Diwali break'),
+      ...event('DTSTART;VALUE=DATE:20251021', 'DTEND;VALUE=DATE:20251022', 'SUMMARY:Diwali'),
+      ...event('DTSTART;VALUE=DATE:20251021', 'SUMMARY:Diwali'),
+      ...event('DTSTART;VALUE=DATE:20251225', 'SUMMARY:Christmas')
+    ),
+    KOLKATA
+  );
+
+  assert.deepEqual(days, [
+    { date: '2025-10-20', name: 'Diwali break' },
+    { date: '2025-10-21', name: 'Diwali break / Diwali' },
+    { date: '2025-10-22', name: 'Diwali break' },
+    { date: '2025-12-25', name: 'Christmas' }
+  ]);
+});
+
+Deno.test('a UTC event is placed on its date in the organisation timezone', () => {
+  // 19:00 UTC on 14 August is already 15 August in India
+  const days = parseIcsHolidays(calendar(...event('DTSTART:20250814T190000Z', 'SUMMARY:Independence Day')), KOLKATA);
+
+  assert.deepEqual(days, [{ date: '2025-08-15', name: 'Independence Day' }]);
+});
+
+Deno.test("the calendar's own timezone takes precedence for UTC events", () => {
+  const days = parseIcsHolidays(
+    calendar('X-WR-TIMEZONE:America/New_York', ...event('DTSTART:20250705T020000Z', 'SUMMARY:Independence Day')),
+    KOLKATA
+  );
+
+  assert.deepEqual(days, [{ date: '2025-07-04', name: 'Independence Day' }]);
+});
+
+Deno.test('local and TZID times keep the date they are written with', () => {
+  const days = parseIcsHolidays(
+    calendar(
+      ...event('DTSTART;TZID=America/New_York:20251127T220000', 'SUMMARY:Thanksgiving'),
+      ...event('DTSTART:20251231T233000', 'SUMMARY:New Year party')
+    ),
+    KOLKATA
+  );
+
+  assert.deepEqual(days, [
+    { date: '2025-11-27', name: 'Thanksgiving' },
+    { date: '2025-12-31', name: 'New Year party' }
+  ]);
+});
@@ -0,0 +1,97 @@
+import { HttpError } from './errors.ts';
+import { supabaseAdmin } from './supabase.ts';
+
+const UNIQUE_VIOLATION = '23505';
+
+export interface StoredResponse {
+  status: number;
+  body: unknown;
+}
+
+export function getIdempotencyKey(req: Request): string {
+  const key = req.headers.get('Idempotency-Key')?.trim();
+  if (!key) {
+    throw new HttpError(400, 'Missing Idempotency-Key header');
+  }
+  if (key.length > 255) {
+    throw new HttpError(400, 'Idempotency-Key must be at most 255 characters');
+  }
+  return key;
+}
+
+// Fingerprint of a request's method and body, stored with its key so the key
+// cannot be reused for a different request
+export async function hashRequest(method: string, body: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${method} ${JSON.stringify(body)}`));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Claim a key before doing any work. Returns the stored response when the key
+// has already been handled, so the caller can replay it instead of writing again.
+export async function claimIdempotencyKey(
+  userId: string,
+  key: string,
+  requestHash: string
+): Promise<StoredResponse | null> {
+  const { error } = await supabaseAdmin
+    .from('timesheet_submissions')
+    .insert({ user_id: userId, idempotency_key: key, request_hash: requestHash });
+
+  if (!error) {
+    return null;
+  }
+  if (error.code !== UNIQUE_VIOLATION) {
+    throw new Error(`Failed to record idempotency key: ${error.message}`);
+  }
+
+  const { data, error: selectError } = await supabaseAdmin
+    .from('timesheet_submissions')
+    .select('status, request_hash, response_status, response_body')
+    .eq('user_id', userId)
+    .eq('idempotency_key', key)
+    .single();
+
+  if (selectError) {
+    throw new Error(`Failed to look up idempotency key: ${selectError.message}`);
+  }
+  // Keys claimed before hashes were stored have none to compare
+  if (data.request_hash && data.request_hash !== requestHash) {
+    throw new HttpError(422, 'This Idempotency-Key was already used for a different request');
+  }
+  if (data.status !== 'completed') {
+    throw new HttpError(409, 'This submission is already being processed');
+  }
+
+  return { status: data.response_status, body: data.response_body };
+}
+
+export async function completeIdempotencyKey(userId: string, key: string, response: StoredResponse) {
+  const { error } = await supabaseAdmin
+    .from('timesheet_submissions')
+    .update({
+      status: 'completed',
+      response_status: response.status,
+      response_body: response.body,
+      completed_at: new Date().toISOString()
+    })
+    .eq('user_id', userId)
+    .eq('idempotency_key', key);
+
+  if (error) {
+    console.error('Error completing idempotency key:', error);
+  }
+}
+
+// Forget a claim whose submission failed, so a retry with the same key runs again
+export async function releaseIdempotencyKey(userId: string, key: string) {
+  const { error } = await supabaseAdmin
+    .from('timesheet_submissions')
+    .delete()
+    .eq('user_id', userId)
+    .eq('idempotency_key', key)
+    .eq('status', 'pending');
+
+  if (error) {
+    console.error('Error releasing idempotency key:', error);
+  }
+}
@@ -0,0 +1,255 @@
+import { getApprovals } from './approvals.ts';
+import { addDays } from './dates.ts';
+import { getInvoiceCurrency } from './env.ts';
+import { HttpError } from './errors.ts';
+import { listProjects } from './projects.ts';
+import { supabaseAdmin } from './supabase.ts';
+import { displayName, getAllEntries, getAllUsers, userDateKey } from './team.ts';
+
+// Monthly billing report: approved hours for every user, per client and
+// project, priced at each project's hourly rate. Only approved days count, so
+// regenerating a month gives the same hours as long as nothing was reopened.
+
+const NO_CLIENT = 'No client';
+
+export interface InvoiceLine {
+  client: string;
+  projectCode: string;
+  projectName: string;
+  employee: string;
+  email: string;
+  hours: number;
+  billable: boolean;
+  rate: number | null;
+  amount: number;
+}
+
+export interface InvoiceProjectTotal {
+  code: string;
+  name: string;
+  billable: boolean;
+  rate: number | null;
+  hours: number;
+  amount: number;
+}
+
+export interface InvoiceClientTotal {
+  client: string;
+  hours: number;
+  billableHours: number;
+  amount: number;
+  projects: InvoiceProjectTotal[];
+}
+
+export interface InvoiceReport {
+  month: string;
+  from: string;
+  to: string;
+  currency: string;
+  generatedAt: string;
+  lines: InvoiceLine[];
+  clients: InvoiceClientTotal[];
+  totals: { hours: number; billableHours: number; amount: number };
+  // Hours on days that were not approved when the report was generated
+  unapprovedHours: number;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export function monthRange(month: string): { from: string; to: string } {
+  const from = `${month}-01`;
+  const [year, monthNumber] = month.split('-').map(Number);
+  const nextMonth = new Date(Date.UTC(year, monthNumber, 1)).toISOString().slice(0, 10);
+  return { from, to: addDays(nextMonth, -1) };
+}
+
+export async function buildInvoiceReport(month: string): Promise<InvoiceReport> {
+  const { from, to } = monthRange(month);
+  const [entries, approvals, projects, users] = await Promise.all([
+    getAllEntries(from, to),
+    getApprovals(from, to),
+    listProjects(),
+    getAllUsers()
+  ]);
+
+  const projectsByCode = new Map(projects.map((project) => [project.code, project]));
+  const usersById = new Map(users.map((user) => [user.id, user]));
+
+  // Hours per project and employee, approved days only
+  const hoursByLine = new Map<string, { project: string; userId: string; hours: number }>();
+  let unapprovedHours = 0;
+  for (const entry of entries) {
+    if (approvals.get(userDateKey(entry.userId, entry.date)) !== 'approved') {
+      unapprovedHours += entry.hours;
+      continue;
+    }
+    const key = `${entry.project}|${entry.userId}`;
+    const line = hoursByLine.get(key) || { project: entry.project, userId: entry.userId, hours: 0 };
+    line.hours += entry.hours;
+    hoursByLine.set(key, line);
+  }
+
+  const lines: InvoiceLine[] = [...hoursByLine.values()].map(({ project: code, userId, hours }) => {
+    const project = projectsByCode.get(code);
+    const user = usersById.get(userId);
+    const billable = project?.billable === true;
+    const rate = project?.hourlyRate ?? null;
+    return {
+      client: project?.client || NO_CLIENT,
+      projectCode: code,
+      projectName: project?.name || code,
+      employee: user ? displayName(user) : userId,
+      email: user?.email || '',
+      hours,
+      billable,
+      rate,
+      amount: billable && rate !== null ? roundMoney(hours * rate) : 0
+    };
+  });
+
+  lines.sort((a, b) =>
+    a.client.localeCompare(b.client) ||
+    a.projectCode.localeCompare(b.projectCode) ||
+    a.employee.localeCompare(b.employee)
+  );
+
+  const clients: InvoiceClientTotal[] = [];
+  for (const line of lines) {
+    let client = clients.find((c) => c.client === line.client);
+    if (!client) {
+      client = { client: line.client, hours: 0, billableHours: 0, amount: 0, projects: [] };
+      clients.push(client);
+    }
+    let project = client.projects.find((p) => p.code === line.projectCode);
+    if (!project) {
+      project = { code: line.projectCode, name: line.projectName, billable: line.billable, rate: line.rate, hours: 0, amount: 0 };
+      client.projects.push(project);
+    }
+    project.hours += line.hours;
+    project.amount = roundMoney(project.amount + line.amount);
+    client.hours += line.hours;
+    client.billableHours += line.billable ? line.hours : 0;
+    client.amount = roundMoney(client.amount + line.amount);
+  }
+
+  return {
+    month,
+    from,
+    to,
+    currency: getInvoiceCurrency(),
+    generatedAt: new Date().toISOString(),
+    lines,
+    clients,
+    totals: {
+      hours: clients.reduce((sum, client) => sum + client.hours, 0),
+      billableHours: clients.reduce((sum, client) => sum + client.billableHours, 0),
+      amount: roundMoney(clients.reduce((sum, client) => sum + client.amount, 0))
+    },
+    unapprovedHours
+  };
+}
+
+export async function getStoredReport(month: string): Promise<InvoiceReport | null> {
+  const { data, error } = await supabaseAdmin
+    .from('invoice_reports')
+    .select('report')
+    .eq('month', month)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load invoice report: ${error.message}`);
+  }
+
+  return data?.report || null;
+}
+
+// Stores the report with a snapshot of each line's rate and billable flag. A
+// month that already has a report is only replaced when `force` is set.
+export async function storeReport(report: InvoiceReport, generatedBy: string, force = false) {
+  const { error } = await supabaseAdmin.rpc('store_invoice_report', {
+    p_month: report.month,
+    p_currency: report.currency,
+    p_report: report,
+    p_generated_by: generatedBy,
+    p_generated_at: report.generatedAt,
+    p_force: force
+  });
+
+  if (error) {
+    if (error.message === 'invoice_report_exists') {
+      throw new HttpError(409, `The report for ${report.month} has already been generated; regenerate it to replace it`);
+    }
+    throw new Error(`Failed to save invoice report: ${error.message}`);
+  }
+}
+
+export function invoiceCsvRows(report: InvoiceReport): (string | number)[][] {
+  return [
+    ['Client', 'Project', 'Project Name', 'Employee', 'Email', 'Hours', 'Billable', `Rate (${report.currency})`, `Amount (${report.currency})`],
+    ...report.lines.map((line) => [
+      line.client,
+      line.projectCode,
+      line.projectName,
+      line.employee,
+      line.email,
+      line.hours,
+      line.billable ? 'Yes' : 'No',
+      line.rate ?? '',
+      line.amount.toFixed(2)
+    ])
+  ];
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// Standalone page for printing or saving as PDF from the browser
+export function invoiceHtml(report: InvoiceReport): string {
+  const money = (amount: number) => `${report.currency} ${amount.toFixed(2)}`;
+  const monthName = new Date(`${report.from}T00:00:00Z`)
+    .toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+  const clientSections = report.clients.map((client) => `
+    <h2>${escapeHtml(client.client)}</h2>
+    <table>
+      <thead><tr><th>Project</th><th>Hours</th><th>Rate</th><th>Amount</th></tr></thead>
+      <tbody>
+        ${client.projects.map((project) => `
+        <tr>
+          <td>${escapeHtml(project.code)} · ${escapeHtml(project.name)}${project.billable ? '' : ' <em>(non-billable)</em>'}</td>
+          <td class="num">${project.hours}</td>
+          <td class="num">${project.billable && project.rate !== null ? money(project.rate) : '–'}</td>
+          <td class="num">${money(project.amount)}</td>
+        </tr>`).join('')}
+      </tbody>
+      <tfoot><tr><th>Total</th><th class="num">${client.hours}</th><th></th><th class="num">${money(client.amount)}</th></tr></tfoot>
+    </table>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Billable hours – ${monthName}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111827; margin: 2rem; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.1rem; margin-top: 2rem; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.9rem; }
+  th, td { text-align: left; padding: 0.4rem 0.5rem; border-bottom: 1px solid #e5e7eb; }
+  .num { text-align: right; }
+  .meta { color: #6b7280; font-size: 0.85rem; }
+  .grand { margin-top: 2rem; font-size: 1.1rem; font-weight: 600; text-align: right; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+  <h1>Billable hours – ${monthName}</h1>
+  <p class="meta">Approved entries from ${report.from} to ${report.to}. Generated ${escapeHtml(report.generatedAt)}.</p>
+  ${clientSections || '<p>No approved hours this month.</p>'}
+  <p class="grand">${report.totals.billableHours} billable hours · ${money(report.totals.amount)}</p>
+  ${report.unapprovedHours > 0
+    ? `<p class="meta">${report.unapprovedHours} hours on days not yet approved are not included.</p>`
+    : ''}
+</body>
+</html>`;
+}
@@ -0,0 +1,57 @@
+import { ALICE, db } from '../_test/setup.ts';
+import { PostgresError } from '../_test/fakeSupabase.ts';
+import assert from 'node:assert/strict';
+import { HttpError } from './errors.ts';
+import { type InvoiceReport, storeReport } from './invoices.ts';
+
+const report = (amount: number): InvoiceReport => ({
+  month: '2025-04',
+  from: '2025-04-01',
+  to: '2025-04-30',
+  currency: 'USD',
+  generatedAt: '2025-05-01T09:00:00.000Z',
+  lines: [{
+    client: 'Acme',
+    projectCode: 'SR-CRM',
+    projectName: 'CRM',
+    employee: 'Alice',
+    email: ALICE.email,
+    hours: 10,
+    billable: true,
+    rate: amount / 10,
+    amount
+  }],
+  clients: [],
+  totals: { hours: 10, billableHours: 10, amount },
+  unapprovedHours: 0
+});
+
+// Stands in for `store_invoice_report`, which refuses a stored month unless forced
+function fakeStoreFunction() {
+  const stored = new Map<string, Record<string, unknown>>();
+  db.rpc('store_invoice_report', (args) => {
+    if (stored.has(args.p_month as string) && !args.p_force) {
+      throw new PostgresError('P0001', 'invoice_report_exists');
+    }
+    stored.set(args.p_month as string, args);
+    return null;
+  });
+  return stored;
+}
+
+Deno.test('a generated month is not replaced unless forced', async () => {
+  db.reset();
+  const stored = fakeStoreFunction();
+
+  await storeReport(report(1000), ALICE.id);
+  await assert.rejects(
+    storeReport(report(1200), ALICE.id),
+    (error: unknown) => error instanceof HttpError && error.status === 409
+  );
+  assert.equal((stored.get('2025-04')!.p_report as InvoiceReport).totals.amount, 1000);
+
+  await storeReport(report(1200), ALICE.id, true);
+  const replaced = stored.get('2025-04')!;
+  assert.equal((replaced.p_report as InvoiceReport).lines[0].rate, 120);
+  assert.equal(replaced.p_generated_by, ALICE.id);
+});
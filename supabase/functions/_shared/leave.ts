@@ -0,0 +1,397 @@
+import { addDays } from './dates.ts';
+import { HttpError } from './errors.ts';
+import { expectedHours, loadWorkPolicy } from './policy.ts';
+import { supabaseAdmin } from './supabase.ts';
+import type { TimesheetEntry } from './timesheets.ts';
+
+// Leave requests filed by employees. Approving one writes a `leave_days` row
+// for each working day it covers, which the working-hours policy counts as
+// covered hours and the sheet sync writes as a "Leave" row.
+
+export const LEAVE_TYPES = ['annual', 'sick', 'casual', 'unpaid'] as const;
+export type LeaveType = typeof LEAVE_TYPES[number];
+export type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  annual: 'Annual',
+  sick: 'Sick',
+  casual: 'Casual',
+  unpaid: 'Unpaid'
+};
+
+// Days per year when no allowance has been set for the user; null is unlimited
+export const DEFAULT_ALLOWANCES: Record<LeaveType, number | null> = {
+  annual: 20,
+  sick: 10,
+  casual: 5,
+  unpaid: null
+};
+
+export interface LeaveRequest {
+  id: string;
+  userId: string;
+  type: LeaveType;
+  startDate: string;
+  endDate: string;
+  halfDay: boolean;
+  days: number;
+  reason: string | null;
+  status: LeaveStatus;
+  reviewComment: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+export interface LeaveRequestInput {
+  type: LeaveType;
+  startDate: string;
+  endDate: string;
+  halfDay: boolean;
+  reason: string | null;
+}
+
+export interface LeaveBalance {
+  type: LeaveType;
+  allowance: number | null;
+  used: number;
+  pending: number;
+  remaining: number | null;
+}
+
+interface PlannedDay {
+  date: string;
+  days: number;
+  hours: number;
+}
+
+const REQUEST_COLUMNS =
+  'id, user_id, type, start_date, end_date, half_day, days, reason, status, review_comment, reviewed_at, created_at';
+
+interface LeaveRequestRow {
+  id: string;
+  user_id: string;
+  type: LeaveType;
+  start_date: string;
+  end_date: string;
+  half_day: boolean;
+  days: number | string;
+  reason: string | null;
+  status: LeaveStatus;
+  review_comment: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+function toRequest(row: LeaveRequestRow): LeaveRequest {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    type: row.type,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    halfDay: row.half_day,
+    days: Number(row.days),
+    reason: row.reason,
+    status: row.status,
+    reviewComment: row.review_comment,
+    reviewedAt: row.reviewed_at,
+    createdAt: row.created_at
+  };
+}
+
+export function isLeaveType(value: unknown): value is LeaveType {
+  return LEAVE_TYPES.includes(value as LeaveType);
+}
+
+// Working days in the range according to the user's schedule and the
+// holiday calendar, with the hours each one covers
+async function planLeaveDays(userId: string, input: LeaveRequestInput): Promise<PlannedDay[]> {
+  const policy = await loadWorkPolicy(input.startDate, input.endDate);
+  const planned: PlannedDay[] = [];
+
+  for (let date = input.startDate; date <= input.endDate; date = addDays(date, 1)) {
+    const { scheduled, holiday } = expectedHours(policy, userId, date);
+    if (scheduled === 0 || holiday) continue;
+    const days = input.halfDay ? 0.5 : 1;
+    planned.push({ date, days, hours: scheduled * days });
+  }
+
+  return planned;
+}
+
+export async function listLeaveRequests(
+  filter: { userId?: string; status?: LeaveStatus; from?: string; to?: string }
+): Promise<LeaveRequest[]> {
+  let query = supabaseAdmin.from('leave_requests').select(REQUEST_COLUMNS);
+  if (filter.userId) query = query.eq('user_id', filter.userId);
+  if (filter.status) query = query.eq('status', filter.status);
+  if (filter.from) query = query.gte('end_date', filter.from);
+  if (filter.to) query = query.lte('start_date', filter.to);
+
+  const { data, error } = await query.order('start_date');
+  if (error) {
+    throw new Error(`Failed to load leave requests: ${error.message}`);
+  }
+
+  return data.map(toRequest);
+}
+
+async function getLeaveRequest(id: string): Promise<LeaveRequest> {
+  const { data, error } = await supabaseAdmin
+    .from('leave_requests')
+    .select(REQUEST_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load leave request: ${error.message}`);
+  }
+  if (!data) {
+    throw new HttpError(404, 'Leave request not found');
+  }
+
+  return toRequest(data);
+}
+
+// Working days per calendar year: leave comes out of the balance of the year
+// each day falls in, so a request over New Year is split
+function daysByYear(planned: PlannedDay[]): Map<number, number> {
+  const byYear = new Map<number, number>();
+  for (const day of planned) {
+    const year = Number(day.date.slice(0, 4));
+    byYear.set(year, (byYear.get(year) || 0) + day.days);
+  }
+  return byYear;
+}
+
+// How many of a request's days fall between `from` and `to`; only requests
+// that reach outside the range need planning again
+async function daysWithin(request: LeaveRequest, from: string, to: string): Promise<number> {
+  if (request.startDate >= from && request.endDate <= to) return request.days;
+  const planned = await planLeaveDays(request.userId, {
+    ...request,
+    startDate: request.startDate < from ? from : request.startDate,
+    endDate: request.endDate > to ? to : request.endDate
+  });
+  return planned.reduce((sum, day) => sum + day.days, 0);
+}
+
+export async function getBalances(userId: string, year: number): Promise<LeaveBalance[]> {
+  const from = `${year}-01-01`;
+  const to = `${year}-12-31`;
+
+  const [allowances, usedDays, pending] = await Promise.all([
+    supabaseAdmin.from('leave_allowances').select('type, days').eq('user_id', userId).eq('year', year),
+    supabaseAdmin.from('leave_days').select('type, days').eq('user_id', userId).gte('date', from).lte('date', to),
+    listLeaveRequests({ userId, status: 'pending', from, to })
+  ]);
+
+  const error = allowances.error || usedDays.error;
+  if (error) {
+    throw new Error(`Failed to load leave balances: ${error.message}`);
+  }
+
+  const pendingInYear = await Promise.all(
+    pending.map(async (request) => ({ type: request.type, days: await daysWithin(request, from, to) }))
+  );
+
+  return LEAVE_TYPES.map((type) => {
+    const set = allowances.data.find((row) => row.type === type);
+    const allowance = set ? Number(set.days) : DEFAULT_ALLOWANCES[type];
+    const used = usedDays.data
+      .filter((row) => row.type === type)
+      .reduce((sum, row) => sum + Number(row.days), 0);
+    const pendingDays = pendingInYear
+      .filter((request) => request.type === type)
+      .reduce((sum, request) => sum + request.days, 0);
+
+    return {
+      type,
+      allowance,
+      used,
+      pending: pendingDays,
+      remaining: allowance === null ? null : allowance - used - pendingDays
+    };
+  });
+}
+
+export async function setAllowance(userId: string, year: number, type: LeaveType, days: number) {
+  const { error } = await supabaseAdmin
+    .from('leave_allowances')
+    .upsert({ user_id: userId, year, type, days });
+
+  if (error) {
+    throw new Error(`Failed to save leave allowance: ${error.message}`);
+  }
+}
+
+// File a request after checking it covers at least one working day, does not
+// overlap another open request and fits in the remaining balance
+export async function createLeaveRequest(userId: string, input: LeaveRequestInput): Promise<LeaveRequest> {
+  const planned = await planLeaveDays(userId, input);
+  if (planned.length === 0) {
+    throw new HttpError(400, 'The selected dates contain no working days');
+  }
+
+  const overlapping = (await listLeaveRequests({ userId, from: input.startDate, to: input.endDate }))
+    .filter((request) => request.status === 'pending' || request.status === 'approved');
+  if (overlapping.length > 0) {
+    throw new HttpError(409, `You already have leave from ${overlapping[0].startDate} to ${overlapping[0].endDate}`);
+  }
+
+  for (const [year, yearDays] of daysByYear(planned)) {
+    const balance = (await getBalances(userId, year)).find((b) => b.type === input.type);
+    if (balance && balance.remaining !== null && yearDays > balance.remaining) {
+      throw new HttpError(
+        400,
+        `This request needs ${yearDays} day(s) of ${LEAVE_TYPE_LABELS[input.type].toLowerCase()} leave in ${year} but only ${balance.remaining} remain`
+      );
+    }
+  }
+
+  const days = planned.reduce((sum, day) => sum + day.days, 0);
+
+  const { data, error } = await supabaseAdmin
+    .from('leave_requests')
+    .insert({
+      user_id: userId,
+      type: input.type,
+      start_date: input.startDate,
+      end_date: input.endDate,
+      half_day: input.halfDay,
+      days,
+      reason: input.reason
+    })
+    .select(REQUEST_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save leave request: ${error.message}`);
+  }
+
+  return toRequest(data);
+}
+
+// Approve a pending request, writing its leave days. Returns the request and
+// the dates that changed so their sheets can be synced.
+// A request waiting for a decision from someone other than its owner
+async function getRequestToReview(id: string, reviewerId: string): Promise<LeaveRequest> {
+  const request = await getLeaveRequest(id);
+  if (request.userId === reviewerId) {
+    throw new HttpError(403, 'You cannot review your own leave request');
+  }
+  if (request.status !== 'pending') {
+    throw new HttpError(409, `This request is already ${request.status}`);
+  }
+  return request;
+}
+
+export async function approveLeaveRequest(id: string, reviewerId: string, comment: string | null) {
+  const request = await getRequestToReview(id, reviewerId);
+
+  // Re-planned in case the schedule or holidays changed since it was filed
+  const planned = await planLeaveDays(request.userId, request);
+  if (planned.length === 0) {
+    throw new HttpError(409, 'The requested dates no longer contain any working days');
+  }
+
+  const { error: daysError } = await supabaseAdmin
+    .from('leave_days')
+    .insert(planned.map((day) => ({
+      user_id: request.userId,
+      date: day.date,
+      hours: day.hours,
+      days: day.days,
+      type: request.type,
+      reason: request.reason,
+      request_id: request.id
+    })));
+
+  if (daysError) {
+    if (daysError.code === '23505') {
+      throw new HttpError(409, 'Leave has already been recorded for some of these dates');
+    }
+    throw new Error(`Failed to record leave days: ${daysError.message}`);
+  }
+
+  await updateStatus(id, {
+    status: 'approved',
+    days: planned.reduce((sum, day) => sum + day.days, 0),
+    review_comment: comment,
+    reviewed_by: reviewerId,
+    reviewed_at: new Date().toISOString()
+  });
+
+  return { request, dates: planned.map((day) => day.date) };
+}
+
+export async function rejectLeaveRequest(id: string, reviewerId: string, comment: string) {
+  const request = await getRequestToReview(id, reviewerId);
+
+  await updateStatus(id, {
+    status: 'rejected',
+    review_comment: comment,
+    reviewed_by: reviewerId,
+    reviewed_at: new Date().toISOString()
+  });
+  return request;
+}
+
+// The owner can withdraw a pending request, or an approved one that has not
+// started yet. Returns the dates whose leave was removed.
+export async function cancelLeaveRequest(id: string, userId: string, today: string): Promise<string[]> {
+  const request = await getLeaveRequest(id);
+  if (request.userId !== userId) {
+    throw new HttpError(404, 'Leave request not found');
+  }
+  if (request.status !== 'pending' && request.status !== 'approved') {
+    throw new HttpError(409, `This request is already ${request.status}`);
+  }
+  if (request.status === 'approved' && request.startDate <= today) {
+    throw new HttpError(409, 'Leave that has already started cannot be cancelled; ask an admin');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('leave_days')
+    .delete()
+    .eq('request_id', id)
+    .select('date');
+
+  if (error) {
+    throw new Error(`Failed to remove leave days: ${error.message}`);
+  }
+
+  await updateStatus(id, { status: 'cancelled' });
+  return data.map((row) => row.date);
+}
+
+async function updateStatus(id: string, changes: Record<string, unknown>) {
+  const { error } = await supabaseAdmin
+    .from('leave_requests')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to update leave request: ${error.message}`);
+  }
+}
+
+// Leave on the date as timesheet-shaped rows for the spreadsheet
+export async function leaveEntries(userId: string, date: string): Promise<TimesheetEntry[]> {
+  const { data, error } = await supabaseAdmin
+    .from('leave_days')
+    .select('type, days, hours')
+    .eq('user_id', userId)
+    .eq('date', date);
+
+  if (error) {
+    throw new Error(`Failed to load leave days: ${error.message}`);
+  }
+
+  return data.map((row) => ({
+    date,
+    project: 'Leave',
+    description: `${LEAVE_TYPE_LABELS[row.type as LeaveType] || row.type} leave${Number(row.days) < 1 ? ' (half day)' : ''}`,
+    hours: Number(row.hours)
+  }));
+}
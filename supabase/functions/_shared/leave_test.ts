@@ -0,0 +1,87 @@
+import { ALICE, db } from '../_test/setup.ts';
+import assert from 'node:assert/strict';
+import { HttpError } from './errors.ts';
+import { approveLeaveRequest, createLeaveRequest, getBalances, rejectLeaveRequest } from './leave.ts';
+import { deleteLeaveDay, saveLeaveDay } from './policy.ts';
+
+// Mon 29 Dec 2025 to Fri 2 Jan 2026: three working days in 2025, two in 2026
+const OVER_NEW_YEAR = {
+  type: 'annual' as const,
+  startDate: '2025-12-29',
+  endDate: '2026-01-02',
+  halfDay: false,
+  reason: null
+};
+
+function allowAnnual(days2025: number, days2026: number) {
+  db.reset();
+  db.rows('leave_allowances').push(
+    { user_id: ALICE.id, year: 2025, type: 'annual', days: days2025 },
+    { user_id: ALICE.id, year: 2026, type: 'annual', days: days2026 }
+  );
+}
+
+Deno.test('a request over New Year is charged to each year by its own days', async () => {
+  allowAnnual(3, 2);
+
+  const request = await createLeaveRequest(ALICE.id, OVER_NEW_YEAR);
+  assert.equal(request.days, 5);
+
+  const [annual2025] = await getBalances(ALICE.id, 2025);
+  const [annual2026] = await getBalances(ALICE.id, 2026);
+  assert.deepEqual([annual2025.pending, annual2025.remaining], [3, 0]);
+  assert.deepEqual([annual2026.pending, annual2026.remaining], [2, 0]);
+});
+
+Deno.test('a request over New Year is refused when either year runs short', async () => {
+  allowAnnual(3, 1);
+
+  await assert.rejects(
+    createLeaveRequest(ALICE.id, OVER_NEW_YEAR),
+    (error: unknown) => error instanceof HttpError && error.status === 400 &&
+      /needs 2 day\(s\) of annual leave in 2026 but only 1 remain/.test(error.message)
+  );
+  assert.equal(db.rows('leave_requests').length, 0);
+});
+
+Deno.test('leave recorded by an admin keeps its type and days', async () => {
+  db.reset();
+
+  await saveLeaveDay(ALICE.id, '2025-06-02', { type: 'sick', hours: 4, days: 0.5, reason: 'Dentist' });
+  await saveLeaveDay(ALICE.id, '2025-06-02', { type: 'sick', hours: 8, days: 1, reason: 'Dentist' });
+  const saved = db.rows('leave_days');
+  assert.equal(saved.length, 1);
+  assert.deepEqual(
+    { type: saved[0].type, hours: saved[0].hours, days: saved[0].days },
+    { type: 'sick', hours: 8, days: 1 }
+  );
+
+  await deleteLeaveDay(ALICE.id, '2025-06-02');
+  assert.equal(db.rows('leave_days').length, 0);
+});
+
+Deno.test('leave from a request cannot be changed or removed directly', async () => {
+  db.reset();
+  db.rows('leave_days').push(
+    { user_id: ALICE.id, date: '2025-06-03', type: 'annual', hours: 8, days: 1, reason: null, request_id: 'request-1' }
+  );
+
+  const fromRequest = (error: unknown) => error instanceof HttpError && error.status === 409;
+  await assert.rejects(
+    saveLeaveDay(ALICE.id, '2025-06-03', { type: 'sick', hours: 4, days: 0.5, reason: null }),
+    fromRequest
+  );
+  await assert.rejects(deleteLeaveDay(ALICE.id, '2025-06-03'), fromRequest);
+  assert.equal(db.rows('leave_days')[0].type, 'annual');
+});
+
+Deno.test('an admin cannot decide on their own leave request', async () => {
+  allowAnnual(3, 2);
+  const request = await createLeaveRequest(ALICE.id, OVER_NEW_YEAR);
+
+  const ownRequest = (error: unknown) => error instanceof HttpError && error.status === 403;
+  await assert.rejects(approveLeaveRequest(request.id, ALICE.id, null), ownRequest);
+  await assert.rejects(rejectLeaveRequest(request.id, ALICE.id, 'No'), ownRequest);
+  assert.equal(db.rows('leave_requests')[0].status, 'pending');
+  assert.equal(db.rows('leave_days').length, 0);
+});
@@ -0,0 +1,98 @@
+import { clearApproval, markSubmitted } from './approvals.ts';
+import type { LedgerOwner, TimesheetStore } from './store.ts';
+import { dailyLimitError, type TimesheetEntry, totalHours } from './timesheets.ts';
+
+// Keeps each owner's entries in insertion order; listing sorts by date, and
+// the sort is stable, so entries keep their submission order within a day
+export function createMemoryStore(): TimesheetStore {
+  const ledgers = new Map<string, TimesheetEntry[]>();
+
+  const ledger = (owner: LedgerOwner) => ledgers.get(owner.id) || [];
+
+  // Written days go (back) into review. Postgres does that in the same
+  // transaction as the write; here the write is undone when the review state
+  // cannot be saved, so a retried submission does not add the entries twice.
+  async function submitOrUndo(owner: LedgerOwner, dates: string[], undo: () => void) {
+    try {
+      for (const date of dates) {
+        await markSubmitted(owner.id, date);
+      }
+    } catch (error) {
+      undo();
+      throw error;
+    }
+  }
+
+  return {
+    findLedger(owner, create = false) {
+      if (!ledgers.has(owner.id) && create) {
+        ledgers.set(owner.id, []);
+      }
+      return Promise.resolve(ledgers.has(owner.id) ? owner.id : null);
+    },
+
+    listEntries(owner, from, to = from) {
+      return Promise.resolve(
+        ledger(owner)
+          .filter((entry) => entry.date >= from && entry.date <= to)
+          .sort((a, b) => a.date.localeCompare(b.date))
+          .map((entry) => ({ ...entry }))
+      );
+    },
+
+    listAllEntries(from, to) {
+      return Promise.resolve(
+        [...ledgers].flatMap(([userId, entries]) => entries
+          .filter((entry) => entry.date >= from && entry.date <= to)
+          .map((entry) => ({ ...entry, userId })))
+          .sort((a, b) => a.date.localeCompare(b.date))
+      );
+    },
+
+    // Nothing awaits between the check and the write, so within an instance
+    // the cap holds for concurrent submissions too
+    async appendEntries(owner, entries, maxDailyHours) {
+      const dates = [...new Set(entries.map((entry) => entry.date))];
+      if (maxDailyHours !== undefined) {
+        for (const date of dates) {
+          const existingHours = totalHours(ledger(owner).filter((entry) => entry.date === date));
+          const addedHours = totalHours(entries.filter((entry) => entry.date === date));
+          if (existingHours + addedHours > maxDailyHours) {
+            throw dailyLimitError(date, existingHours, addedHours, maxDailyHours);
+          }
+        }
+      }
+      const added = entries.map((entry) => ({ ...entry }));
+      ledgers.set(owner.id, [...ledger(owner), ...added]);
+      await submitOrUndo(owner, dates, () => {
+        ledgers.set(owner.id, ledger(owner).filter((entry) => !added.includes(entry)));
+      });
+    },
+
+    async replaceDay(owner, date, entries) {
+      const replaced = ledger(owner).filter((entry) => entry.date === date);
+      const added = entries.map((entry) => ({ ...entry, date }));
+      ledgers.set(owner.id, [...ledger(owner).filter((entry) => entry.date !== date), ...added]);
+      await submitOrUndo(owner, [date], () => {
+        ledgers.set(owner.id, [...ledger(owner).filter((entry) => !added.includes(entry)), ...replaced]);
+      });
+    },
+
+    // Like a write, undone when the review state cannot be cleared
+    async deleteDay(owner, date) {
+      const removed = ledger(owner).filter((entry) => entry.date === date);
+      if (ledgers.has(owner.id)) {
+        ledgers.set(owner.id, ledger(owner).filter((entry) => entry.date !== date));
+      }
+      try {
+        await clearApproval(owner.id, date);
+      } catch (error) {
+        if (ledgers.has(owner.id)) {
+          ledgers.set(owner.id, [...ledger(owner), ...removed]);
+        }
+        throw error;
+      }
+      return removed.length;
+    }
+  };
+}
@@ -0,0 +1,204 @@
+import { dayOfWeek } from './dates.ts';
+import { HttpError } from './errors.ts';
+import type { CalendarDay } from './ics.ts';
+import type { LeaveType } from './leave.ts';
+import { supabaseAdmin } from './supabase.ts';
+import { userDateKey } from './team.ts';
+
+// Working-hours policy: how many hours each user is expected to log on a
+// date, given their weekly schedule, organisation holidays and leave.
+
+// Expected hours Monday first, used for users without a schedule of their own
+export const DEFAULT_WEEKDAY_HOURS = [8, 8, 8, 8, 8, 0, 0];
+
+export interface WorkPolicy {
+  holidays: Map<string, string>;
+  schedules: Map<string, number[]>;
+  // Leave hours keyed by `userDateKey`
+  leave: Map<string, number>;
+}
+
+export interface Expectation {
+  expected: number;
+  scheduled: number;
+  holiday: string | null;
+  leaveHours: number;
+}
+
+// Everything needed to evaluate any user on dates in the range
+export async function loadWorkPolicy(from: string, to: string): Promise<WorkPolicy> {
+  const [holidays, schedules, leave] = await Promise.all([
+    supabaseAdmin.from('holidays').select('date, name').gte('date', from).lte('date', to),
+    supabaseAdmin.from('work_schedules').select('user_id, weekday_hours'),
+    supabaseAdmin.from('leave_days').select('user_id, date, hours').gte('date', from).lte('date', to)
+  ]);
+
+  const error = holidays.error || schedules.error || leave.error;
+  if (error) {
+    throw new Error(`Failed to load working-hours policy: ${error.message}`);
+  }
+
+  return {
+    holidays: new Map(holidays.data.map((row) => [row.date, row.name])),
+    schedules: new Map(schedules.data.map((row) => [row.user_id, row.weekday_hours.map(Number)])),
+    leave: new Map(leave.data.map((row) => [userDateKey(row.user_id, row.date), Number(row.hours)]))
+  };
+}
+
+export function weekdayHoursFor(policy: WorkPolicy, userId: string): number[] {
+  return policy.schedules.get(userId) || DEFAULT_WEEKDAY_HOURS;
+}
+
+// Hours the user should log on the date. Holidays expect nothing; leave
+// covers part or all of the scheduled day.
+export function expectedHours(policy: WorkPolicy, userId: string, date: string): Expectation {
+  const scheduled = weekdayHoursFor(policy, userId)[(dayOfWeek(date) + 6) % 7];
+  const holiday = policy.holidays.get(date) || null;
+  const leaveHours = policy.leave.get(userDateKey(userId, date)) || 0;
+
+  return {
+    expected: holiday ? 0 : Math.max(0, scheduled - leaveHours),
+    scheduled,
+    holiday,
+    leaveHours
+  };
+}
+
+export type DayCompliance = 'off' | 'missing' | 'incomplete' | 'complete';
+
+// The daily monitor's rule for a day: nothing is expected on days off,
+// otherwise a day without entries is missing and one short of the expected
+// hours is incomplete. `logged` is undefined when nothing was submitted.
+export function dayCompliance(expected: number, logged: number | undefined): DayCompliance {
+  if (expected === 0) return 'off';
+  if (logged === undefined) return 'missing';
+  return logged < expected ? 'incomplete' : 'complete';
+}
+
+export async function listHolidays(from: string, to: string): Promise<CalendarDay[]> {
+  const { data, error } = await supabaseAdmin
+    .from('holidays')
+    .select('date, name')
+    .gte('date', from)
+    .lte('date', to)
+    .order('date');
+
+  if (error) {
+    throw new Error(`Failed to load holidays: ${error.message}`);
+  }
+
+  return data;
+}
+
+// Upsert, so importing an updated calendar renames existing days
+export async function saveHolidays(days: CalendarDay[]) {
+  if (days.length === 0) return;
+
+  const { error } = await supabaseAdmin.from('holidays').upsert(days);
+  if (error) {
+    throw new Error(`Failed to save holidays: ${error.message}`);
+  }
+}
+
+export async function deleteHoliday(date: string) {
+  const { error } = await supabaseAdmin.from('holidays').delete().eq('date', date);
+  if (error) {
+    throw new Error(`Failed to delete holiday: ${error.message}`);
+  }
+}
+
+export async function getWorkSchedules(): Promise<Map<string, number[]>> {
+  const { data, error } = await supabaseAdmin.from('work_schedules').select('user_id, weekday_hours');
+  if (error) {
+    throw new Error(`Failed to load work schedules: ${error.message}`);
+  }
+  return new Map(data.map((row) => [row.user_id, row.weekday_hours.map(Number)]));
+}
+
+export async function saveWorkSchedule(userId: string, weekdayHours: number[]) {
+  const { error } = await supabaseAdmin
+    .from('work_schedules')
+    .upsert({ user_id: userId, weekday_hours: weekdayHours, updated_at: new Date().toISOString() });
+
+  if (error) {
+    throw new Error(`Failed to save work schedule: ${error.message}`);
+  }
+}
+
+export async function deleteWorkSchedule(userId: string) {
+  const { error } = await supabaseAdmin.from('work_schedules').delete().eq('user_id', userId);
+  if (error) {
+    throw new Error(`Failed to reset work schedule: ${error.message}`);
+  }
+}
+
+export interface LeaveDayInput {
+  type: LeaveType;
+  hours: number;
+  // What the day takes off the balance: 1, or 0.5 for a half day
+  days: number;
+  reason: string | null;
+}
+
+function requestLeaveError(date: string) {
+  return new HttpError(409, `Leave on ${date} comes from a leave request; cancel the request instead`);
+}
+
+// Leave recorded directly by an admin. Days written by an approved leave
+// request belong to it and are only changed by cancelling the request.
+export async function saveLeaveDay(userId: string, date: string, input: LeaveDayInput) {
+  const row = { type: input.type, hours: input.hours, days: input.days, reason: input.reason };
+  const { error } = await supabaseAdmin
+    .from('leave_days')
+    .insert({ user_id: userId, date, ...row });
+
+  if (!error) return;
+  if (error.code !== '23505') {
+    throw new Error(`Failed to save leave day: ${error.message}`);
+  }
+
+  const { data, error: updateError } = await supabaseAdmin
+    .from('leave_days')
+    .update(row)
+    .eq('user_id', userId)
+    .eq('date', date)
+    .is('request_id', null)
+    .select('date');
+
+  if (updateError) {
+    throw new Error(`Failed to save leave day: ${updateError.message}`);
+  }
+  if (data.length === 0) {
+    throw requestLeaveError(date);
+  }
+}
+
+export async function deleteLeaveDay(userId: string, date: string) {
+  const { data, error } = await supabaseAdmin
+    .from('leave_days')
+    .delete()
+    .eq('user_id', userId)
+    .eq('date', date)
+    .is('request_id', null)
+    .select('date');
+
+  if (error) {
+    throw new Error(`Failed to delete leave day: ${error.message}`);
+  }
+  if (data.length > 0) return;
+
+  // Nothing removed: either there is no leave that day or a request owns it
+  const { data: requested, error: loadError } = await supabaseAdmin
+    .from('leave_days')
+    .select('request_id')
+    .eq('user_id', userId)
+    .eq('date', date)
+    .maybeSingle();
+
+  if (loadError) {
+    throw new Error(`Failed to delete leave day: ${loadError.message}`);
+  }
+  if (requested) {
+    throw requestLeaveError(date);
+  }
+}
@@ -0,0 +1,234 @@
+import { HttpError } from './errors.ts';
+import { supabaseAdmin } from './supabase.ts';
+
+// Managed project catalogue. Timesheet entries refer to a project by its code.
+
+export interface Project {
+  id: string;
+  code: string;
+  name: string;
+  client: string | null;
+  active: boolean;
+  billable: boolean;
+  hourlyRate: number | null;
+  memberIds: string[];
+}
+
+export interface ProjectInput {
+  code: string;
+  name: string;
+  client: string | null;
+  active: boolean;
+  billable: boolean;
+  hourlyRate: number | null;
+  memberIds: string[];
+}
+
+// Column values for the `projects` table; members are stored separately
+function toRow(input: ProjectInput) {
+  return {
+    code: input.code,
+    name: input.name,
+    client: input.client,
+    active: input.active,
+    billable: input.billable,
+    hourly_rate: input.hourlyRate
+  };
+}
+
+export async function listProjects(): Promise<Project[]> {
+  const { data, error } = await supabaseAdmin
+    .from('projects')
+    .select('id, code, name, client, active, billable, hourly_rate, project_members(user_id)')
+    .order('code');
+
+  if (error) {
+    throw new Error(`Failed to load projects: ${error.message}`);
+  }
+
+  return data.map(({ project_members, hourly_rate, ...project }) => ({
+    ...project,
+    hourlyRate: hourly_rate === null ? null : Number(hourly_rate),
+    memberIds: (project_members || []).map((member: { user_id: string }) => member.user_id)
+  }));
+}
+
+// A project without members is open to everyone
+export function canLogTime(project: Project, userId: string): boolean {
+  return project.active && (project.memberIds.length === 0 || project.memberIds.includes(userId));
+}
+
+export async function listProjectsForUser(userId: string): Promise<Project[]> {
+  return (await listProjects()).filter((project) => canLogTime(project, userId));
+}
+
+// Problems with the project codes in a submission, keyed by the offending code
+export async function checkProjectCodes(userId: string, codes: string[]): Promise<Map<string, string>> {
+  const byCode = new Map((await listProjects()).map((project) => [project.code, project]));
+  const problems = new Map<string, string>();
+
+  for (const code of new Set(codes)) {
+    const project = byCode.get(code);
+    if (!project) {
+      problems.set(code, `Unknown project: ${code}`);
+    } else if (!project.active) {
+      problems.set(code, `Project ${code} is archived`);
+    } else if (!canLogTime(project, userId)) {
+      problems.set(code, `You are not assigned to project ${code}`);
+    }
+  }
+
+  return problems;
+}
+
+async function setMembers(projectId: string, memberIds: string[]) {
+  const { error: deleteError } = await supabaseAdmin
+    .from('project_members')
+    .delete()
+    .eq('project_id', projectId);
+
+  if (deleteError) {
+    throw new Error(`Failed to update project members: ${deleteError.message}`);
+  }
+
+  if (memberIds.length === 0) return;
+
+  const { error } = await supabaseAdmin
+    .from('project_members')
+    .insert(memberIds.map((userId) => ({ project_id: projectId, user_id: userId })));
+
+  if (error) {
+    throw new Error(`Failed to update project members: ${error.message}`);
+  }
+}
+
+export async function createProject(input: ProjectInput): Promise<string> {
+  const { data, error } = await supabaseAdmin
+    .from('projects')
+    .insert(toRow(input))
+    .select('id')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new HttpError(409, `A project with code ${input.code} already exists`);
+    }
+    throw new Error(`Failed to create project: ${error.message}`);
+  }
+
+  await setMembers(data.id, input.memberIds);
+  return data.id;
+}
+
+async function loadProjectCode(id: string): Promise<string> {
+  const { data: project, error } = await supabaseAdmin
+    .from('projects')
+    .select('code')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load project: ${error.message}`);
+  }
+  if (!project) {
+    throw new HttpError(404, 'Project not found');
+  }
+  return project.code;
+}
+
+async function countEntries(code: string): Promise<number> {
+  const { count, error } = await supabaseAdmin
+    .from('timesheets')
+    .select('id', { count: 'exact', head: true })
+    .eq('project', code);
+
+  if (error) {
+    throw new Error(`Failed to check project usage: ${error.message}`);
+  }
+  return count || 0;
+}
+
+function codeInUseError(code: string) {
+  return new HttpError(409, `Project ${code} has timesheet entries; its code cannot change`);
+}
+
+// Entries refer to their project by code, so the code is fixed once any
+// entry uses it. The database refuses the change too.
+export async function updateProject(id: string, input: ProjectInput) {
+  const code = await loadProjectCode(id);
+  if (code !== input.code && await countEntries(code) > 0) {
+    throw codeInUseError(code);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('projects')
+    .update({ ...toRow(input), updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new HttpError(409, `A project with code ${input.code} already exists`);
+    }
+    if (error.message === 'project_code_in_use') {
+      throw codeInUseError(code);
+    }
+    throw new Error(`Failed to update project: ${error.message}`);
+  }
+  if (data.length === 0) {
+    throw new HttpError(404, 'Project not found');
+  }
+
+  await setMembers(id, input.memberIds);
+}
+
+// Projects that already have entries are archived instead, so past
+// timesheets keep pointing at a catalogue entry
+export async function deleteProject(id: string) {
+  const code = await loadProjectCode(id);
+  if (await countEntries(code) > 0) {
+    throw new HttpError(409, `Project ${code} has timesheet entries; archive it instead`);
+  }
+
+  const { error } = await supabaseAdmin.from('projects').delete().eq('id', id);
+  if (error) {
+    throw new Error(`Failed to delete project: ${error.message}`);
+  }
+}
+
+export interface LegacyProjectName {
+  name: string;
+  entries: number;
+}
+
+// Project names on entries logged before the catalogue, which match no code
+export async function listLegacyProjectNames(): Promise<LegacyProjectName[]> {
+  const { data, error } = await supabaseAdmin.rpc('legacy_project_names');
+
+  if (error) {
+    throw new Error(`Failed to load legacy project names: ${error.message}`);
+  }
+
+  return data.map((row: { name: string; entries: number | string }) => ({
+    name: row.name,
+    entries: Number(row.entries)
+  }));
+}
+
+// Point every entry that names a legacy project at a catalogue code. The
+// affected days are synced to the spreadsheets again. Returns the entries changed.
+export async function mapLegacyProject(name: string, code: string): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc('map_legacy_project', { p_name: name, p_code: code });
+
+  if (error) {
+    if (error.message === 'unknown_project') {
+      throw new HttpError(400, `Unknown project: ${code}`);
+    }
+    if (error.message === 'not_a_legacy_name') {
+      throw new HttpError(400, `${name} is already a catalogue code`);
+    }
+    throw new Error(`Failed to map legacy project: ${error.message}`);
+  }
+
+  return data;
+}
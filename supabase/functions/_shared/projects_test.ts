@@ -0,0 +1,43 @@
+import { ALICE, db } from '../_test/setup.ts';
+import assert from 'node:assert/strict';
+import { HttpError } from './errors.ts';
+import { type ProjectInput, updateProject } from './projects.ts';
+
+const CRM: ProjectInput = {
+  code: 'SR-CRM',
+  name: 'CRM',
+  client: null,
+  active: true,
+  billable: false,
+  hourlyRate: null,
+  memberIds: []
+};
+
+function seed(entries: number) {
+  db.reset();
+  db.rows('projects').push({ id: 'project-crm', code: 'SR-CRM', name: 'CRM', client: null, active: true });
+  for (let i = 0; i < entries; i++) {
+    db.rows('timesheets').push({ id: `entry-${i}`, user_id: ALICE.id, date: '2025-04-01', project: 'SR-CRM', hours: 1 });
+  }
+}
+
+Deno.test('a project code cannot change once entries use it', async () => {
+  seed(2);
+
+  await assert.rejects(
+    updateProject('project-crm', { ...CRM, code: 'CRM' }),
+    (error: unknown) => error instanceof HttpError && error.status === 409
+  );
+  assert.equal(db.rows('projects')[0].code, 'SR-CRM');
+
+  // Everything else can still be edited
+  await updateProject('project-crm', { ...CRM, name: 'Customer relations' });
+  assert.equal(db.rows('projects')[0].name, 'Customer relations');
+});
+
+Deno.test('an unused project code can change', async () => {
+  seed(0);
+
+  await updateProject('project-crm', { ...CRM, code: 'CRM' });
+  assert.equal(db.rows('projects')[0].code, 'CRM');
+});
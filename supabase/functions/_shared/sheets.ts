@@ -0,0 +1,494 @@
+import { google } from 'npm:googleapis@131.0.0';
+import { addDays, todayInTimeZone } from './dates.ts';
+import { getOrgTimeZone } from './env.ts';
+import { callGoogle, GoogleApiError } from './googleApi.ts';
+import type { LedgerOwner, TimesheetStore } from './store.ts';
+import { supabaseAdmin } from './supabase.ts';
+import { ENTRY_COLUMNS, type TimesheetEntry } from './timesheets.ts';
+
+// Google Sheets mirror of the `timesheets` table: one spreadsheet per user,
+// one tab per calendar month named like "2026-01", with the same
+// Date/Project/Task/Hours columns plus the day's review Status. Tabs are
+// created the first time a month is written.
+
+const HEADERS = [...ENTRY_COLUMNS, 'Status'];
+
+// Tab names used before tabs were scoped by year
+const LEGACY_MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+// Initialize Google APIs with proper error handling
+const auth = new google.auth.GoogleAuth({
+  credentials: {
+    client_email: Deno.env.get('GOOGLE_CLIENT_EMAIL'),
+    private_key: Deno.env.get('GOOGLE_PRIVATE_KEY')?.replace(/\\n/g, '\n'),
+  },
+  scopes: [
+    'https://www.googleapis.com/auth/spreadsheets',
+    'https://www.googleapis.com/auth/drive'
+  ]
+});
+
+const sheets = google.sheets({ version: 'v4', auth });
+const drive = google.drive({ version: 'v3', auth });
+
+type Row = (string | number)[];
+
+export interface TabMigrationResult {
+  spreadsheetId: string;
+  migratedTabs: string[];
+  rowsMoved: number;
+  // Legacy tabs kept because some rows had no readable date in column A
+  skippedTabs: { title: string; invalidRows: number }[];
+}
+
+export function monthTab(date: string): string {
+  return date.slice(0, 7);
+}
+
+// A1 notation for cells on a tab. The tab name is always quoted, doubling any
+// quote in it, so names like "2026-01" or "Bob's" are not read as formulas
+// or cut short.
+export function a1(tab: string, cells: string): string {
+  return `'${tab.replace(/'/g, "''")}'!${cells}`;
+}
+
+function getDriveFolderId(): string {
+  const folderId = Deno.env.get('GOOGLE_DRIVE_FOLDER_ID');
+  if (!folderId) {
+    throw new Error('GOOGLE_DRIVE_FOLDER_ID environment variable is not set');
+  }
+  return folderId;
+}
+
+export async function findSpreadsheet(userEmail: string): Promise<string | null> {
+  const fileName = `Timesheet - ${userEmail}`;
+  const folderId = getDriveFolderId();
+  const response = await callGoogle('find spreadsheet', () => drive.files.list({
+    q: `name = '${fileName}' and '${folderId}' in parents and mimeType = 'application/vnd.google-apps.spreadsheet'`,
+    fields: 'files(id, name)',
+  }));
+
+  return response.data.files?.[0]?.id || null;
+}
+
+// Every user spreadsheet in the parent folder
+export async function listSpreadsheets(): Promise<{ id: string; name: string }[]> {
+  const folderId = getDriveFolderId();
+  const files: { id: string; name: string }[] = [];
+  let pageToken: string | undefined;
+  do {
+    const response = await callGoogle('list spreadsheets', () => drive.files.list({
+      q: `name contains 'Timesheet - ' and '${folderId}' in parents and mimeType = 'application/vnd.google-apps.spreadsheet'`,
+      fields: 'nextPageToken, files(id, name)',
+      pageToken,
+    }));
+    for (const file of response.data.files || []) {
+      if (file.id && file.name) files.push({ id: file.id, name: file.name });
+    }
+    pageToken = response.data.nextPageToken || undefined;
+  } while (pageToken);
+  return files;
+}
+
+// Create the user's spreadsheet with the month being written as its only tab
+export async function findOrCreateSpreadsheet(userEmail: string, firstTab: string): Promise<string> {
+  const fileName = `Timesheet - ${userEmail}`;
+  const folderId = getDriveFolderId();
+
+  // Search for existing spreadsheet
+  const existingId = await findSpreadsheet(userEmail);
+  if (existingId) {
+    return existingId;
+  }
+
+  // Create new spreadsheet
+  const createResponse = await callGoogle('create spreadsheet', () => drive.files.create({
+    requestBody: {
+      name: fileName,
+      mimeType: 'application/vnd.google-apps.spreadsheet',
+      parents: [folderId],
+    },
+    fields: 'id',
+  }), { idempotent: false });
+
+  const spreadsheetId = createResponse.data.id;
+  if (!spreadsheetId) {
+    throw new Error(`Google Drive did not return an id for ${fileName}`);
+  }
+
+  // Rename default sheet
+  await callGoogle('name first tab', () => sheets.spreadsheets.batchUpdate({
+    spreadsheetId,
+    requestBody: {
+      requests: [{
+        updateSheetProperties: {
+          properties: {
+            sheetId: 0,
+            title: firstTab,
+          },
+          fields: 'title',
+        },
+      }],
+    },
+  }));
+  await writeHeaders(spreadsheetId, firstTab);
+
+  return spreadsheetId;
+}
+
+async function writeHeaders(spreadsheetId: string, tab: string) {
+  await callGoogle('write headers', () => sheets.spreadsheets.values.update({
+    spreadsheetId,
+    range: a1(tab, 'A1:E1'),
+    valueInputOption: 'RAW',
+    requestBody: {
+      values: [HEADERS],
+    },
+  }));
+}
+
+async function getTabs(spreadsheetId: string): Promise<Map<string, number>> {
+  const spreadsheet = await callGoogle('read tabs', () => sheets.spreadsheets.get({
+    spreadsheetId,
+    fields: 'sheets.properties(sheetId,title)',
+  }));
+
+  const tabs = new Map<string, number>();
+  for (const sheet of spreadsheet.data.sheets || []) {
+    const { title, sheetId } = sheet.properties || {};
+    if (title && sheetId !== undefined && sheetId !== null) {
+      tabs.set(title, sheetId);
+    }
+  }
+  return tabs;
+}
+
+async function addTab(spreadsheetId: string, tab: string): Promise<number> {
+  const response = await callGoogle('add tab', () => sheets.spreadsheets.batchUpdate({
+    spreadsheetId,
+    requestBody: {
+      requests: [{
+        addSheet: {
+          properties: {
+            title: tab,
+          },
+        },
+      }],
+    },
+  }), { idempotent: false });
+  await writeHeaders(spreadsheetId, tab);
+
+  return response.data.replies?.[0]?.addSheet?.properties?.sheetId as number;
+}
+
+async function readRows(spreadsheetId: string, tab: string): Promise<Row[]> {
+  const response = await callGoogle('read rows', () => sheets.spreadsheets.values.get({
+    spreadsheetId,
+    range: a1(tab, 'A:E'),
+  }));
+  return response.data.values || [];
+}
+
+// Positions of a date's rows in a tab so they can be replaced
+function findDateRows(rows: Row[], date: string): number[] {
+  const rowIndexes: number[] = [];
+  rows.forEach((row, index) => {
+    if (index > 0 && row[0] === date) { // Skip header row
+      rowIndexes.push(index);
+    }
+  });
+  return rowIndexes;
+}
+
+async function deleteRows(spreadsheetId: string, sheetId: number, rowIndexes: number[]) {
+  if (rowIndexes.length === 0) return;
+
+  // Delete bottom-up so the remaining indexes stay valid within the batch
+  await callGoogle('delete rows', () => sheets.spreadsheets.batchUpdate({
+    spreadsheetId,
+    requestBody: {
+      requests: [...rowIndexes]
+        .sort((a, b) => b - a)
+        .map((index) => ({
+          deleteDimension: {
+            range: { sheetId, dimension: 'ROWS', startIndex: index, endIndex: index + 1 },
+          },
+        })),
+    },
+  }), { idempotent: false });
+}
+
+async function appendRows(spreadsheetId: string, tab: string, rows: Row[]) {
+  // Append in one call so a failure leaves no partial rows
+  await callGoogle('append rows', () => sheets.spreadsheets.values.append({
+    spreadsheetId,
+    range: a1(tab, 'A:E'),
+    valueInputOption: 'USER_ENTERED',
+    requestBody: {
+      values: rows,
+    },
+  }), { idempotent: false });
+}
+
+// Spreadsheet ids are cached per user in `user_spreadsheets`, so most writes
+// skip the Drive search
+async function getCachedSpreadsheetId(userId: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('user_spreadsheets')
+    .select('spreadsheet_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load cached spreadsheet id: ${error.message}`);
+  }
+
+  return data?.spreadsheet_id || null;
+}
+
+async function cacheSpreadsheetId(userId: string, spreadsheetId: string | null) {
+  const { error } = spreadsheetId
+    ? await supabaseAdmin
+      .from('user_spreadsheets')
+      .upsert({ user_id: userId, spreadsheet_id: spreadsheetId, updated_at: new Date().toISOString() })
+    : await supabaseAdmin
+      .from('user_spreadsheets')
+      .delete()
+      .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to cache spreadsheet id: ${error.message}`);
+  }
+}
+
+// The owner's spreadsheet, from the cache when possible. With `firstTab` a
+// missing spreadsheet is created with that tab.
+async function ownerSpreadsheet(owner: LedgerOwner, firstTab?: string): Promise<string | null> {
+  const cachedId = await getCachedSpreadsheetId(owner.id);
+  if (cachedId) return cachedId;
+
+  const spreadsheetId = firstTab
+    ? await findOrCreateSpreadsheet(owner.email, firstTab)
+    : await findSpreadsheet(owner.email);
+  if (spreadsheetId) {
+    await cacheSpreadsheetId(owner.id, spreadsheetId);
+  }
+  return spreadsheetId;
+}
+
+// A 404 means the cached spreadsheet was deleted or moved out of the folder;
+// forget it so the next attempt searches Drive again
+async function forgetIfMissing<T>(owner: LedgerOwner, work: () => Promise<T>): Promise<T> {
+  try {
+    return await work();
+  } catch (error) {
+    if (error instanceof GoogleApiError && error.googleStatus === 404) {
+      await cacheSpreadsheetId(owner.id, null);
+    }
+    throw error;
+  }
+}
+
+// Make a date's rows in the sheet match the given entries. The new rows are
+// appended before the old ones are removed, so a failure part way leaves
+// duplicates to tidy on the next sync rather than lost rows. Returns how many
+// rows were removed.
+async function replaceSheetDay(
+  owner: LedgerOwner,
+  date: string,
+  entries: TimesheetEntry[],
+  status: string
+): Promise<number> {
+  const tab = monthTab(date);
+  const spreadsheetId = await ownerSpreadsheet(owner, entries.length > 0 ? tab : undefined);
+  if (!spreadsheetId) return 0;
+
+  const tabs = await getTabs(spreadsheetId);
+  let sheetId = tabs.get(tab);
+  if (sheetId === undefined) {
+    if (entries.length === 0) return 0;
+    sheetId = await addTab(spreadsheetId, tab);
+  }
+
+  const rows = await readRows(spreadsheetId, tab);
+  // Tabs created before the Status column existed get the new header
+  if (rows[0]?.[4] !== HEADERS[4]) {
+    await writeHeaders(spreadsheetId, tab);
+  }
+
+  const existingRows = findDateRows(rows, date);
+  if (entries.length > 0) {
+    await appendRows(
+      spreadsheetId,
+      tab,
+      entries.map((entry) => [entry.date, entry.project, entry.description, entry.hours, status])
+    );
+  }
+  await deleteRows(spreadsheetId, sheetId, existingRows);
+  return existingRows.length;
+}
+
+// The spreadsheets as a `TimesheetStore`: the ledger is the user's file and
+// each row also carries the day's review status, looked up with `statusOf`
+export function createSheetsStore(
+  statusOf: (owner: LedgerOwner, date: string) => Promise<string> = () => Promise.resolve('')
+): TimesheetStore {
+  return {
+    findLedger(owner, create = false) {
+      return ownerSpreadsheet(owner, create ? monthTab(todayInTimeZone(getOrgTimeZone())) : undefined);
+    },
+
+    listEntries(owner, from, to = from) {
+      return forgetIfMissing(owner, async () => {
+        const spreadsheetId = await ownerSpreadsheet(owner);
+        if (!spreadsheetId) return [];
+
+        const tabs = await getTabs(spreadsheetId);
+        const monthTabs = new Set<string>();
+        for (let date = from; date <= to; date = addDays(date, 1)) {
+          if (tabs.has(monthTab(date))) monthTabs.add(monthTab(date));
+        }
+        if (monthTabs.size === 0) return [];
+
+        // Every month in the range in one request
+        const response = await callGoogle('read months', () => sheets.spreadsheets.values.batchGet({
+          spreadsheetId,
+          ranges: [...monthTabs].map((tab) => a1(tab, 'A:E')),
+        }));
+
+        const entries: TimesheetEntry[] = [];
+        for (const range of response.data.valueRanges || []) {
+          for (const row of (range.values || []).slice(1)) { // Skip header row
+            const date = String(row[0] || '');
+            if (date < from || date > to) continue;
+            entries.push({ date, project: String(row[1] || ''), description: String(row[2] || ''), hours: Number(row[3]) });
+          }
+        }
+        return entries.sort((a, b) => a.date.localeCompare(b.date));
+      });
+    },
+
+    // Each spreadsheet is one user's, found by email, so the mirror is never
+    // read across the team
+    listAllEntries() {
+      return Promise.reject(new Error('The spreadsheet mirror cannot list entries across users'));
+    },
+
+    async appendEntries(owner, entries) {
+      if (entries.length === 0) return;
+
+      const rowsByTab = new Map<string, Row[]>();
+      const statuses = new Map<string, string>();
+      for (const entry of entries) {
+        if (!statuses.has(entry.date)) {
+          statuses.set(entry.date, await statusOf(owner, entry.date));
+        }
+        const tab = monthTab(entry.date);
+        rowsByTab.set(tab, [
+          ...(rowsByTab.get(tab) || []),
+          [entry.date, entry.project, entry.description, entry.hours, statuses.get(entry.date) || '']
+        ]);
+      }
+
+      await forgetIfMissing(owner, async () => {
+        const spreadsheetId = (await ownerSpreadsheet(owner, monthTab(entries[0].date)))!;
+        const tabs = await getTabs(spreadsheetId);
+        for (const [tab, rows] of rowsByTab) {
+          if (!tabs.has(tab)) {
+            tabs.set(tab, await addTab(spreadsheetId, tab));
+          }
+          await appendRows(spreadsheetId, tab, rows);
+        }
+      });
+    },
+
+    async replaceDay(owner, date, entries) {
+      const status = await statusOf(owner, date);
+      await forgetIfMissing(owner, () => replaceSheetDay(owner, date, entries, status));
+    },
+
+    deleteDay(owner, date) {
+      return forgetIfMissing(owner, () => replaceSheetDay(owner, date, [], ''));
+    }
+  };
+}
+
+function rowKey(row: Row): string {
+  return JSON.stringify(row.map((value) => String(value ?? '')));
+}
+
+// Split the old month-name tabs ("January", ...) into year-scoped tabs using
+// the date in column A. Rows already present in the target tab are not copied
+// again, so an interrupted run can simply be repeated.
+export async function migrateLegacyTabs(spreadsheetId: string): Promise<TabMigrationResult> {
+  const result: TabMigrationResult = { spreadsheetId, migratedTabs: [], rowsMoved: 0, skippedTabs: [] };
+  const tabs = await getTabs(spreadsheetId);
+
+  for (const legacyTab of LEGACY_MONTHS) {
+    const legacySheetId = tabs.get(legacyTab);
+    if (legacySheetId === undefined) continue;
+
+    const rows = (await readRows(spreadsheetId, legacyTab)).slice(1); // Skip header row
+    const rowsByTab = new Map<string, Row[]>();
+    let invalidRows = 0;
+    for (const row of rows) {
+      const date = String(row[0] || '');
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        invalidRows++;
+        continue;
+      }
+      const tab = monthTab(date);
+      rowsByTab.set(tab, [...(rowsByTab.get(tab) || []), row]);
+    }
+
+    if (invalidRows > 0) {
+      result.skippedTabs.push({ title: legacyTab, invalidRows });
+      continue;
+    }
+
+    for (const [tab, tabRows] of rowsByTab) {
+      const copied = new Map<string, number>();
+      if (tabs.has(tab)) {
+        for (const row of (await readRows(spreadsheetId, tab)).slice(1)) {
+          copied.set(rowKey(row), (copied.get(rowKey(row)) || 0) + 1);
+        }
+      } else {
+        tabs.set(tab, await addTab(spreadsheetId, tab));
+      }
+
+      const pending = tabRows.filter((row) => {
+        const remaining = copied.get(rowKey(row)) || 0;
+        if (remaining === 0) return true;
+        copied.set(rowKey(row), remaining - 1);
+        return false;
+      });
+      if (pending.length > 0) {
+        await appendRows(spreadsheetId, tab, pending);
+        result.rowsMoved += pending.length;
+      }
+    }
+
+    // A spreadsheet must keep at least one tab, so an empty last legacy tab
+    // becomes the current month instead of being deleted
+    const request = tabs.size === 1
+      ? {
+        updateSheetProperties: {
+          properties: { sheetId: legacySheetId, title: monthTab(todayInTimeZone(getOrgTimeZone())) },
+          fields: 'title',
+        },
+      }
+      : { deleteSheet: { sheetId: legacySheetId } };
+
+    await callGoogle('replace legacy tab', () => sheets.spreadsheets.batchUpdate({
+      spreadsheetId,
+      requestBody: { requests: [request] },
+    }), { idempotent: false });
+    tabs.delete(legacyTab);
+    result.migratedTabs.push(legacyTab);
+  }
+
+  return result;
+}
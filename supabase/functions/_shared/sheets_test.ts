@@ -0,0 +1,10 @@
+import '../_test/setup.ts';
+import assert from 'node:assert/strict';
+import { a1, monthTab } from './sheets.ts';
+
+Deno.test('a1 quotes the tab name', () => {
+  assert.equal(a1(monthTab('2026-01-15'), 'A:E'), "'2026-01'!A:E");
+  assert.equal(a1('January', 'A1:E1'), "'January'!A1:E1");
+  assert.equal(a1("Bob's hours", 'A:E'), "'Bob''s hours'!A:E");
+  assert.equal(a1("''", 'A1'), "''''''!A1");
+});
@@ -0,0 +1,137 @@
+import { getRequiredEnvVar } from './env.ts';
+import { supabaseAdmin } from './supabase.ts';
+
+// Personal messages through the Slack Web API. People are matched to Slack
+// accounts by email, and messages go to their direct-message channel with
+// the app's bot. `SLACK_API_URL` can point at a local fake Slack server.
+
+const DEFAULT_SLACK_API_URL = 'https://slack.com/api';
+const UNIQUE_VIOLATION = '23505';
+
+export type NotificationKind = 'reminder' | 'escalation';
+
+export class SlackApiError extends Error {
+  code: string;
+
+  constructor(method: string, code: string) {
+    super(`Slack ${method} failed: ${code}`);
+    this.name = 'SlackApiError';
+    this.code = code;
+  }
+}
+
+async function callSlack<T>(method: string, params: Record<string, string>): Promise<T> {
+  const baseUrl = Deno.env.get('SLACK_API_URL') || DEFAULT_SLACK_API_URL;
+  const response = await fetch(`${baseUrl}/${method}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${getRequiredEnvVar('SLACK_BOT_TOKEN')}`,
+      'Content-Type': 'application/x-www-form-urlencoded'
+    },
+    body: new URLSearchParams(params)
+  });
+
+  if (!response.ok) {
+    throw new SlackApiError(method, response.status === 429 ? 'ratelimited' : `http_${response.status}`);
+  }
+
+  const result = await response.json();
+  if (!result.ok) {
+    throw new SlackApiError(method, result.error || 'unknown_error');
+  }
+  return result as T;
+}
+
+// Null when nobody in the workspace uses the email
+async function lookupSlackUserId(email: string): Promise<string | null> {
+  try {
+    const result = await callSlack<{ user: { id: string } }>('users.lookupByEmail', { email });
+    return result.user.id;
+  } catch (error) {
+    if (error instanceof SlackApiError && error.code === 'users_not_found') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Returns false when the email has no Slack account
+export async function sendDirectMessage(email: string, text: string): Promise<boolean> {
+  const slackUserId = await lookupSlackUserId(email);
+  if (!slackUserId) return false;
+
+  await callSlack('chat.postMessage', { channel: slackUserId, text });
+  return true;
+}
+
+// Claim a notification before sending it. False when it was already sent or
+// another run is sending it.
+async function claimNotification(
+  userId: string,
+  date: string,
+  kind: NotificationKind,
+  recipient: string
+): Promise<boolean> {
+  const { error } = await supabaseAdmin
+    .from('slack_notifications')
+    .insert({ user_id: userId, date, kind, recipient });
+
+  if (!error) return true;
+  if (error.code === UNIQUE_VIOLATION) return false;
+  throw new Error(`Failed to record Slack notification: ${error.message}`);
+}
+
+// Give the claim back when sending failed, so the next run tries again
+async function releaseNotification(userId: string, date: string, kind: NotificationKind) {
+  const { error } = await supabaseAdmin
+    .from('slack_notifications')
+    .delete()
+    .eq('user_id', userId)
+    .eq('date', date)
+    .eq('kind', kind);
+
+  if (error) {
+    console.error('Error releasing Slack notification:', error);
+  }
+}
+
+// Keep the claim when the recipient has no Slack account, so later runs do
+// not look them up again
+async function recordNoSlackAccount(userId: string, date: string, kind: NotificationKind) {
+  const { error } = await supabaseAdmin
+    .from('slack_notifications')
+    .update({ outcome: 'no_slack_account' })
+    .eq('user_id', userId)
+    .eq('date', date)
+    .eq('kind', kind);
+
+  if (error) {
+    console.error('Error recording Slack notification outcome:', error);
+  }
+}
+
+// Claim, send and release on failure. Returns what happened, for run totals.
+
+export async function notifyOnce(
+  userId: string,
+  date: string,
+  kind: NotificationKind,
+  recipient: string,
+  text: string
+): Promise<'sent' | 'already_sent' | 'no_slack_account' | 'failed'> {
+  if (!(await claimNotification(userId, date, kind, recipient))) {
+    return 'already_sent';
+  }
+
+  try {
+    if (await sendDirectMessage(recipient, text)) {
+      return 'sent';
+    }
+    await recordNoSlackAccount(userId, date, kind);
+    return 'no_slack_account';
+  } catch (error) {
+    console.error('Error sending Slack message:', { userId, date, kind, error });
+    await releaseNotification(userId, date, kind);
+    return 'failed';
+  }
+}
@@ -0,0 +1,101 @@
+import { ALICE, db } from '../_test/setup.ts';
+import assert from 'node:assert/strict';
+import { notifyOnce } from './slack.ts';
+
+// A local Slack Web API that knows one workspace member and can be told to
+// rate limit the next messages
+function startFakeSlack(members: Record<string, string>) {
+  const posted: { channel: string; text: string }[] = [];
+  let rateLimited = 0;
+
+  const server = Deno.serve({ port: 0, hostname: '127.0.0.1', onListen: () => {} }, async (req) => {
+    const method = new URL(req.url).pathname.split('/').pop();
+    const params = new URLSearchParams(await req.text());
+    assert.equal(req.headers.get('Authorization'), 'Bearer xoxb-test');
+
+    if (method === 'users.lookupByEmail') {
+      const id = members[params.get('email') || ''];
+      return Response.json(id ? { ok: true, user: { id } } : { ok: false, error: 'users_not_found' });
+    }
+    if (method === 'chat.postMessage') {
+      if (rateLimited > 0) {
+        rateLimited--;
+        return new Response('', { status: 429, headers: { 'Retry-After': '30' } });
+      }
+      posted.push({ channel: params.get('channel') || '', text: params.get('text') || '' });
+      return Response.json({ ok: true });
+    }
+    return Response.json({ ok: false, error: 'unknown_method' });
+  });
+
+  Deno.env.set('SLACK_API_URL', `http://127.0.0.1:${server.addr.port}/api`);
+  Deno.env.set('SLACK_BOT_TOKEN', 'xoxb-test');
+
+  return {
+    posted,
+    rateLimitNext(count: number) {
+      rateLimited = count;
+    },
+    close: () => server.shutdown()
+  };
+}
+
+const claims = () => db.rows('slack_notifications');
+
+Deno.test('a reminder is sent once per user, date and kind', async () => {
+  db.reset();
+  const slack = startFakeSlack({ [ALICE.email]: 'U_ALICE' });
+  try {
+    const first = await notifyOnce(ALICE.id, '2025-05-05', 'reminder', ALICE.email, 'Please log your day');
+    assert.equal(first, 'sent');
+    assert.deepEqual(slack.posted, [{ channel: 'U_ALICE', text: 'Please log your day' }]);
+    assert.equal(claims().length, 1);
+    assert.equal(claims()[0].recipient, ALICE.email);
+
+    const second = await notifyOnce(ALICE.id, '2025-05-05', 'reminder', ALICE.email, 'Please log your day');
+    assert.equal(second, 'already_sent');
+    assert.equal(slack.posted.length, 1);
+
+    // An escalation about the same day is a separate notification
+    const escalation = await notifyOnce(ALICE.id, '2025-05-05', 'escalation', 'manager@example.com', 'Alice is behind');
+    assert.equal(escalation, 'no_slack_account');
+  } finally {
+    await slack.close();
+  }
+});
+
+Deno.test('no message when the email has no Slack account, and the claim is kept', async () => {
+  db.reset();
+  const slack = startFakeSlack({});
+  try {
+    const outcome = await notifyOnce(ALICE.id, '2025-05-06', 'reminder', ALICE.email, 'Please log your day');
+    assert.equal(outcome, 'no_slack_account');
+    assert.equal(slack.posted.length, 0);
+    assert.equal(claims().length, 1);
+    assert.equal(claims()[0].outcome, 'no_slack_account');
+
+    const again = await notifyOnce(ALICE.id, '2025-05-06', 'reminder', ALICE.email, 'Please log your day');
+    assert.equal(again, 'already_sent');
+  } finally {
+    await slack.close();
+  }
+});
+
+Deno.test('a rate limited message releases its claim and is sent on the next run', async () => {
+  db.reset();
+  const slack = startFakeSlack({ [ALICE.email]: 'U_ALICE' });
+  try {
+    slack.rateLimitNext(1);
+    const limited = await notifyOnce(ALICE.id, '2025-05-07', 'reminder', ALICE.email, 'Please log your day');
+    assert.equal(limited, 'failed');
+    assert.equal(slack.posted.length, 0);
+    assert.equal(claims().length, 0);
+
+    const retried = await notifyOnce(ALICE.id, '2025-05-07', 'reminder', ALICE.email, 'Please log your day');
+    assert.equal(retried, 'sent');
+    assert.equal(slack.posted.length, 1);
+    assert.equal(claims().length, 1);
+  } finally {
+    await slack.close();
+  }
+});
@@ -0,0 +1,49 @@
+import { createMemoryStore } from './memoryStore.ts';
+import { type OwnedEntry, postgresStore, type TimesheetEntry } from './timesheets.ts';
+
+// Where a user's entries live. The functions only talk to this interface, so
+// the backing store can be swapped: Postgres is the system of record, Google
+// Sheets is the mirror kept by `sync.ts`, and the in-memory store lets the
+// functions run without either.
+
+// The user a ledger belongs to. Postgres keys entries by id; the spreadsheet
+// mirror names each user's file after their email.
+export interface LedgerOwner {
+  id: string;
+  email: string;
+}
+
+export interface TimesheetStore {
+  // The owner's ledger id, creating the ledger when `create` is set. Null if
+  // the owner has none yet.
+  findLedger(owner: LedgerOwner, create?: boolean): Promise<string | null>;
+  // Entries dated in the range, in date and then submission order
+  listEntries(owner: LedgerOwner, from: string, to?: string): Promise<TimesheetEntry[]>;
+  // Every owner's entries dated in the range, for the monitor and team
+  // reports. Only the system of record can answer this.
+  listAllEntries(from: string, to: string): Promise<OwnedEntry[]>;
+  // With `maxDailyHours`, refuses with a ValidationError when a date would
+  // go past it, checked atomically with the write. The spreadsheet mirror
+  // does not check it.
+  //
+  // In the system of record, adding or replacing entries also puts their
+  // dates (back) into review, as part of the same write; the mirror leaves
+  // review state alone.
+  appendEntries(owner: LedgerOwner, entries: TimesheetEntry[], maxDailyHours?: number): Promise<void>;
+  // Swap every entry for the date for the given ones
+  replaceDay(owner: LedgerOwner, date: string, entries: TimesheetEntry[]): Promise<void>;
+  // Returns how many entries were removed. The system of record clears the
+  // date's review state in the same write; the mirror leaves it alone.
+  deleteDay(owner: LedgerOwner, date: string): Promise<number>;
+}
+
+let store: TimesheetStore | null = null;
+
+// `TIMESHEET_STORE=memory` runs the functions against a per-instance store,
+// for local development and tests; anything else uses Postgres
+export function getTimesheetStore(): TimesheetStore {
+  if (!store) {
+    store = Deno.env.get('TIMESHEET_STORE') === 'memory' ? createMemoryStore() : postgresStore;
+  }
+  return store;
+}
@@ -0,0 +1,9 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { getRequiredEnvVar } from './env.ts';
+
+// Service role client for edge functions. It bypasses RLS, so callers are
+// responsible for scoping every query to the authenticated user.
+export const supabaseAdmin = createClient(
+  getRequiredEnvVar('SUPABASE_URL'),
+  getRequiredEnvVar('SUPABASE_SERVICE_ROLE_KEY')
+);
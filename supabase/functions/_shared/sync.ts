@@ -0,0 +1,126 @@
+import { getApproval } from './approvals.ts';
+import { mapWithConcurrency } from './concurrency.ts';
+import { getGoogleApiLimits } from './env.ts';
+import { leaveEntries } from './leave.ts';
+import { createSheetsStore } from './sheets.ts';
+import { getTimesheetStore } from './store.ts';
+import { supabaseAdmin } from './supabase.ts';
+
+// Days are synced into the spreadsheets after every write to `timesheets`.
+// A failed sync stays queued in `timesheet_sheet_sync` for `timesheet-sync`
+// to retry, so the request that wrote the entries still succeeds.
+
+const MAX_SYNC_ATTEMPTS = 10;
+
+// Stop starting new days well before the edge function's time limit; days not
+// reached stay queued for the next run
+const SYNC_TIME_BUDGET_MS = 100_000;
+
+interface SyncJob {
+  user_id: string;
+  user_email: string;
+  date: string;
+  attempts: number;
+}
+
+// Rows in the spreadsheets carry the day's review status
+const mirror = createSheetsStore(async (owner, date) => (await getApproval(owner.id, date)).status);
+
+async function runSync(job: SyncJob): Promise<boolean> {
+  const owner = { id: job.user_id, email: job.user_email };
+  try {
+    const [entries, leave] = await Promise.all([
+      getTimesheetStore().listEntries(owner, job.date),
+      leaveEntries(job.user_id, job.date)
+    ]);
+    // Approved leave shows in the sheet as covered hours next to the day's work
+    await mirror.replaceDay(owner, job.date, [...entries, ...leave]);
+
+    await supabaseAdmin
+      .from('timesheet_sheet_sync')
+      .update({ status: 'synced', attempts: job.attempts + 1, last_error: null, updated_at: new Date().toISOString() })
+      .eq('user_id', job.user_id)
+      .eq('date', job.date);
+    return true;
+  } catch (error) {
+    console.error('Error syncing timesheet day to sheet:', { userEmail: job.user_email, date: job.date, error });
+
+    await supabaseAdmin
+      .from('timesheet_sheet_sync')
+      .update({
+        status: 'failed',
+        attempts: job.attempts + 1,
+        last_error: error instanceof Error ? error.message : String(error),
+        updated_at: new Date().toISOString()
+      })
+      .eq('user_id', job.user_id)
+      .eq('date', job.date);
+    return false;
+  }
+}
+
+// Queue a day and sync it straight away. Returns whether the sheet is up to date.
+export async function syncDay(userId: string, userEmail: string, date: string): Promise<boolean> {
+  const { error } = await supabaseAdmin
+    .from('timesheet_sheet_sync')
+    .upsert({
+      user_id: userId,
+      user_email: userEmail,
+      date,
+      status: 'pending',
+      attempts: 0,
+      last_error: null,
+      updated_at: new Date().toISOString()
+    });
+
+  if (error) {
+    console.error('Error queueing timesheet sync:', error);
+  }
+
+  return runSync({ user_id: userId, user_email: userEmail, date, attempts: 0 });
+}
+
+// Different users' spreadsheets are synced in parallel, each user's days one
+// after another because they may share a tab
+export async function syncPendingDays(limit = 200) {
+  const startedAt = Date.now();
+  const { data, error } = await supabaseAdmin
+    .from('timesheet_sheet_sync')
+    .select('user_id, user_email, date, attempts')
+    .in('status', ['pending', 'failed'])
+    .lt('attempts', MAX_SYNC_ATTEMPTS)
+    .order('updated_at')
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load pending syncs: ${error.message}`);
+  }
+
+  const jobsByUser = new Map<string, SyncJob[]>();
+  for (const job of data) {
+    jobsByUser.set(job.user_id, [...(jobsByUser.get(job.user_id) || []), job]);
+  }
+
+  let synced = 0;
+  let failed = 0;
+  await mapWithConcurrency([...jobsByUser.values()], getGoogleApiLimits().maxConcurrency, async (jobs) => {
+    for (const job of jobs) {
+      if (Date.now() - startedAt > SYNC_TIME_BUDGET_MS) return;
+      if (await runSync(job)) {
+        synced++;
+      } else {
+        failed++;
+      }
+    }
+  });
+
+  return {
+    processed: synced + failed,
+    synced,
+    failed,
+    // Left for the next run because the time budget ran out
+    deferred: data.length - synced - failed,
+    users: jobsByUser.size,
+    durationMs: Date.now() - startedAt
+  };
+}
@@ -0,0 +1,53 @@
+import type { User } from 'npm:@supabase/supabase-js@2.39.7';
+import { getTimesheetStore } from './store.ts';
+import { supabaseAdmin } from './supabase.ts';
+import type { OwnedEntry } from './timesheets.ts';
+
+// Data gathered across every user: used by the daily monitor, the admin
+// team overview and the invoice report
+
+export const userDateKey = (userId: string, date: string) => `${userId}|${date}`;
+
+export async function getAllUsers(): Promise<User[]> {
+  try {
+    let allUsers: User[] = [];
+    let nextPage: number | undefined;
+    do {
+      const { data, error } = await supabaseAdmin.auth.admin.listUsers({
+        page: nextPage
+      });
+      if (error) throw error;
+      allUsers = allUsers.concat(data.users);
+      nextPage = 'nextPage' in data && data.nextPage ? data.nextPage : undefined;
+    } while (nextPage);
+    return allUsers;
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    throw error;
+  }
+}
+
+// Total hours logged per user and date, keyed by `userDateKey`
+export async function getHoursByUser(dates: string[]): Promise<Map<string, number>> {
+  const hoursByUser = new Map<string, number>();
+  if (dates.length === 0) return hoursByUser;
+
+  const sorted = [...dates].sort();
+  const wanted = new Set(dates);
+  for (const entry of await getTimesheetStore().listAllEntries(sorted[0], sorted[sorted.length - 1])) {
+    if (!wanted.has(entry.date)) continue;
+    const key = userDateKey(entry.userId, entry.date);
+    hoursByUser.set(key, (hoursByUser.get(key) || 0) + entry.hours);
+  }
+
+  return hoursByUser;
+}
+
+// Every user's entries dated in the range, oldest first
+export function getAllEntries(from: string, to: string): Promise<OwnedEntry[]> {
+  return getTimesheetStore().listAllEntries(from, to);
+}
+
+export function displayName(user: User): string {
+  return user.user_metadata?.display_name || user.email || 'Unknown';
+}
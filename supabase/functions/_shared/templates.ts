@@ -0,0 +1,70 @@
+import { HttpError } from './errors.ts';
+import { supabaseAdmin } from './supabase.ts';
+
+// Named sets of projects and tasks each user keeps for filling in a day.
+// Hours are optional so a template can hold just the rows.
+
+export interface TemplateProject {
+  name: string;
+  tasks: { description: string; hours: number | null }[];
+}
+
+export interface Template {
+  id: string;
+  name: string;
+  projects: TemplateProject[];
+  updatedAt: string;
+}
+
+export async function listTemplates(userId: string): Promise<Template[]> {
+  const { data, error } = await supabaseAdmin
+    .from('timesheet_templates')
+    .select('id, name, projects, updated_at')
+    .eq('user_id', userId)
+    .order('name');
+
+  if (error) {
+    throw new Error(`Failed to load templates: ${error.message}`);
+  }
+
+  return data.map((row) => ({
+    id: row.id,
+    name: row.name,
+    projects: row.projects,
+    updatedAt: row.updated_at
+  }));
+}
+
+// Saving under an existing name replaces that template
+export async function saveTemplate(userId: string, name: string, projects: TemplateProject[]): Promise<string> {
+  const { data, error } = await supabaseAdmin
+    .from('timesheet_templates')
+    .upsert(
+      { user_id: userId, name, projects, updated_at: new Date().toISOString() },
+      { onConflict: 'user_id,name' }
+    )
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save template: ${error.message}`);
+  }
+
+  return data.id;
+}
+
+export async function deleteTemplate(id: string, userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('timesheet_templates')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete template: ${error.message}`);
+  }
+  if (data.length === 0) {
+    throw new HttpError(404, 'Template not found');
+  }
+}
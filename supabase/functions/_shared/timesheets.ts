@@ -0,0 +1,182 @@
+import { ValidationError } from './errors.ts';
+import type { TimesheetStore } from './store.ts';
+import { supabaseAdmin } from './supabase.ts';
+
+export interface TimesheetEntry {
+  date: string;
+  project: string;
+  description: string;
+  hours: number;
+}
+
+// An entry listed across users, with the id of the user it belongs to
+export interface OwnedEntry extends TimesheetEntry {
+  userId: string;
+}
+
+const PAGE_SIZE = 1000;
+
+// Column headings for entries wherever they leave the database: the
+// spreadsheet mirror and CSV/XLSX exports
+export const ENTRY_COLUMNS = ['Date', 'Project', 'Task', 'Hours'];
+
+export interface TimesheetTask {
+  description: string;
+  hours: number;
+}
+
+export interface TimesheetProject {
+  name: string;
+  tasks: TimesheetTask[];
+}
+
+// Group a day's entries back into the project/task shape the Dashboard edits,
+// keeping the order they were submitted in
+export function groupByProject(entries: TimesheetEntry[]): TimesheetProject[] {
+  const projects: TimesheetProject[] = [];
+  for (const entry of entries) {
+    let project = projects.find((p) => p.name === entry.project);
+    if (!project) {
+      project = { name: entry.project, tasks: [] };
+      projects.push(project);
+    }
+    project.tasks.push({ description: entry.description, hours: entry.hours });
+  }
+  return projects;
+}
+
+export function flattenProjects(date: string, projects: TimesheetProject[]): TimesheetEntry[] {
+  return projects.flatMap((project) =>
+    project.tasks.map((task) => ({
+      date,
+      project: project.name,
+      description: task.description,
+      hours: task.hours
+    }))
+  );
+}
+
+export function totalHours(entries: { hours: number }[]): number {
+  return entries.reduce((sum, entry) => sum + entry.hours, 0);
+}
+
+// A submission that would take a date past the daily cap, reported against
+// the `total` field
+export function dailyLimitError(
+  date: string,
+  existingHours: number,
+  addedHours: number,
+  maxDailyHours: number
+): ValidationError {
+  return new ValidationError({
+    total: existingHours > 0
+      ? `${date} already has ${existingHours} hours logged; adding ${addedHours} would exceed the ${maxDailyHours} hour daily limit`
+      : `${addedHours} hours exceeds the ${maxDailyHours} hour daily limit`
+  });
+}
+
+// The system of record: the `timesheets` table, where every user's entries
+// are keyed by their id, so the ledger always exists
+export const postgresStore: TimesheetStore = {
+  findLedger(owner) {
+    return Promise.resolve(owner.id);
+  },
+
+  async listEntries(owner, from, to = from) {
+    const { data, error } = await supabaseAdmin
+      .from('timesheets')
+      .select('date, project, description, hours')
+      .eq('user_id', owner.id)
+      .gte('date', from)
+      .lte('date', to)
+      .order('date')
+      .order('created_at')
+      .order('position');
+
+    if (error) {
+      throw new Error(`Failed to load timesheet entries: ${error.message}`);
+    }
+
+    return data.map((row) => ({ ...row, hours: Number(row.hours) }));
+  },
+
+  // Read a page at a time; a month for the whole team can pass the API's row limit
+  async listAllEntries(from, to) {
+    const entries: OwnedEntry[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from('timesheets')
+        .select('user_id, date, project, description, hours')
+        .gte('date', from)
+        .lte('date', to)
+        .order('date')
+        .order('user_id')
+        .order('created_at')
+        .order('position')
+        .order('id')
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load timesheet entries: ${error.message}`);
+      }
+
+      entries.push(...data.map(({ user_id, ...row }) => ({ ...row, userId: user_id, hours: Number(row.hours) })));
+
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    return entries;
+  },
+
+  // The cap is checked, the entries inserted and their days put into review
+  // in one transaction, so concurrent submissions for a day cannot add up
+  // past the cap and a failure leaves nothing half written
+  async appendEntries(owner, entries, maxDailyHours) {
+    const { error } = await supabaseAdmin.rpc('append_timesheet_entries', {
+      p_user_id: owner.id,
+      p_entries: entries,
+      p_max_daily_hours: maxDailyHours ?? null
+    });
+
+    if (error) {
+      if (error.message === 'daily_limit_exceeded' && maxDailyHours !== undefined) {
+        const { date, existing_hours } = JSON.parse(error.details);
+        throw dailyLimitError(
+          date,
+          Number(existing_hours),
+          totalHours(entries.filter((entry) => entry.date === date)),
+          maxDailyHours
+        );
+      }
+      throw new Error(`Failed to save timesheet entries: ${error.message}`);
+    }
+  },
+
+  // Swap every entry for the date and put it into review in a single transaction
+  async replaceDay(owner, date, entries) {
+    const { error } = await supabaseAdmin.rpc('replace_timesheet_day', {
+      p_user_id: owner.id,
+      p_date: date,
+      p_entries: entries
+    });
+
+    if (error) {
+      throw new Error(`Failed to replace timesheet entries: ${error.message}`);
+    }
+  },
+
+  // Delete the day's entries and its review state in a single transaction
+  async deleteDay(owner, date) {
+    const { data, error } = await supabaseAdmin.rpc('delete_timesheet_day', {
+      p_user_id: owner.id,
+      p_date: date
+    });
+
+    if (error) {
+      throw new Error(`Failed to delete timesheet entries: ${error.message}`);
+    }
+
+    return data || 0;
+  }
+};
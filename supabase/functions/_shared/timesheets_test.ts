@@ -0,0 +1,40 @@
+import { ALICE, db } from '../_test/setup.ts';
+import { PostgresError } from '../_test/fakeSupabase.ts';
+import assert from 'node:assert/strict';
+import { ValidationError } from './errors.ts';
+import { postgresStore } from './timesheets.ts';
+
+const entries = [
+  { date: '2025-05-12', project: 'SR-CRM', description: 'Build', hours: 6 },
+  { date: '2025-05-12', project: 'SR-CRM', description: 'Review', hours: 2 }
+];
+
+Deno.test('appendEntries writes through the capped insert function', async () => {
+  db.reset();
+  let received: Record<string, unknown> | null = null;
+  db.rpc('append_timesheet_entries', (args) => {
+    received = args;
+    return entries.length;
+  });
+
+  await postgresStore.appendEntries(ALICE, entries, 24);
+
+  assert.deepEqual(received, { p_user_id: ALICE.id, p_entries: entries, p_max_daily_hours: 24 });
+});
+
+Deno.test('appendEntries reports the cap the database enforced against the total field', async () => {
+  db.reset();
+  db.rpc('append_timesheet_entries', () => {
+    throw new PostgresError(
+      'P0001',
+      'daily_limit_exceeded',
+      JSON.stringify({ date: '2025-05-12', existing_hours: 20 })
+    );
+  });
+
+  await assert.rejects(
+    postgresStore.appendEntries(ALICE, entries, 24),
+    (error: unknown) => error instanceof ValidationError && error.fieldErrors.total ===
+      '2025-05-12 already has 20 hours logged; adding 8 would exceed the 24 hour daily limit'
+  );
+});
@@ -0,0 +1,309 @@
+// A small stand-in for the PostgREST API behind `supabaseAdmin`, so the
+// functions can be tested without a database. Tables are plain arrays of rows
+// that tests seed and inspect directly. It understands the filters, upserts
+// and embeds the shared modules use, not PostgREST as a whole. Auth users
+// listed or looked up by the admin API come from the `auth.users` rows.
+
+export type Row = Record<string, unknown>;
+
+export interface TableOptions {
+  // Columns that must be unique together; upserts merge on them
+  key?: string[];
+  // Column values for a new row that the insert did not set
+  defaults?: () => Row;
+}
+
+export type RpcHandler = (args: Row, db: FakeSupabase) => unknown;
+
+// Raised from an RPC handler to answer with a Postgres error
+export class PostgresError extends Error {
+  code: string;
+  details: string | null;
+
+  constructor(code: string, message: string, details: string | null = null) {
+    super(message);
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export interface FakeSupabase {
+  url: string;
+  rows(table: string): Row[];
+  rpc(name: string, handler: RpcHandler): void;
+  // Refuse the next write to the table, as a database that went away would
+  failNextWrite(table: string): void;
+  // Empty every table, keeping their options and the RPC handlers
+  reset(): void;
+  close(): Promise<void>;
+}
+
+function parseValue(raw: string, current: unknown): unknown {
+  if (raw === 'null') return null;
+  if (typeof current === 'number') return Number(raw);
+  if (typeof current === 'boolean') return raw === 'true';
+  return raw.replace(/^"(.*)"$/, '$1');
+}
+
+function splitList(list: string): string[] {
+  return (list.match(/"[^"]*"|[^,]+/g) || []).map((value) => value.replace(/^"(.*)"$/, '$1'));
+}
+
+function matches(row: Row, column: string, filter: string): boolean {
+  const negated = filter.startsWith('not.');
+  const [op, ...rest] = (negated ? filter.slice(4) : filter).split('.');
+  const raw = rest.join('.');
+  const current = row[column] ?? null;
+  const value = parseValue(raw, current);
+
+  let result: boolean;
+  switch (op) {
+    case 'eq': result = current === value; break;
+    case 'neq': result = current !== value; break;
+    case 'gt': result = current !== null && (current as string) > (value as string); break;
+    case 'gte': result = current !== null && (current as string) >= (value as string); break;
+    case 'lt': result = current !== null && (current as string) < (value as string); break;
+    case 'lte': result = current !== null && (current as string) <= (value as string); break;
+    case 'is': result = current === value; break;
+    case 'in': result = splitList(raw.slice(1, -1)).map((item) => parseValue(item, current)).includes(current); break;
+    default: throw new Error(`Unsupported filter: ${column}=${filter}`);
+  }
+  return negated ? !result : result;
+}
+
+const RESERVED_PARAMS = new Set(['select', 'order', 'limit', 'offset', 'on_conflict', 'columns']);
+
+function filterRows(rows: Row[], params: URLSearchParams): Row[] {
+  return rows.filter((row) => [...params].every(([column, filter]) =>
+    RESERVED_PARAMS.has(column) || column.includes('.') || matches(row, column, filter)
+  ));
+}
+
+function orderRows(rows: Row[], order: string | null): Row[] {
+  if (!order) return rows;
+  const terms = order.split(',').map((term) => {
+    const [column, direction] = term.split('.');
+    return { column, sign: direction === 'desc' ? -1 : 1 };
+  });
+  return [...rows].sort((a, b) => {
+    for (const { column, sign } of terms) {
+      const left = a[column] as string;
+      const right = b[column] as string;
+      if (left < right) return -sign;
+      if (left > right) return sign;
+    }
+    return 0;
+  });
+}
+
+// Top-level entries of a select list, keeping embeds like `members(user_id)` whole
+function splitSelect(select: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of select.replace(/\s/g, '')) {
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    current += char;
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+export function startFakeSupabase(tables: Record<string, TableOptions> = {}): FakeSupabase {
+  const data = new Map<string, Row[]>();
+  const rpcs = new Map<string, RpcHandler>();
+  const failing = new Set<string>();
+
+  const rows = (table: string) => {
+    if (!data.has(table)) data.set(table, []);
+    return data.get(table)!;
+  };
+
+  // Embedded tables are joined on `<parent without the s>_id`, e.g.
+  // `projects` embeds `project_members` by `project_id`
+  function project(table: string, row: Row, select: string): Row {
+    if (select === '*') return { ...row };
+    const result: Row = {};
+    for (const part of splitSelect(select)) {
+      const embed = part.match(/^(?:(\w+):)?(\w+)(?:!\w+)?\((.*)\)$/);
+      if (embed) {
+        const [, alias, child, childSelect] = embed;
+        const foreignKey = `${table.replace(/s$/, '')}_id`;
+        result[alias || child] = rows(child)
+          .filter((childRow) => childRow[foreignKey] === row.id)
+          .map((childRow) => project(child, childRow, childSelect));
+        continue;
+      }
+      const [alias, column] = part.includes(':') ? part.split(':') : [part, part];
+      result[alias] = row[column] ?? null;
+    }
+    return result;
+  }
+
+  function sameKey(table: string, a: Row, b: Row, columns?: string[]): boolean {
+    const key = columns || tables[table]?.key || ['id'];
+    return key.every((column) => a[column] === b[column]);
+  }
+
+  function respond(body: unknown, status: number, headers: Record<string, string> = {}) {
+    return new Response(body === undefined ? null : JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json', ...headers }
+    });
+  }
+
+  function select(table: string, matched: Row[], params: URLSearchParams, req: Request) {
+    const selected = matched.map((row) => project(table, row, params.get('select') || '*'));
+    if ((req.headers.get('Accept') || '').includes('vnd.pgrst.object')) {
+      if (selected.length !== 1) {
+        return respond({
+          code: 'PGRST116',
+          message: 'JSON object requested, multiple (or no) rows returned',
+          details: `The result contains ${selected.length} rows`
+        }, 406);
+      }
+      return respond(selected[0], 200);
+    }
+    return respond(selected, 200);
+  }
+
+  function wantsRows(req: Request) {
+    return (req.headers.get('Prefer') || '').includes('return=representation');
+  }
+
+  async function handleTable(req: Request, table: string, params: URLSearchParams): Promise<Response> {
+    const tableRows = rows(table);
+    const prefer = req.headers.get('Prefer') || '';
+
+    if (req.method === 'GET' || req.method === 'HEAD') {
+      let matched = orderRows(filterRows(tableRows, params), params.get('order'));
+      const total = matched.length;
+      const offset = Number(params.get('offset') || 0);
+      const limit = params.has('limit') ? Number(params.get('limit')) : matched.length;
+      matched = matched.slice(offset, offset + limit);
+      const countHeaders: Record<string, string> = prefer.includes('count=')
+        ? { 'Content-Range': `${offset}-${offset + matched.length - 1}/${total}` }
+        : {};
+      if (req.method === 'HEAD') return new Response(null, { status: 200, headers: countHeaders });
+      const response = select(table, matched, params, req);
+      if (countHeaders['Content-Range']) {
+        response.headers.set('Content-Range', countHeaders['Content-Range']);
+      }
+      return response;
+    }
+
+    if (failing.delete(table)) {
+      return respond({ code: '57P01', message: 'terminating connection due to administrator command' }, 503);
+    }
+
+    if (req.method === 'POST') {
+      const body = await req.json();
+      const values: Row[] = Array.isArray(body) ? body : [body];
+      const merge = prefer.includes('resolution=merge-duplicates');
+      const ignore = prefer.includes('resolution=ignore-duplicates');
+      const conflictColumns = params.get('on_conflict')?.split(',');
+      const written: Row[] = [];
+
+      for (const value of values) {
+        const existing = tableRows.find((row) => sameKey(table, row, value, conflictColumns));
+        if (existing) {
+          if (ignore) continue;
+          if (!merge) {
+            return respond({
+              code: '23505',
+              message: `duplicate key value violates unique constraint "${table}_key"`,
+              details: null
+            }, 409);
+          }
+          Object.assign(existing, value);
+          written.push(existing);
+          continue;
+        }
+        const row = { id: crypto.randomUUID(), ...tables[table]?.defaults?.(), ...value };
+        tableRows.push(row);
+        written.push(row);
+      }
+      return wantsRows(req) ? select(table, written, params, req) : respond(undefined, 201);
+    }
+
+    if (req.method === 'PATCH') {
+      const changes = await req.json();
+      const matched = filterRows(tableRows, params);
+      matched.forEach((row) => Object.assign(row, changes));
+      return wantsRows(req) ? select(table, matched, params, req) : respond(undefined, 204);
+    }
+
+    if (req.method === 'DELETE') {
+      const matched = filterRows(tableRows, params);
+      data.set(table, tableRows.filter((row) => !matched.includes(row)));
+      const headers: Record<string, string> = prefer.includes('count=')
+        ? { 'Content-Range': `*/${matched.length}` }
+        : {};
+      return wantsRows(req) ? select(table, matched, params, req) : respond(undefined, 204, headers);
+    }
+
+    return respond({ message: `Unsupported method ${req.method}` }, 405);
+  }
+
+  async function handleRpc(req: Request, name: string): Promise<Response> {
+    const handler = rpcs.get(name);
+    if (!handler) {
+      return respond({ code: 'PGRST202', message: `Could not find the function ${name}` }, 404);
+    }
+    try {
+      const result = await handler(await req.json(), fake);
+      return respond(result ?? null, 200);
+    } catch (error) {
+      if (error instanceof PostgresError) {
+        return respond({ code: error.code, message: error.message, details: error.details }, 400);
+      }
+      throw error;
+    }
+  }
+
+  // The two admin calls the functions make: list every user, and one by id
+  function handleAuthAdmin(path: string): Response {
+    const users = rows('auth.users');
+    if (path === '') {
+      return respond({ users, aud: 'authenticated' }, 200);
+    }
+    const user = users.find((row) => row.id === path.slice(1));
+    return user ? respond(user, 200) : respond({ code: 404, msg: 'User not found' }, 404);
+  }
+
+  const server = Deno.serve({ port: 0, hostname: '127.0.0.1', onListen: () => {} }, (req) => {
+    const url = new URL(req.url);
+    if (url.pathname.startsWith('/auth/v1/admin/users')) {
+      return handleAuthAdmin(url.pathname.slice('/auth/v1/admin/users'.length));
+    }
+    const path = url.pathname.replace(/^\/rest\/v1\//, '');
+    return path.startsWith('rpc/')
+      ? handleRpc(req, path.slice(4))
+      : handleTable(req, path, url.searchParams);
+  });
+
+  const fake: FakeSupabase = {
+    url: `http://127.0.0.1:${server.addr.port}`,
+    rows,
+    rpc(name, handler) {
+      rpcs.set(name, handler);
+    },
+    failNextWrite(table) {
+      failing.add(table);
+    },
+    reset() {
+      data.clear();
+      failing.clear();
+    },
+    close() {
+      return server.shutdown();
+    }
+  };
+  return fake;
+}
@@ -0,0 +1,63 @@
+import { SignJWT, type JWTPayload } from 'npm:jose@5.2.3';
+import { startFakeSupabase } from './fakeSupabase.ts';
+
+// Import this before anything from `_shared`: `supabase.ts` reads its URL and
+// key when first loaded. The functions then talk to the fake PostgREST server
+// and keep timesheet entries in the in-memory store.
+
+export const JWT_SECRET = 'test-jwt-secret-with-at-least-32-characters';
+
+export const db = startFakeSupabase({
+  timesheet_approvals: { key: ['user_id', 'date'] },
+  timesheet_submissions: { key: ['user_id', 'idempotency_key'], defaults: () => ({ status: 'pending' }) },
+  timesheet_sheet_sync: { key: ['user_id', 'date'] },
+  user_spreadsheets: { key: ['user_id'] },
+  slack_notifications: { key: ['user_id', 'date', 'kind'] },
+  leave_days: { key: ['user_id', 'date'] },
+  leave_requests: {
+    defaults: () => ({ status: 'pending', review_comment: null, reviewed_at: null, created_at: new Date().toISOString() })
+  }
+});
+
+Deno.env.set('SUPABASE_URL', db.url);
+Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', 'test-service-role-key');
+Deno.env.set('JWT_SECRET', JWT_SECRET);
+Deno.env.set('TIMESHEET_STORE', 'memory');
+Deno.env.set('ORG_TIMEZONE', 'Asia/Kolkata');
+// Nothing is mirrored to Google in tests; the sync fails before calling it
+Deno.env.delete('GOOGLE_DRIVE_FOLDER_ID');
+Deno.env.delete('SLACK_WEBHOOK_URL');
+
+export interface TestUser {
+  id: string;
+  email: string;
+}
+
+export const ALICE: TestUser = { id: '00000000-0000-4000-8000-00000000a11c', email: 'alice@example.com' };
+export const BOB: TestUser = { id: '00000000-0000-4000-8000-000000000b0b', email: 'bob@example.com' };
+
+// A token shaped like a Supabase session access token, signed with the test secret
+export function signAccessToken(
+  claims: JWTPayload,
+  { secret = JWT_SECRET, expiresIn = '1h' }: { secret?: string; expiresIn?: string | number } = {}
+): Promise<string> {
+  return new SignJWT(claims)
+    .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+    .setIssuedAt()
+    .setExpirationTime(expiresIn)
+    .sign(new TextEncoder().encode(secret));
+}
+
+export function userToken(user: TestUser, claims: JWTPayload = {}): Promise<string> {
+  return signAccessToken({
+    sub: user.id,
+    email: user.email,
+    role: 'authenticated',
+    aud: 'authenticated',
+    ...claims
+  });
+}
+
+export function serviceRoleToken(): Promise<string> {
+  return signAccessToken({ role: 'service_role' });
+}
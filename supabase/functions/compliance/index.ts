@@ -0,0 +1,140 @@
+import { getAuthenticatedUser, requireRole } from '../_shared/auth.ts';
+import {
+  checkCompliance,
+  listChecks,
+  listRecentRuns,
+  missingStreaks,
+  recordRun,
+  type StoredCheck
+} from '../_shared/compliance.ts';
+import { addDays, isValidDateString, startOfWeek, todayInTimeZone } from '../_shared/dates.ts';
+import { errorMessage, errorStatus, HttpError } from '../_shared/errors.ts';
+import { jsonResponse, preflightResponse } from '../_shared/http.ts';
+import { displayName, getAllUsers } from '../_shared/team.ts';
+
+// Stored results of the daily monitor for the admin compliance page:
+//   GET  ?from=&to=   per-person and weekly team totals over the range
+//                     (default: the last 90 days), with the recent runs
+//   POST {date}       check every user for a past date again; the results
+//                     replace what was stored for that date
+
+const DEFAULT_RANGE_DAYS = 90;
+const MAX_RANGE_DAYS = 366;
+
+interface StatusCounts {
+  complete: number;
+  incomplete: number;
+  missing: number;
+  // Share of working days logged in full; null without any working days
+  complianceRate: number | null;
+}
+
+function countStatuses(checks: StoredCheck[]): StatusCounts {
+  const complete = checks.filter((check) => check.status === 'complete').length;
+  const incomplete = checks.filter((check) => check.status === 'incomplete').length;
+  const missing = checks.filter((check) => check.status === 'missing').length;
+  const working = complete + incomplete + missing;
+  return { complete, incomplete, missing, complianceRate: working > 0 ? complete / working : null };
+}
+
+async function getCompliance(params: URLSearchParams, today: string) {
+  const to = params.get('to') || today;
+  const from = params.get('from') || addDays(to, -(DEFAULT_RANGE_DAYS - 1));
+  if (!isValidDateString(from) || !isValidDateString(to)) {
+    throw new HttpError(400, 'from and to must be valid YYYY-MM-DD dates');
+  }
+  if (to < from || to > addDays(from, MAX_RANGE_DAYS - 1)) {
+    throw new HttpError(400, `to must be on or after from and at most ${MAX_RANGE_DAYS} days later`);
+  }
+
+  const [checks, users, runs] = await Promise.all([listChecks(from, to), getAllUsers(), listRecentRuns()]);
+
+  // Checks come back in date order, so each person's list is too
+  const checksByUser = new Map<string, StoredCheck[]>();
+  for (const check of checks) {
+    checksByUser.set(check.userId, [...(checksByUser.get(check.userId) || []), check]);
+  }
+
+  const people = users
+    .filter((user) => checksByUser.has(user.id))
+    .map((user) => {
+      const userChecks = checksByUser.get(user.id) || [];
+      const streaks = missingStreaks(userChecks);
+      return {
+        userId: user.id,
+        email: user.email,
+        name: displayName(user),
+        ...countStatuses(userChecks),
+        hoursLogged: userChecks.reduce((sum, check) => sum + check.hoursLogged, 0),
+        expected: userChecks.reduce((sum, check) => sum + check.expected, 0),
+        currentMissingStreak: streaks.current,
+        longestMissingStreak: streaks.longest
+      };
+    })
+    .sort((a, b) => b.missing - a.missing || a.name.localeCompare(b.name));
+
+  const checksByWeek = new Map<string, StoredCheck[]>();
+  for (const check of checks) {
+    const weekStart = startOfWeek(check.date);
+    checksByWeek.set(weekStart, [...(checksByWeek.get(weekStart) || []), check]);
+  }
+  const weeks = [...checksByWeek.entries()]
+    .map(([weekStart, weekChecks]) => ({ weekStart, ...countStatuses(weekChecks) }))
+    .sort((a, b) => a.weekStart.localeCompare(b.weekStart));
+
+  return { from, to, team: countStatuses(checks), people, weeks, runs };
+}
+
+const FAILURE_MESSAGES: Record<string, string> = {
+  GET: 'Failed to load compliance history',
+  POST: 'Failed to re-run timesheet check',
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return preflightResponse();
+  }
+
+  try {
+    if (!(req.method in FAILURE_MESSAGES)) {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+
+    const admin = await getAuthenticatedUser(req);
+    requireRole(admin, 'admin');
+    const today = todayInTimeZone(admin.timeZone);
+
+    if (req.method === 'GET') {
+      return jsonResponse(await getCompliance(new URL(req.url).searchParams, today));
+    }
+
+    const { date } = await req.json();
+    if (!isValidDateString(date)) {
+      throw new HttpError(400, 'date must be a valid YYYY-MM-DD date');
+    }
+    // Today is still being logged, so its result would not last
+    if (date >= today) {
+      throw new HttpError(400, 'Only dates before today can be checked');
+    }
+
+    const startedAt = Date.now();
+    const users = await getAllUsers();
+    const checks = await checkCompliance(users.map((user) => ({ user, date })));
+    const run = await recordRun('rerun', admin.id, checks, { durationMs: Date.now() - startedAt });
+
+    console.log('Re-ran timesheet check:', { date, runId: run.id, missing: run.missing, admin: admin.email });
+    return jsonResponse({
+      message: `Checked ${run.users} people for ${date}: ${run.missing} missing, ${run.incomplete} incomplete`,
+      run
+    });
+  } catch (error) {
+    console.error('Error in compliance history:', error);
+    return jsonResponse(
+      {
+        error: FAILURE_MESSAGES[req.method] || 'Failed to process request',
+        details: errorMessage(error),
+      },
+      errorStatus(error)
+    );
+  }
+});
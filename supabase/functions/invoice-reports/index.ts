@@ -0,0 +1,95 @@
+import { getAuthenticatedUser, requireRole } from '../_shared/auth.ts';
+import { toCsv } from '../_shared/csv.ts';
+import { errorMessage, errorStatus, HttpError } from '../_shared/errors.ts';
+import { corsHeaders, jsonResponse, preflightResponse } from '../_shared/http.ts';
+import {
+  buildInvoiceReport,
+  getStoredReport,
+  invoiceCsvRows,
+  invoiceHtml,
+  type InvoiceReport,
+  storeReport
+} from '../_shared/invoices.ts';
+
+// Monthly billable hours per client and project (admin only):
+//   GET  ?month=YYYY-MM&format=json|csv|html   the stored report, or a live
+//                                              preview if none was generated
+//   POST {month, force}                        generate and store the report;
+//                                              a stored month is only replaced
+//                                              when force is true
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  html: 'text/html; charset=utf-8'
+};
+
+function parseMonth(value: unknown): string {
+  if (typeof value !== 'string' || !/^\d{4}-(0[1-9]|1[0-2])$/.test(value)) {
+    throw new HttpError(400, 'month must be in YYYY-MM format');
+  }
+  return value;
+}
+
+function fileResponse(report: InvoiceReport, format: keyof typeof CONTENT_TYPES): Response {
+  const body = format === 'csv' ? toCsv(invoiceCsvRows(report)) : invoiceHtml(report);
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `${format === 'csv' ? 'attachment' : 'inline'}; filename="invoice-${report.month}.${format}"`,
+      'Access-Control-Expose-Headers': 'Content-Disposition'
+    }
+  });
+}
+
+const FAILURE_MESSAGES: Record<string, string> = {
+  GET: 'Failed to load invoice report',
+  POST: 'Failed to generate invoice report',
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return preflightResponse();
+  }
+
+  try {
+    if (!(req.method in FAILURE_MESSAGES)) {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+
+    const user = await getAuthenticatedUser(req);
+    requireRole(user, 'admin');
+
+    if (req.method === 'POST') {
+      const { month, force } = await req.json();
+      const report = await buildInvoiceReport(parseMonth(month));
+      await storeReport(report, user.id, force === true);
+      console.log('Generated invoice report:', { month: report.month, amount: report.totals.amount, force: force === true, admin: user.email });
+      return jsonResponse({ report, stored: true });
+    }
+
+    const params = new URL(req.url).searchParams;
+    const month = parseMonth(params.get('month'));
+    const format = params.get('format') || 'json';
+    if (format !== 'json' && !(format in CONTENT_TYPES)) {
+      throw new HttpError(400, "format must be 'json', 'csv' or 'html'");
+    }
+
+    const stored = await getStoredReport(month);
+    const report = stored || await buildInvoiceReport(month);
+
+    if (format === 'json') {
+      return jsonResponse({ report, stored: stored !== null });
+    }
+    return fileResponse(report, format as keyof typeof CONTENT_TYPES);
+  } catch (error) {
+    console.error('Error building invoice report:', error);
+    return jsonResponse(
+      {
+        error: FAILURE_MESSAGES[req.method] || 'Failed to process request',
+        details: errorMessage(error),
+      },
+      errorStatus(error)
+    );
+  }
+});
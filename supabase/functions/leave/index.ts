@@ -0,0 +1,206 @@
+import { type AuthenticatedUser, getAuthenticatedUser, requireRole } from '../_shared/auth.ts';
+import { isValidDateString, todayInTimeZone } from '../_shared/dates.ts';
+import { errorMessage, errorStatus, HttpError } from '../_shared/errors.ts';
+import { jsonResponse, preflightResponse } from '../_shared/http.ts';
+import {
+  approveLeaveRequest,
+  cancelLeaveRequest,
+  createLeaveRequest,
+  getBalances,
+  isLeaveType,
+  type LeaveRequestInput,
+  listLeaveRequests,
+  rejectLeaveRequest,
+  setAllowance
+} from '../_shared/leave.ts';
+import { supabaseAdmin } from '../_shared/supabase.ts';
+import { syncDay } from '../_shared/sync.ts';
+import { displayName, getAllUsers } from '../_shared/team.ts';
+
+// Leave requests:
+//   GET     ?year=          the caller's requests and balances for the year
+//   GET     ?scope=team     pending requests from everyone (admin)
+//   POST                    file a request
+//   DELETE  ?id=            withdraw one of the caller's requests
+//   PATCH   ?id=            { decision, comment } approve or reject (admin)
+//   PUT                     { userId, year, type, days } set an allowance (admin)
+
+function parseRequest(body: Record<string, unknown>): LeaveRequestInput {
+  const problems: string[] = [];
+
+  if (!isLeaveType(body.type)) {
+    problems.push('type must be annual, sick, casual or unpaid');
+  }
+
+  const startDate = body.startDate;
+  const endDate = body.endDate ?? body.startDate;
+  if (!isValidDateString(startDate) || !isValidDateString(endDate)) {
+    problems.push('startDate and endDate must be valid YYYY-MM-DD dates');
+  } else if (endDate < startDate) {
+    problems.push('endDate cannot be before startDate');
+  }
+
+  const halfDay = body.halfDay === true;
+  if (halfDay && startDate !== endDate) {
+    problems.push('A half day must start and end on the same date');
+  }
+
+  if (problems.length > 0) {
+    throw new HttpError(400, problems.join('; '));
+  }
+
+  return {
+    type: body.type as LeaveRequestInput['type'],
+    startDate: startDate as string,
+    endDate: endDate as string,
+    halfDay,
+    reason: typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : null
+  };
+}
+
+function getIdParam(req: Request): string {
+  const id = new URL(req.url).searchParams.get('id');
+  if (!id) {
+    throw new HttpError(400, 'id is required');
+  }
+  return id;
+}
+
+async function getUserEmail(userId: string): Promise<string> {
+  const { data, error } = await supabaseAdmin.auth.admin.getUserById(userId);
+  if (error || !data.user?.email) {
+    throw new HttpError(404, 'User not found');
+  }
+  return data.user.email;
+}
+
+async function getLeave(req: Request, user: AuthenticatedUser) {
+  const params = new URL(req.url).searchParams;
+
+  if (params.get('scope') === 'team') {
+    requireRole(user, 'admin');
+    const [requests, users] = await Promise.all([
+      listLeaveRequests({ status: 'pending' }),
+      getAllUsers()
+    ]);
+    const names = new Map(users.map((member) => [member.id, { name: displayName(member), email: member.email }]));
+    return {
+      requests: requests.map((request) => ({ ...request, user: names.get(request.userId) || null }))
+    };
+  }
+
+  const year = Number(params.get('year') || todayInTimeZone(user.timeZone).slice(0, 4));
+  if (!Number.isInteger(year)) {
+    throw new HttpError(400, 'year must be a four digit year');
+  }
+
+  const [requests, balances] = await Promise.all([
+    listLeaveRequests({ userId: user.id, from: `${year}-01-01`, to: `${year}-12-31` }),
+    getBalances(user.id, year)
+  ]);
+  return { year, requests, balances };
+}
+
+async function decide(req: Request, reviewer: AuthenticatedUser) {
+  requireRole(reviewer, 'admin');
+  const id = getIdParam(req);
+  const body = await req.json();
+  const comment = typeof body.comment === 'string' && body.comment.trim() ? body.comment.trim() : null;
+
+  if (body.decision === 'rejected') {
+    if (!comment) {
+      throw new HttpError(400, 'A comment explaining the rejection is required');
+    }
+    await rejectLeaveRequest(id, reviewer.id, comment);
+    return { message: 'Leave rejected' };
+  }
+  if (body.decision !== 'approved') {
+    throw new HttpError(400, "decision must be 'approved' or 'rejected'");
+  }
+
+  const { request, dates } = await approveLeaveRequest(id, reviewer.id, comment);
+
+  // Write the leave rows into the employee's spreadsheet
+  const email = await getUserEmail(request.userId);
+  for (const date of dates) {
+    await syncDay(request.userId, email, date);
+  }
+
+  console.log('Approved leave:', { id, userId: request.userId, dates, reviewer: reviewer.email });
+  return { message: 'Leave approved', dates };
+}
+
+async function saveAllowance(req: Request, admin: AuthenticatedUser) {
+  requireRole(admin, 'admin');
+  const body = await req.json();
+  const days = Number(body.days);
+
+  if (typeof body.userId !== 'string' || !body.userId) {
+    throw new HttpError(400, 'userId is required');
+  }
+  if (!Number.isInteger(body.year)) {
+    throw new HttpError(400, 'year must be a four digit year');
+  }
+  if (!isLeaveType(body.type)) {
+    throw new HttpError(400, 'type must be annual, sick, casual or unpaid');
+  }
+  if (!(days >= 0)) {
+    throw new HttpError(400, 'days must be zero or more');
+  }
+
+  await setAllowance(body.userId, body.year, body.type, days);
+  return { message: 'Allowance saved' };
+}
+
+const FAILURE_MESSAGES: Record<string, string> = {
+  GET: 'Failed to load leave',
+  POST: 'Failed to request leave',
+  DELETE: 'Failed to cancel leave',
+  PATCH: 'Failed to record leave decision',
+  PUT: 'Failed to save leave allowance',
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return preflightResponse();
+  }
+
+  try {
+    if (!(req.method in FAILURE_MESSAGES)) {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+
+    const user = await getAuthenticatedUser(req);
+
+    switch (req.method) {
+      case 'GET':
+        return jsonResponse(await getLeave(req, user));
+      case 'POST': {
+        const request = await createLeaveRequest(user.id, parseRequest(await req.json()));
+        console.log('Leave requested:', { userEmail: user.email, id: request.id, days: request.days });
+        return jsonResponse({ message: 'Leave requested', request }, 201);
+      }
+      case 'DELETE': {
+        const dates = await cancelLeaveRequest(getIdParam(req), user.id, todayInTimeZone(user.timeZone));
+        // Take any approved leave back out of the spreadsheet
+        for (const date of dates) {
+          await syncDay(user.id, user.email, date);
+        }
+        return jsonResponse({ message: 'Leave cancelled' });
+      }
+      case 'PATCH':
+        return jsonResponse(await decide(req, user));
+      default:
+        return jsonResponse(await saveAllowance(req, user));
+    }
+  } catch (error) {
+    console.error('Error handling leave request:', error);
+    return jsonResponse(
+      {
+        error: FAILURE_MESSAGES[req.method] || 'Failed to process request',
+        details: errorMessage(error),
+      },
+      errorStatus(error)
+    );
+  }
+});
@@ -0,0 +1,157 @@
+import { type AuthenticatedUser, getAuthenticatedUser, requireRole } from '../_shared/auth.ts';
+import { errorMessage, errorStatus, HttpError } from '../_shared/errors.ts';
+import { jsonResponse, preflightResponse } from '../_shared/http.ts';
+import {
+  createProject,
+  deleteProject,
+  listLegacyProjectNames,
+  listProjects,
+  listProjectsForUser,
+  mapLegacyProject,
+  type ProjectInput,
+  updateProject
+} from '../_shared/projects.ts';
+import { displayName, getAllUsers } from '../_shared/team.ts';
+
+function parseProject(body: Record<string, unknown>): ProjectInput {
+  const problems: string[] = [];
+
+  const code = typeof body.code === 'string' ? body.code.trim().toUpperCase() : '';
+  if (!/^[A-Z0-9][A-Z0-9-]*$/.test(code)) {
+    problems.push('code must contain only letters, digits and dashes');
+  }
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    problems.push('name is required');
+  }
+
+  const client = typeof body.client === 'string' && body.client.trim() ? body.client.trim() : null;
+
+  const billable = body.billable === true;
+  const hourlyRate = body.hourlyRate === null || body.hourlyRate === undefined || body.hourlyRate === ''
+    ? null
+    : Number(body.hourlyRate);
+  if (hourlyRate !== null && !(hourlyRate >= 0)) {
+    problems.push('hourlyRate must be zero or more');
+  } else if (billable && hourlyRate === null) {
+    problems.push('billable projects need an hourly rate');
+  }
+
+  const memberIds = body.memberIds ?? [];
+  if (!Array.isArray(memberIds) || !memberIds.every((id) => typeof id === 'string')) {
+    problems.push('memberIds must be a list of user ids');
+  }
+
+  if (problems.length > 0) {
+    throw new HttpError(400, problems.join('; '));
+  }
+
+  return {
+    code,
+    name,
+    client,
+    active: body.active !== false,
+    billable,
+    hourlyRate,
+    memberIds: memberIds as string[]
+  };
+}
+
+function getIdParam(req: Request): string {
+  const id = new URL(req.url).searchParams.get('id');
+  if (!id) {
+    throw new HttpError(400, 'id is required');
+  }
+  return id;
+}
+
+// Everyone gets the projects they can log time against; admins can ask for
+// the whole catalogue along with the users that can be assigned to it, or
+// for the project names on entries that predate the catalogue
+async function getProjects(req: Request, user: AuthenticatedUser) {
+  const params = new URL(req.url).searchParams;
+  if (params.get('legacy') === 'true') {
+    requireRole(user, 'admin');
+    return { legacyNames: await listLegacyProjectNames() };
+  }
+
+  if (params.get('all') !== 'true') {
+    return { projects: await listProjectsForUser(user.id) };
+  }
+
+  requireRole(user, 'admin');
+  const [projects, users] = await Promise.all([listProjects(), getAllUsers()]);
+  return {
+    projects,
+    users: users
+      .map((member) => ({ id: member.id, email: member.email, name: displayName(member) }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  };
+}
+
+const FAILURE_MESSAGES: Record<string, string> = {
+  GET: 'Failed to load projects',
+  POST: 'Failed to create project',
+  PUT: 'Failed to update project',
+  DELETE: 'Failed to delete project',
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return preflightResponse();
+  }
+
+  try {
+    if (!['GET', 'POST', 'PUT', 'DELETE'].includes(req.method)) {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+
+    const user = await getAuthenticatedUser(req);
+
+    if (req.method === 'GET') {
+      return jsonResponse(await getProjects(req, user));
+    }
+
+    // Only admins manage the catalogue
+    requireRole(user, 'admin');
+
+    if (req.method === 'DELETE') {
+      await deleteProject(getIdParam(req));
+      return jsonResponse({ message: 'Project deleted' });
+    }
+
+    if (req.method === 'POST' && new URL(req.url).searchParams.get('action') === 'map-legacy') {
+      const body = await req.json();
+      const name = typeof body.name === 'string' ? body.name : '';
+      const code = typeof body.code === 'string' ? body.code.trim().toUpperCase() : '';
+      if (!name || !code) {
+        throw new HttpError(400, 'name and code are required');
+      }
+      const entriesUpdated = await mapLegacyProject(name, code);
+      console.log('Mapped legacy project:', { name, code, entriesUpdated, admin: user.email });
+      return jsonResponse({ message: `Entries for ${name} now use ${code}`, entriesUpdated });
+    }
+
+    const input = parseProject(await req.json());
+
+    if (req.method === 'PUT') {
+      await updateProject(getIdParam(req), input);
+      console.log('Updated project:', { code: input.code, admin: user.email });
+      return jsonResponse({ message: 'Project updated' });
+    }
+
+    const id = await createProject(input);
+    console.log('Created project:', { code: input.code, admin: user.email });
+    return jsonResponse({ message: 'Project created', id }, 201);
+  } catch (error) {
+    console.error('Error managing projects:', error);
+    return jsonResponse(
+      {
+        error: FAILURE_MESSAGES[req.method] || 'Failed to process request',
+        details: errorMessage(error),
+      },
+      errorStatus(error)
+    );
+  }
+});
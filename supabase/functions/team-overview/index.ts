@@ -0,0 +1,72 @@
+import { getApprovals } from '../_shared/approvals.ts';
+import { getAuthenticatedUser, requireRole } from '../_shared/auth.ts';
+import { isValidDateString, startOfWeek, todayInTimeZone, weekDates } from '../_shared/dates.ts';
+import { errorMessage, errorStatus, HttpError } from '../_shared/errors.ts';
+import { jsonResponse, preflightResponse } from '../_shared/http.ts';
+import { expectedHours, loadWorkPolicy } from '../_shared/policy.ts';
+import { displayName, getAllUsers, getHoursByUser, userDateKey } from '../_shared/team.ts';
+
+// Hours logged, hours expected by the working-hours policy and review status per day for every user over one week, for
+// the admin page
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return preflightResponse();
+  }
+
+  try {
+    if (req.method !== 'GET') {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+
+    const admin = await getAuthenticatedUser(req);
+    requireRole(admin, 'admin');
+
+    const requested = new URL(req.url).searchParams.get('week') || todayInTimeZone(admin.timeZone);
+    if (!isValidDateString(requested)) {
+      throw new HttpError(400, 'week must be a valid YYYY-MM-DD date');
+    }
+
+    const weekStart = startOfWeek(requested);
+    const dates = weekDates(weekStart);
+    const [users, hoursByUser, approvals, policy] = await Promise.all([
+      getAllUsers(),
+      getHoursByUser(dates),
+      getApprovals(dates[0], dates[dates.length - 1]),
+      loadWorkPolicy(dates[0], dates[dates.length - 1])
+    ]);
+
+    const rows = users
+      .map((user) => {
+        const hours = Object.fromEntries(
+          dates.map((date) => [date, hoursByUser.get(userDateKey(user.id, date)) || 0])
+        );
+        const expected = Object.fromEntries(
+          dates.map((date) => [date, expectedHours(policy, user.id, date).expected])
+        );
+        const statuses = Object.fromEntries(
+          dates.map((date) => [date, approvals.get(userDateKey(user.id, date)) || 'draft'])
+        );
+        return {
+          id: user.id,
+          email: user.email,
+          name: displayName(user),
+          hours,
+          expected,
+          statuses,
+          total: Object.values(hours).reduce((sum, value) => sum + value, 0)
+        };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    return jsonResponse({ weekStart, dates, users: rows });
+  } catch (error) {
+    console.error('Error loading team overview:', error);
+    return jsonResponse(
+      {
+        error: 'Failed to load team overview',
+        details: errorMessage(error),
+      },
+      errorStatus(error)
+    );
+  }
+});
@@ -0,0 +1,86 @@
+import { decide, reopen, type ReviewAction } from '../_shared/approvals.ts';
+import { getAuthenticatedUser, requireRole } from '../_shared/auth.ts';
+import { isValidDateString } from '../_shared/dates.ts';
+import { errorMessage, errorStatus, HttpError } from '../_shared/errors.ts';
+import { jsonResponse, preflightResponse } from '../_shared/http.ts';
+import { supabaseAdmin } from '../_shared/supabase.ts';
+import { syncDay } from '../_shared/sync.ts';
+
+interface DecisionRequest {
+  userId: string;
+  dates: string[];
+  decision: ReviewAction;
+  comment: string | null;
+}
+
+function parseDecision(body: Record<string, unknown>): DecisionRequest {
+  const { userId, dates, decision } = body;
+  const comment = typeof body.comment === 'string' && body.comment.trim() ? body.comment.trim() : null;
+
+  if (typeof userId !== 'string' || !userId) {
+    throw new HttpError(400, 'userId is required');
+  }
+  if (!Array.isArray(dates) || dates.length === 0 || !dates.every(isValidDateString)) {
+    throw new HttpError(400, 'dates must be a non-empty list of YYYY-MM-DD dates');
+  }
+  if (decision !== 'approved' && decision !== 'rejected' && decision !== 'reopened') {
+    throw new HttpError(400, "decision must be 'approved', 'rejected' or 'reopened'");
+  }
+  if (decision === 'rejected' && !comment) {
+    throw new HttpError(400, 'A comment explaining the rejection is required');
+  }
+  if (decision === 'reopened' && !comment) {
+    throw new HttpError(400, 'A comment explaining why the days are reopened is required');
+  }
+
+  return { userId, dates, decision, comment };
+}
+
+// Approvers record a decision on a user's submitted days, usually a whole
+// week, or reopen approved days so the user can change them again
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return preflightResponse();
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+
+    const reviewer = await getAuthenticatedUser(req);
+    requireRole(reviewer, 'admin');
+
+    const { userId, dates, decision, comment } = parseDecision(await req.json());
+    if (userId === reviewer.id) {
+      throw new HttpError(403, 'You cannot review your own timesheet');
+    }
+
+    const { data, error } = await supabaseAdmin.auth.admin.getUserById(userId);
+    if (error || !data.user?.email) {
+      throw new HttpError(404, 'User not found');
+    }
+
+    const updated = decision === 'reopened'
+      ? await reopen(userId, dates, reviewer.id, comment as string)
+      : await decide(userId, dates, decision, reviewer.id, comment);
+
+    // Refresh the Status column in the user's spreadsheet
+    for (const date of updated) {
+      await syncDay(userId, data.user.email, date);
+    }
+
+    console.log('Recorded timesheet decision:', { userId, decision, updated, reviewer: reviewer.email });
+
+    return jsonResponse({ message: `Timesheet ${decision}`, updated });
+  } catch (error) {
+    console.error('Error recording timesheet decision:', error);
+    return jsonResponse(
+      {
+        error: 'Failed to record decision',
+        details: errorMessage(error),
+      },
+      errorStatus(error)
+    );
+  }
+});
@@ -0,0 +1,122 @@
+import { getAuthenticatedUser } from '../_shared/auth.ts';
+import { isValidDateString } from '../_shared/dates.ts';
+import { errorMessage, errorStatus, HttpError } from '../_shared/errors.ts';
+import { jsonResponse, preflightResponse } from '../_shared/http.ts';
+import { supabaseAdmin } from '../_shared/supabase.ts';
+
+// Unsubmitted Dashboard forms kept per user and date:
+//   GET     ?date=          the draft for the date, or null
+//   PUT                     { date, projects, editing, updatedAt } save it
+//   DELETE  ?date=          discard it
+//
+// Drafts are stored as typed and only validated when actually submitted.
+
+// Large enough for any realistic day, small enough to stop the table being used as storage
+const MAX_DRAFT_BYTES = 64 * 1024;
+
+function getDateParam(req: Request): string {
+  const date = new URL(req.url).searchParams.get('date');
+  if (!isValidDateString(date)) {
+    throw new HttpError(400, 'date must be a valid YYYY-MM-DD date');
+  }
+  return date;
+}
+
+async function getDraft(userId: string, date: string) {
+  const { data, error } = await supabaseAdmin
+    .from('timesheet_drafts')
+    .select('date, projects, editing, updated_at')
+    .eq('user_id', userId)
+    .eq('date', date)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load draft: ${error.message}`);
+  }
+
+  return data
+    ? { date: data.date, projects: data.projects, editing: data.editing, updatedAt: data.updated_at }
+    : null;
+}
+
+async function saveDraft(userId: string, body: Record<string, unknown>) {
+  if (!isValidDateString(body.date)) {
+    throw new HttpError(400, 'date must be a valid YYYY-MM-DD date');
+  }
+  if (!Array.isArray(body.projects)) {
+    throw new HttpError(400, 'projects must be a list');
+  }
+  if (JSON.stringify(body.projects).length > MAX_DRAFT_BYTES) {
+    throw new HttpError(413, 'Draft is too large');
+  }
+
+  const updatedAt = typeof body.updatedAt === 'string' && !Number.isNaN(Date.parse(body.updatedAt))
+    ? body.updatedAt
+    : new Date().toISOString();
+
+  const { error } = await supabaseAdmin
+    .from('timesheet_drafts')
+    .upsert({
+      user_id: userId,
+      date: body.date,
+      projects: body.projects,
+      editing: body.editing === true,
+      updated_at: updatedAt
+    });
+
+  if (error) {
+    throw new Error(`Failed to save draft: ${error.message}`);
+  }
+}
+
+async function deleteDraft(userId: string, date: string) {
+  const { error } = await supabaseAdmin
+    .from('timesheet_drafts')
+    .delete()
+    .eq('user_id', userId)
+    .eq('date', date);
+
+  if (error) {
+    throw new Error(`Failed to discard draft: ${error.message}`);
+  }
+}
+
+const FAILURE_MESSAGES: Record<string, string> = {
+  GET: 'Failed to load draft',
+  PUT: 'Failed to save draft',
+  DELETE: 'Failed to discard draft',
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return preflightResponse();
+  }
+
+  try {
+    if (!(req.method in FAILURE_MESSAGES)) {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+
+    const user = await getAuthenticatedUser(req);
+
+    switch (req.method) {
+      case 'GET':
+        return jsonResponse({ draft: await getDraft(user.id, getDateParam(req)) });
+      case 'PUT':
+        await saveDraft(user.id, await req.json());
+        return jsonResponse({ message: 'Draft saved' });
+      default:
+        await deleteDraft(user.id, getDateParam(req));
+        return jsonResponse({ message: 'Draft discarded' });
+    }
+  } catch (error) {
+    console.error('Error handling draft request:', error);
+    return jsonResponse(
+      {
+        error: FAILURE_MESSAGES[req.method] || 'Failed to process request',
+        details: errorMessage(error),
+      },
+      errorStatus(error)
+    );
+  }
+});
@@ -0,0 +1,118 @@
+// SheetJS is no longer published to npm; 0.18.5 there has known advisories
+// @deno-types="https://cdn.sheetjs.com/xlsx-0.20.3/package/types/index.d.ts"
+import * as XLSX from 'https://cdn.sheetjs.com/xlsx-0.20.3/package/xlsx.mjs';
+import { type AuthenticatedUser, getAuthenticatedUser, requireRole } from '../_shared/auth.ts';
+import { toCsv } from '../_shared/csv.ts';
+import { addDays, isValidDateString } from '../_shared/dates.ts';
+import { errorMessage, errorStatus, HttpError } from '../_shared/errors.ts';
+import { corsHeaders, jsonResponse, preflightResponse } from '../_shared/http.ts';
+import { supabaseAdmin } from '../_shared/supabase.ts';
+import { getTimesheetStore } from '../_shared/store.ts';
+import { ENTRY_COLUMNS } from '../_shared/timesheets.ts';
+
+// Download entries as a file with the spreadsheet's Date/Project/Task/Hours
+// columns, which the Dashboard's import reads back:
+//   GET  ?from=&to=&format=csv|xlsx   the caller's entries
+//        &project=CODE                only that project
+//        &userId=                     someone else's entries (admin)
+
+const MAX_RANGE_DAYS = 366;
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+type ExportFormat = keyof typeof CONTENT_TYPES;
+
+interface ExportRequest {
+  userId: string;
+  from: string;
+  to: string;
+  project: string | null;
+  format: ExportFormat;
+}
+
+function parseExportRequest(req: Request, user: AuthenticatedUser): ExportRequest {
+  const params = new URL(req.url).searchParams;
+  const from = params.get('from') || '';
+  const to = params.get('to') || '';
+  const format = params.get('format') || 'csv';
+
+  if (!isValidDateString(from) || !isValidDateString(to)) {
+    throw new HttpError(400, 'from and to must be valid YYYY-MM-DD dates');
+  }
+  if (to < from || to > addDays(from, MAX_RANGE_DAYS - 1)) {
+    throw new HttpError(400, `to must be on or after from and at most ${MAX_RANGE_DAYS} days later`);
+  }
+  if (!(format in CONTENT_TYPES)) {
+    throw new HttpError(400, "format must be 'csv' or 'xlsx'");
+  }
+
+  const userId = params.get('userId') || user.id;
+  if (userId !== user.id) {
+    requireRole(user, 'admin');
+  }
+
+  return { userId, from, to, project: params.get('project') || null, format: format as ExportFormat };
+}
+
+async function getUserEmail(userId: string): Promise<string> {
+  const { data, error } = await supabaseAdmin.auth.admin.getUserById(userId);
+  if (error || !data.user?.email) {
+    throw new HttpError(404, 'User not found');
+  }
+  return data.user.email;
+}
+
+// Strings become text cells, which Excel never evaluates, so unlike the CSV
+// they are written as they are
+function toXlsx(rows: (string | number)[][]): Uint8Array {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Timesheet');
+  return new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }));
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return preflightResponse();
+  }
+
+  try {
+    if (req.method !== 'GET') {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+
+    const user = await getAuthenticatedUser(req);
+    const { userId, from, to, project, format } = parseExportRequest(req, user);
+    const email = userId === user.id ? user.email : await getUserEmail(userId);
+
+    const entries = (await getTimesheetStore().listEntries({ id: userId, email }, from, to))
+      .filter((entry) => !project || entry.project === project);
+    const rows = [
+      ENTRY_COLUMNS,
+      ...entries.map((entry) => [entry.date, entry.project, entry.description, entry.hours])
+    ];
+
+    console.log('Exporting timesheet:', { userEmail: email, from, to, project, format, rows: entries.length, by: user.email });
+
+    const fileName = `timesheet-${email}-${from}-to-${to}${project ? `-${project}` : ''}.${format}`;
+    return new Response(format === 'csv' ? toCsv(rows) : toXlsx(rows), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Access-Control-Expose-Headers': 'Content-Disposition'
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting timesheet:', error);
+    return jsonResponse(
+      {
+        error: 'Failed to export timesheet',
+        details: errorMessage(error),
+      },
+      errorStatus(error)
+    );
+  }
+});
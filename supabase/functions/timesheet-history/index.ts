@@ -0,0 +1,83 @@
+import { type AuthenticatedUser, getAuthenticatedUser } from '../_shared/auth.ts';
+import { addDays, isValidDateString, todayInTimeZone } from '../_shared/dates.ts';
+import { errorMessage, errorStatus, HttpError } from '../_shared/errors.ts';
+import { jsonResponse, preflightResponse } from '../_shared/http.ts';
+import { dayCompliance, expectedHours, loadWorkPolicy } from '../_shared/policy.ts';
+import { getTimesheetStore } from '../_shared/store.ts';
+import { groupByProject } from '../_shared/timesheets.ts';
+
+// The caller's own entries for the history page:
+//   GET  ?from=&to=   every date in the range with its entries, the hours
+//                     expected by the working-hours policy and the status the
+//                     daily monitor would give it
+//
+// Dates after today are `upcoming` rather than missing.
+
+const MAX_RANGE_DAYS = 366;
+
+function getRangeParams(req: Request): { from: string; to: string } {
+  const params = new URL(req.url).searchParams;
+  const from = params.get('from') || '';
+  const to = params.get('to') || '';
+  if (!isValidDateString(from) || !isValidDateString(to)) {
+    throw new HttpError(400, 'from and to must be valid YYYY-MM-DD dates');
+  }
+  if (to < from || to > addDays(from, MAX_RANGE_DAYS - 1)) {
+    throw new HttpError(400, `to must be on or after from and at most ${MAX_RANGE_DAYS} days later`);
+  }
+  return { from, to };
+}
+
+async function getHistory(user: AuthenticatedUser, from: string, to: string) {
+  const [entries, policy] = await Promise.all([
+    getTimesheetStore().listEntries(user, from, to),
+    loadWorkPolicy(from, to)
+  ]);
+  const today = todayInTimeZone(user.timeZone);
+
+  const days = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const dayEntries = entries.filter((entry) => entry.date === date);
+    const hours = dayEntries.reduce((sum, entry) => sum + entry.hours, 0);
+    const expectation = expectedHours(policy, user.id, date);
+
+    days.push({
+      date,
+      hours,
+      expected: expectation.expected,
+      holiday: expectation.holiday,
+      leaveHours: expectation.leaveHours,
+      status: date > today
+        ? 'upcoming'
+        : dayCompliance(expectation.expected, dayEntries.length > 0 ? hours : undefined),
+      projects: groupByProject(dayEntries)
+    });
+  }
+
+  return { from, to, today, days };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return preflightResponse();
+  }
+
+  try {
+    if (req.method !== 'GET') {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+
+    const user = await getAuthenticatedUser(req);
+    const { from, to } = getRangeParams(req);
+    return jsonResponse(await getHistory(user, from, to));
+  } catch (error) {
+    console.error('Error loading timesheet history:', error);
+    return jsonResponse(
+      {
+        error: 'Failed to load history',
+        details: errorMessage(error),
+      },
+      errorStatus(error)
+    );
+  }
+});
@@ -0,0 +1,57 @@
+import { requireServiceRole } from '../_shared/auth.ts';
+import { errorMessage, errorStatus, HttpError } from '../_shared/errors.ts';
+import { findSpreadsheet, listSpreadsheets, migrateLegacyTabs, type TabMigrationResult } from '../_shared/sheets.ts';
+
+// One-off migration from the month-name tabs to year-scoped "YYYY-MM" tabs.
+// Migrates every spreadsheet in the folder, or only `?email=` when given.
+Deno.serve(async (req) => {
+  try {
+    if (req.method !== 'POST') {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+
+    await requireServiceRole(req);
+
+    const email = new URL(req.url).searchParams.get('email');
+    let spreadsheetIds: string[];
+    if (email) {
+      const spreadsheetId = await findSpreadsheet(email.toLowerCase());
+      if (!spreadsheetId) {
+        throw new HttpError(404, `No spreadsheet found for ${email}`);
+      }
+      spreadsheetIds = [spreadsheetId];
+    } else {
+      spreadsheetIds = (await listSpreadsheets()).map((file) => file.id);
+    }
+
+    const results: TabMigrationResult[] = [];
+    for (const spreadsheetId of spreadsheetIds) {
+      const result = await migrateLegacyTabs(spreadsheetId);
+      console.log('Migrated spreadsheet tabs:', result);
+      results.push(result);
+    }
+
+    return new Response(
+      JSON.stringify({
+        message: 'Tab migration completed',
+        results
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  } catch (error) {
+    console.error('Error migrating spreadsheet tabs:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to migrate spreadsheet tabs',
+        details: errorMessage(error)
+      }),
+      {
+        status: errorStatus(error),
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
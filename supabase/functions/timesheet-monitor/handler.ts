@@ -0,0 +1,292 @@
+import { requireServiceRole } from '../_shared/auth.ts';
+import { addDays, minutesInTimeZone, resolveTimeZone, todayInTimeZone } from '../_shared/dates.ts';
+import { getOrgTimeZone, getReminderRules, getRequiredEnvVar } from '../_shared/env.ts';
+import { errorMessage, errorStatus } from '../_shared/errors.ts';
+import {
+  checkCompliance,
+  type ComplianceCheck,
+  listChecks,
+  missingStreaks,
+  recordRun,
+  type StoredCheck
+} from '../_shared/compliance.ts';
+import { notifyOnce } from '../_shared/slack.ts';
+import { displayName, getAllUsers } from '../_shared/team.ts';
+
+// How far back stored checks are read to measure a run of missing days
+const ESCALATION_LOOKBACK_DAYS = 90;
+
+// Enhanced CORS headers with additional security headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Max-Age': '86400',
+  'Access-Control-Allow-Credentials': 'true',
+  'Vary': 'Origin'
+};
+
+// A user who missed their hours on the date they were checked for
+interface MonitorReport {
+  user: ComplianceCheck['user'];
+  date: string;
+  status: ComplianceCheck['status'];
+  hoursLogged: number;
+  expectedHours: number;
+}
+
+async function sendSlackNotification(reports: MonitorReport[]) {
+  const SLACK_WEBHOOK_URL = getRequiredEnvVar('SLACK_WEBHOOK_URL');
+
+  // Group reports by status
+  const missingReports = reports.filter(r => r.status === 'missing');
+  const incompleteReports = reports.filter(r => r.status === 'incomplete');
+
+  const blocks: Record<string, unknown>[] = [
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: '📊 Daily Timesheet Report',
+        emoji: true
+      }
+    },
+    {
+      type: 'divider'
+    }
+  ];
+
+  // Add missing timesheet section if there are any
+  if (missingReports.length > 0) {
+    blocks.push(
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: '*People who didn\'t submit the timesheet*'
+        }
+      },
+      ...missingReports.map(report => ({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `• ${report.user.user_metadata?.display_name || 'Unknown'} (${report.user.email}) - 0 of ${report.expectedHours} hours logged`
+        }
+      }))
+    );
+  }
+
+  // Add divider if both sections will be present
+  if (missingReports.length > 0 && incompleteReports.length > 0) {
+    blocks.push({
+      type: 'divider'
+    });
+  }
+
+  // Add incomplete hours section if there are any
+  if (incompleteReports.length > 0) {
+    blocks.push(
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: '*People who didn\'t complete working hours*'
+        }
+      },
+      ...incompleteReports.map(report => ({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `• ${report.user.user_metadata?.display_name || 'Unknown'} (${report.user.email}) - ${report.hoursLogged} of ${report.expectedHours} hours logged`
+        }
+      }))
+    );
+  }
+
+  try {
+    const response = await fetch(SLACK_WEBHOOK_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ blocks })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to send Slack notification: ${response.statusText}`);
+    }
+  } catch (error) {
+    console.error('Error sending Slack notification:', error);
+    throw error;
+  }
+}
+
+// A manager hears about someone who keeps missing days once their run of
+// missing working days reaches the configured length, and again each time it
+// grows by that many. The manager is `manager_email` in the user's app metadata.
+async function escalateMissedDays(checks: ComplianceCheck[], afterDays: number) {
+  const outcomes: Record<string, number> = {};
+  const missing = checks.filter((check) => check.status === 'missing');
+  if (afterDays === 0 || missing.length === 0) return outcomes;
+
+  const dates = missing.map((check) => check.date).sort();
+  const history = await listChecks(addDays(dates[0], -ESCALATION_LOOKBACK_DAYS), dates[dates.length - 1]);
+  const historyByUser = new Map<string, StoredCheck[]>();
+  for (const check of history) {
+    historyByUser.set(check.userId, [...(historyByUser.get(check.userId) || []), check]);
+  }
+
+  for (const { user, date } of missing) {
+    const streak = missingStreaks((historyByUser.get(user.id) || []).filter((check) => check.date <= date)).current;
+    if (streak === 0 || streak % afterDays !== 0) continue;
+
+    const manager = user.app_metadata?.manager_email;
+    const outcome = typeof manager === 'string' && manager
+      ? await notifyOnce(
+        user.id,
+        date,
+        'escalation',
+        manager,
+        `${displayName(user)} (${user.email}) has not logged any time for ${streak} working days in a row, most recently ${date}.`
+      )
+      : 'no_manager';
+    outcomes[outcome] = (outcomes[outcome] || 0) + 1;
+  }
+
+  return outcomes;
+}
+
+// The latest day whose cutoff has passed in the timezone: today once the
+// cutoff time is reached, otherwise yesterday. The run happens at one UTC
+// time, so for people west of the organisation it is still morning and their
+// day is not over yet.
+function lastClosedDay(now: Date, timeZone: string, cutoffMinutes: number): string {
+  const today = todayInTimeZone(timeZone, now);
+  return minutesInTimeZone(now, timeZone) >= cutoffMinutes ? today : addDays(today, -1);
+}
+
+// Summary of a run and how long each step took, returned with the reports
+interface RunStats {
+  runId: string;
+  users: number;
+  dates: string[];
+  // Manager escalations by outcome, e.g. `sent` or `no_manager`
+  escalations: Record<string, number>;
+  timings: Record<string, number>;
+  durationMs: number;
+}
+
+async function checkTimesheets(now: Date) {
+  const startedAt = Date.now();
+  const orgTimeZone = getOrgTimeZone();
+  const rules = getReminderRules();
+  const timings: Record<string, number> = {};
+  let stepStartedAt = Date.now();
+  const endStep = (step: string) => {
+    timings[step] = Date.now() - stepStartedAt;
+    stepStartedAt = Date.now();
+  };
+
+  try {
+    const users = await getAllUsers();
+    endStep('loadUsersMs');
+
+    // Each user is checked, and escalated, for the last day that is over in
+    // their own timezone
+    const userDates = users.map((user) => ({
+      user,
+      date: lastClosedDay(now, resolveTimeZone(user.app_metadata?.timezone, orgTimeZone), rules.cutoffMinutes)
+    }));
+    const checks = await checkCompliance(userDates);
+    endStep('checkMs');
+
+    const reports: MonitorReport[] = checks
+      .filter((check) => check.status === 'missing' || check.status === 'incomplete')
+      .map(({ user, date, status, hoursLogged, expected }) => ({ user, date, status, hoursLogged, expectedHours: expected }));
+
+    // Every user's result is kept, including days off and complete days
+    const run = await recordRun('schedule', null, checks, { timings });
+    endStep('recordMs');
+
+    let escalations: Record<string, number> = {};
+    try {
+      escalations = await escalateMissedDays(checks, rules.escalateAfterMissedDays);
+    } catch (error) {
+      // Escalations are best effort; the run and the digest still go ahead
+      console.error('Error escalating missed days:', error);
+    }
+    endStep('escalateMs');
+
+    if (reports.length > 0 && rules.channelDigest) {
+      await sendSlackNotification(reports);
+    }
+    endStep('notifyMs');
+
+    const stats: RunStats = {
+      runId: run.id,
+      users: users.length,
+      dates: run.dates,
+      escalations,
+      timings,
+      durationMs: Date.now() - startedAt
+    };
+    console.log('Timesheet check stats:', stats);
+    return { reports, stats };
+  } catch (error) {
+    console.error('Error in checkTimesheets:', error);
+    throw error;
+  }
+}
+
+// Enhanced request handling with proper CORS. `now` is when the run happens;
+// tests pass a fixed time.
+export async function handleMonitorRequest(req: Request, now = new Date()): Promise<Response> {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  try {
+    // Validate request method
+    if (req.method !== 'GET' && req.method !== 'POST') {
+      throw new Error(`Method ${req.method} not allowed`);
+    }
+
+    // Only the scheduled run may record checks and message people
+    await requireServiceRole(req);
+
+    const { reports, stats } = await checkTimesheets(now);
+    return new Response(
+      JSON.stringify({
+        message: 'Timesheet check completed successfully',
+        reports,
+        stats
+      }),
+      {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json'
+        }
+      }
+    );
+  } catch (error) {
+    console.error('Error in edge function:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to check timesheets',
+        details: errorMessage(error)
+      }),
+      {
+        status: errorStatus(error),
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json'
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { ALICE, BOB, db, serviceRoleToken, userToken } from '../_test/setup.ts';
+import assert from 'node:assert/strict';
+import { getTimesheetStore } from '../_shared/store.ts';
+import { handleMonitorRequest } from './handler.ts';
+
+// 18:30 in Kolkata on Tuesday 10 June 2025, just past the 18:00 cutoff
+const RUN_AT = new Date('2025-06-10T13:00:00Z');
+
+function seedUsers(bobMetadata: { user_metadata?: object; app_metadata?: object } = {}) {
+  db.reset();
+  for (const user of [ALICE, BOB]) {
+    db.rows('auth.users').push({ id: user.id, email: user.email, user_metadata: {}, app_metadata: {} });
+  }
+  Object.assign(db.rows('auth.users')[1], bobMetadata);
+  Deno.env.set('SLACK_CHANNEL_DIGEST', 'false');
+}
+
+async function run(token: string) {
+  const response = await handleMonitorRequest(new Request('http://localhost/timesheet-monitor', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}` }
+  }), RUN_AT);
+  return { status: response.status, body: await response.json() };
+}
+
+Deno.test('the monitor reads the hours logged through the timesheet store', async () => {
+  seedUsers();
+  await getTimesheetStore().appendEntries(ALICE, [
+    { date: '2025-06-10', project: 'SR-CRM', description: 'Build', hours: 6 },
+    { date: '2025-06-10', project: 'SR-CRM', description: 'Review', hours: 2 }
+  ]);
+
+  const { status, body } = await run(await serviceRoleToken());
+
+  assert.equal(status, 200);
+  assert.deepEqual(
+    body.reports.map((report: { user: { email: string }; date: string; status: string }) =>
+      [report.user.email, report.date, report.status]),
+    [[BOB.email, '2025-06-10', 'missing']]
+  );
+  const checks = db.rows('compliance_checks')
+    .map(({ user_id, status, hours_logged }) => [user_id, status, hours_logged])
+    .sort();
+  assert.deepEqual(checks, [[ALICE.id, 'complete', 8], [BOB.id, 'missing', 0]].sort());
+});
+
+Deno.test('each user is checked in the timezone from their app metadata, not their own settings', async () => {
+  // 15:00 in Berlin, so Bob's last closed day is Monday
+  seedUsers({ user_metadata: { timezone: 'Asia/Kolkata' }, app_metadata: { timezone: 'Europe/Berlin' } });
+
+  const { body } = await run(await serviceRoleToken());
+
+  const bob = body.reports.find((report: { user: { email: string } }) => report.user.email === BOB.email);
+  assert.equal(bob.date, '2025-06-09');
+});
+
+Deno.test('the monitor only runs with the service role', async () => {
+  seedUsers();
+
+  const { status } = await run(await userToken(ALICE));
+  assert.equal(status, 403);
+  assert.equal(db.rows('compliance_checks').length, 0);
+});
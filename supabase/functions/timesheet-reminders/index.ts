@@ -0,0 +1,72 @@
+import { requireServiceRole } from '../_shared/auth.ts';
+import { checkCompliance } from '../_shared/compliance.ts';
+import { minutesInTimeZone, resolveTimeZone, todayInTimeZone } from '../_shared/dates.ts';
+import { getOrgTimeZone, getReminderRules } from '../_shared/env.ts';
+import { errorMessage, errorStatus, HttpError } from '../_shared/errors.ts';
+import { notifyOnce } from '../_shared/slack.ts';
+import { displayName, getAllUsers } from '../_shared/team.ts';
+
+// Personal Slack reminders before the daily cutoff. Called on a schedule (for
+// example every 15 minutes) with the service role key; each user whose local
+// time is within `REMINDER_LEAD_MINUTES` of `REMINDER_CUTOFF` and who has not
+// logged their expected hours yet gets one direct message for the day.
+Deno.serve(async (req) => {
+  try {
+    if (req.method !== 'POST') {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+
+    await requireServiceRole(req);
+
+    const now = new Date();
+    const rules = getReminderRules();
+    const orgTimeZone = getOrgTimeZone();
+    const windowStart = rules.cutoffMinutes - rules.leadMinutes;
+
+    const userDates = (await getAllUsers())
+      .map((user) => ({ user, timeZone: resolveTimeZone(user.app_metadata?.timezone, orgTimeZone) }))
+      .filter(({ timeZone }) => {
+        const minutes = minutesInTimeZone(now, timeZone);
+        return minutes >= windowStart && minutes < rules.cutoffMinutes;
+      })
+      .map(({ user, timeZone }) => ({ user, date: todayInTimeZone(timeZone, now) }));
+
+    const outcomes: Record<string, number> = {};
+    for (const check of await checkCompliance(userDates)) {
+      if (check.status !== 'missing' && check.status !== 'incomplete') continue;
+
+      const greeting = `Hi ${displayName(check.user)}, `;
+      const text = check.status === 'missing'
+        ? `${greeting}you haven't logged any time for ${check.date} yet. Please add your timesheet before ${rules.cutoff}.`
+        : `${greeting}you've logged ${check.hoursLogged} of ${check.expected} hours for ${check.date}. Please complete your timesheet before ${rules.cutoff}.`;
+      const outcome = await notifyOnce(check.user.id, check.date, 'reminder', check.user.email || '', text);
+      outcomes[outcome] = (outcomes[outcome] || 0) + 1;
+    }
+
+    const result = { inWindow: userDates.length, ...outcomes };
+    console.log('Timesheet reminders sent:', result);
+
+    return new Response(
+      JSON.stringify({
+        message: 'Timesheet reminders completed',
+        ...result
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  } catch (error) {
+    console.error('Error sending timesheet reminders:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to send timesheet reminders',
+        details: errorMessage(error)
+      }),
+      {
+        status: errorStatus(error),
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
@@ -0,0 +1,41 @@
+import { requireServiceRole } from '../_shared/auth.ts';
+import { errorMessage, errorStatus, HttpError } from '../_shared/errors.ts';
+import { syncPendingDays } from '../_shared/sync.ts';
+
+// Retries mirroring days into the Google spreadsheets that could not be synced
+// when they were written. Called on a schedule with the service role key.
+Deno.serve(async (req) => {
+  try {
+    if (req.method !== 'POST') {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+
+    await requireServiceRole(req);
+
+    const result = await syncPendingDays();
+    console.log('Timesheet sync completed:', result);
+
+    return new Response(
+      JSON.stringify({
+        message: 'Timesheet sync completed',
+        ...result
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  } catch (error) {
+    console.error('Error in timesheet sync:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to sync timesheets',
+        details: errorMessage(error)
+      }),
+      {
+        status: errorStatus(error),
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
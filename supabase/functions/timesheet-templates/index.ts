@@ -0,0 +1,103 @@
+import { getAuthenticatedUser } from '../_shared/auth.ts';
+import { getEntryLimits } from '../_shared/env.ts';
+import { errorMessage, errorStatus, HttpError } from '../_shared/errors.ts';
+import { jsonResponse, preflightResponse } from '../_shared/http.ts';
+import { deleteTemplate, listTemplates, saveTemplate, type TemplateProject } from '../_shared/templates.ts';
+
+// The caller's personal templates:
+//   GET                     list them
+//   POST                    { name, projects } save, replacing one with the same name
+//   DELETE  ?id=            remove one
+
+const MAX_NAME_LENGTH = 80;
+
+function parseTemplate(body: Record<string, unknown>) {
+  const { maxDescriptionLength } = getEntryLimits();
+  const problems: string[] = [];
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    problems.push(`name is required and must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+
+  const projects: TemplateProject[] = [];
+  if (!Array.isArray(body.projects) || body.projects.length === 0) {
+    problems.push('projects must be a non-empty list');
+  } else {
+    for (const project of body.projects) {
+      if (typeof project?.name !== 'string' || !project.name.trim() || !Array.isArray(project.tasks)) {
+        problems.push('each project needs a name and a list of tasks');
+        break;
+      }
+
+      const tasks: TemplateProject['tasks'] = [];
+      for (const task of project.tasks) {
+        const description = typeof task?.description === 'string' ? task.description.trim() : '';
+        const hours = task?.hours === null || task?.hours === undefined || task?.hours === ''
+          ? null
+          : Number(task.hours);
+        if (description.length > maxDescriptionLength) {
+          problems.push(`descriptions must be at most ${maxDescriptionLength} characters`);
+        } else if (hours !== null && !(hours > 0)) {
+          problems.push('hours must be a positive number or left empty');
+        } else {
+          tasks.push({ description, hours });
+        }
+      }
+
+      projects.push({ name: project.name.trim(), tasks });
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new HttpError(400, [...new Set(problems)].join('; '));
+  }
+
+  return { name, projects };
+}
+
+const FAILURE_MESSAGES: Record<string, string> = {
+  GET: 'Failed to load templates',
+  POST: 'Failed to save template',
+  DELETE: 'Failed to delete template',
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return preflightResponse();
+  }
+
+  try {
+    if (!(req.method in FAILURE_MESSAGES)) {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+
+    const user = await getAuthenticatedUser(req);
+
+    if (req.method === 'GET') {
+      return jsonResponse({ templates: await listTemplates(user.id) });
+    }
+
+    if (req.method === 'DELETE') {
+      const id = new URL(req.url).searchParams.get('id');
+      if (!id) {
+        throw new HttpError(400, 'id is required');
+      }
+      await deleteTemplate(id, user.id);
+      return jsonResponse({ message: 'Template deleted' });
+    }
+
+    const { name, projects } = parseTemplate(await req.json());
+    const id = await saveTemplate(user.id, name, projects);
+    return jsonResponse({ message: 'Template saved', id }, 201);
+  } catch (error) {
+    console.error('Error handling templates request:', error);
+    return jsonResponse(
+      {
+        error: FAILURE_MESSAGES[req.method] || 'Failed to process request',
+        details: errorMessage(error),
+      },
+      errorStatus(error)
+    );
+  }
+});
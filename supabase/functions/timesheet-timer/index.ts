@@ -0,0 +1,159 @@
+import { type AuthenticatedUser, getAuthenticatedUser } from '../_shared/auth.ts';
+import { dateInTimeZone, todayInTimeZone } from '../_shared/dates.ts';
+import { getEntryLimits } from '../_shared/env.ts';
+import { errorMessage, errorStatus, HttpError } from '../_shared/errors.ts';
+import { jsonResponse, preflightResponse } from '../_shared/http.ts';
+import { checkProjectCodes } from '../_shared/projects.ts';
+import { supabaseAdmin } from '../_shared/supabase.ts';
+
+// The caller's running timer:
+//   GET                     the timer, or null
+//   POST                    { project, description } start one
+//   DELETE                  stop it and get the elapsed hours for a task row
+//
+// Stopping does not write an entry; the Dashboard adds a row to the form for
+// the date the timer started, which is submitted like any other.
+
+interface Timer {
+  project: string;
+  description: string;
+  startedAt: string;
+  date: string;
+  // Started before today in the user's timezone, likely forgotten
+  overnight: boolean;
+}
+
+function toTimer(
+  row: { project: string; description: string; started_at: string },
+  user: AuthenticatedUser
+): Timer {
+  const date = dateInTimeZone(new Date(row.started_at), user.timeZone);
+  return {
+    project: row.project,
+    description: row.description,
+    startedAt: row.started_at,
+    date,
+    overnight: date < todayInTimeZone(user.timeZone)
+  };
+}
+
+async function getTimer(user: AuthenticatedUser): Promise<Timer | null> {
+  const { data, error } = await supabaseAdmin
+    .from('timers')
+    .select('project, description, started_at')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load timer: ${error.message}`);
+  }
+
+  return data ? toTimer(data, user) : null;
+}
+
+async function startTimer(user: AuthenticatedUser, body: Record<string, unknown>): Promise<Timer> {
+  const project = typeof body.project === 'string' ? body.project.trim() : '';
+  const description = typeof body.description === 'string' ? body.description.trim() : '';
+  const { maxDescriptionLength } = getEntryLimits();
+
+  if (!project) {
+    throw new HttpError(400, 'project is required');
+  }
+  if (description.length > maxDescriptionLength) {
+    throw new HttpError(400, `description must be at most ${maxDescriptionLength} characters`);
+  }
+
+  const problem = (await checkProjectCodes(user.id, [project])).get(project);
+  if (problem) {
+    throw new HttpError(400, problem);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('timers')
+    .insert({ user_id: user.id, project, description })
+    .select('project, description, started_at')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new HttpError(409, 'A timer is already running; stop it first');
+    }
+    throw new Error(`Failed to start timer: ${error.message}`);
+  }
+
+  return toTimer(data, user);
+}
+
+// Elapsed time rounded to the nearest increment, and never less than one
+function roundedHours(startedAt: string, stoppedAt: Date, increment: number): number {
+  const elapsed = (stoppedAt.getTime() - new Date(startedAt).getTime()) / 3_600_000;
+  const rounded = Math.round(elapsed / increment) * increment;
+  return Math.max(increment, Number(rounded.toFixed(2)));
+}
+
+async function stopTimer(user: AuthenticatedUser) {
+  const { data, error } = await supabaseAdmin
+    .from('timers')
+    .delete()
+    .eq('user_id', user.id)
+    .select('project, description, started_at');
+
+  if (error) {
+    throw new Error(`Failed to stop timer: ${error.message}`);
+  }
+  if (data.length === 0) {
+    throw new HttpError(404, 'No timer is running');
+  }
+
+  const timer = toTimer(data[0], user);
+  const stoppedAt = new Date();
+  return {
+    timer,
+    stoppedAt: stoppedAt.toISOString(),
+    hours: roundedHours(timer.startedAt, stoppedAt, getEntryLimits().hoursIncrement)
+  };
+}
+
+const FAILURE_MESSAGES: Record<string, string> = {
+  GET: 'Failed to load timer',
+  POST: 'Failed to start timer',
+  DELETE: 'Failed to stop timer',
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return preflightResponse();
+  }
+
+  try {
+    if (!(req.method in FAILURE_MESSAGES)) {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+
+    const user = await getAuthenticatedUser(req);
+
+    switch (req.method) {
+      case 'GET':
+        return jsonResponse({ timer: await getTimer(user) });
+      case 'POST': {
+        const timer = await startTimer(user, await req.json());
+        console.log('Started timer:', { userEmail: user.email, project: timer.project });
+        return jsonResponse({ message: 'Timer started', timer }, 201);
+      }
+      default: {
+        const stopped = await stopTimer(user);
+        console.log('Stopped timer:', { userEmail: user.email, project: stopped.timer.project, hours: stopped.hours });
+        return jsonResponse({ message: 'Timer stopped', ...stopped });
+      }
+    }
+  } catch (error) {
+    console.error('Error handling timer request:', error);
+    return jsonResponse(
+      {
+        error: FAILURE_MESSAGES[req.method] || 'Failed to process request',
+        details: errorMessage(error),
+      },
+      errorStatus(error)
+    );
+  }
+});
@@ -0,0 +1,371 @@
+import { assertUnlocked, DRAFT, getApproval, getUserApprovals } from '../_shared/approvals.ts';
+import { type AuthenticatedUser, getAuthenticatedUser } from '../_shared/auth.ts';
+import { addDays, isValidDateString, todayInTimeZone } from '../_shared/dates.ts';
+import { getEntryLimits, type EntryLimits } from '../_shared/env.ts';
+import { errorMessage, errorStatus, HttpError, ValidationError } from '../_shared/errors.ts';
+import { jsonResponse, preflightResponse } from '../_shared/http.ts';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  getIdempotencyKey,
+  hashRequest,
+  releaseIdempotencyKey
+} from '../_shared/idempotency.ts';
+import { checkProjectCodes } from '../_shared/projects.ts';
+import { getTimesheetStore } from '../_shared/store.ts';
+import { syncDay } from '../_shared/sync.ts';
+import {
+  dailyLimitError,
+  flattenProjects,
+  groupByProject,
+  type TimesheetProject,
+  totalHours
+} from '../_shared/timesheets.ts';
+
+async function sendSlackAlert(userEmail: string, userName: string, date: string, currentDate: string) {
+  try {
+    const SLACK_WEBHOOK_URL = Deno.env.get('SLACK_WEBHOOK_URL');
+    if (!SLACK_WEBHOOK_URL) {
+      console.error('SLACK_WEBHOOK_URL is not set');
+      return;
+    }
+
+    const message = {
+      blocks: [
+        {
+          type: 'header',
+          text: {
+            type: 'plain_text',
+            text: '🚨 Past Date Timesheet Submission Alert',
+            emoji: true
+          }
+        },
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `• *Employee:* ${userName} (${userEmail})\n• *Submitted for Date:* ${date}\n• *Submission Date:* ${currentDate}`
+          }
+        }
+      ],
+      text: `Past date timesheet submission by ${userName}`, // Fallback text
+    };
+
+    console.log('Sending Slack alert:', JSON.stringify(message));
+
+    const response = await fetch(SLACK_WEBHOOK_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(message)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to send Slack notification: ${response.statusText}`);
+    }
+
+    console.log('Slack alert sent successfully');
+  } catch (error) {
+    console.error('Error sending Slack notification:', error);
+    // Don't throw the error to prevent blocking the timesheet submission
+  }
+}
+
+interface TimesheetBatch {
+  date: string;
+  projects: TimesheetProject[];
+}
+
+// Longest range a single GET may load
+const MAX_RANGE_DAYS = 92;
+
+function getDateParam(req: Request): string {
+  const date = new URL(req.url).searchParams.get('date') || '';
+  if (!isValidDateString(date)) {
+    throw new HttpError(400, 'date must be a valid YYYY-MM-DD date');
+  }
+  return date;
+}
+
+const isMultipleOf = (value: number, increment: number) =>
+  Math.abs(value / increment - Math.round(value / increment)) < 1e-9;
+
+function getRangeParams(req: Request): { from: string; to: string } {
+  const params = new URL(req.url).searchParams;
+  const from = params.get('from') || '';
+  const to = params.get('to') || '';
+  if (!isValidDateString(from) || !isValidDateString(to)) {
+    throw new HttpError(400, 'from and to must be valid YYYY-MM-DD dates');
+  }
+  if (to < from || to > addDays(from, MAX_RANGE_DAYS - 1)) {
+    throw new HttpError(400, `to must be on or after from and at most ${MAX_RANGE_DAYS} days later`);
+  }
+  return { from, to };
+}
+
+// Validate a whole day's submission up front so that nothing is written
+// unless every project and task in it is valid. Problems are keyed by field
+// path so the Dashboard can show each one next to its row.
+function parseBatch(body: Record<string, unknown>, limits: EntryLimits): TimesheetBatch {
+  const fieldErrors: Record<string, string> = {};
+
+  const date = typeof body.date === 'string' ? body.date : '';
+  if (!isValidDateString(date)) {
+    fieldErrors.date = 'date must be a valid YYYY-MM-DD date';
+  }
+
+  const projects = Array.isArray(body.projects) ? body.projects : [];
+  if (projects.length === 0) {
+    fieldErrors.projects = 'At least one project is required';
+  }
+
+  const parsedProjects = projects.map((project, projectIndex) => {
+    const path = `projects.${projectIndex}`;
+    const label = `Project ${projectIndex + 1}`;
+    const name = typeof project?.name === 'string' ? project.name.trim() : '';
+    if (!name) {
+      fieldErrors[`${path}.name`] = `${label}: project is required`;
+    }
+
+    const tasks: Record<string, unknown>[] = Array.isArray(project?.tasks) ? project.tasks : [];
+    if (tasks.length === 0) {
+      fieldErrors[`${path}.tasks`] = `${label}: at least one task is required`;
+    }
+
+    return {
+      name,
+      tasks: tasks.map((task, taskIndex) => {
+        const taskPath = `${path}.tasks.${taskIndex}`;
+        const taskLabel = `${label}, task ${taskIndex + 1}`;
+        const description = typeof task?.description === 'string' ? task.description.trim() : '';
+        // The Dashboard sends the input's string value; anything else non-numeric is rejected
+        const rawHours = task?.hours;
+        const hours = (typeof rawHours === 'number' || typeof rawHours === 'string') && String(rawHours).trim() !== ''
+          ? Number(rawHours)
+          : NaN;
+
+        if (!description) {
+          fieldErrors[`${taskPath}.description`] = `${taskLabel}: description is required`;
+        } else if (description.length > limits.maxDescriptionLength) {
+          fieldErrors[`${taskPath}.description`] =
+            `${taskLabel}: description must be at most ${limits.maxDescriptionLength} characters`;
+        }
+
+        if (!Number.isFinite(hours) || hours <= 0) {
+          fieldErrors[`${taskPath}.hours`] = `${taskLabel}: hours must be a positive number`;
+        } else if (!isMultipleOf(hours, limits.hoursIncrement)) {
+          fieldErrors[`${taskPath}.hours`] = `${taskLabel}: hours must be in steps of ${limits.hoursIncrement}`;
+        } else if (hours > limits.maxDailyHours) {
+          fieldErrors[`${taskPath}.hours`] = `${taskLabel}: hours cannot exceed ${limits.maxDailyHours}`;
+        }
+        return { description, hours };
+      })
+    };
+  });
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ValidationError(fieldErrors);
+  }
+
+  return { date, projects: parsedProjects };
+}
+
+// Checks that need the database: projects must come from the catalogue and be
+// open to this user, and the day's total must stay within the daily cap. A
+// POST adds to what is already logged for the date; a PUT replaces it.
+async function checkBatch(user: AuthenticatedUser, batch: TimesheetBatch, method: string, limits: EntryLimits) {
+  const fieldErrors: Record<string, string> = {};
+
+  const projectProblems = await checkProjectCodes(user.id, batch.projects.map((project) => project.name));
+  batch.projects.forEach((project, projectIndex) => {
+    const problem = projectProblems.get(project.name);
+    if (problem) {
+      fieldErrors[`projects.${projectIndex}.name`] = problem;
+    }
+  });
+
+  // A POST is checked again as it is written, in case another submission
+  // for the day lands in between; this early check reports it with the
+  // other problems and covers dry runs
+  const existingHours = method === 'POST'
+    ? totalHours(await getTimesheetStore().listEntries(user, batch.date))
+    : 0;
+  const batchHours = totalHours(batch.projects.flatMap((project) => project.tasks));
+
+  if (existingHours + batchHours > limits.maxDailyHours) {
+    Object.assign(fieldErrors, dailyLimitError(batch.date, existingHours, batchHours, limits.maxDailyHours).fieldErrors);
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ValidationError(fieldErrors);
+  }
+}
+
+// Every check a submission goes through, without writing anything. Returns
+// what the date holds now so an import can show what would change.
+async function previewBatch(user: AuthenticatedUser, batch: TimesheetBatch, method: string, limits: EntryLimits) {
+  await assertUnlocked(user.id, batch.date);
+  await checkBatch(user, batch, method, limits);
+  return { date: batch.date, existing: groupByProject(await getTimesheetStore().listEntries(user, batch.date)) };
+}
+
+async function saveBatch(user: AuthenticatedUser, batch: TimesheetBatch, limits: EntryLimits) {
+  const { date } = batch;
+  const entries = flattenProjects(date, batch.projects);
+
+  console.log('Processing timesheet batch:', { date, userEmail: user.email, entries: entries.length });
+
+  // "Today" is the submitting user's calendar date, not the server's
+  const currentDate = todayInTimeZone(user.timeZone);
+
+  await assertUnlocked(user.id, date);
+
+  // The whole day goes in with one write, which also puts it into review, so
+  // a failure leaves nothing behind for the client's retry to duplicate
+  await getTimesheetStore().appendEntries(user, entries, limits.maxDailyHours);
+  const synced = await syncDay(user.id, user.email, date);
+
+  // Send one notification per past date submission
+  if (date < currentDate) {
+    console.log('Past date detected, sending Slack alert');
+    await sendSlackAlert(user.email, user.name, date, currentDate);
+  }
+
+  return { message: 'Timesheet saved successfully', entriesSaved: entries.length, synced };
+}
+
+async function getDay(user: AuthenticatedUser, date: string) {
+  const [entries, approval] = await Promise.all([
+    getTimesheetStore().listEntries(user, date),
+    getApproval(user.id, date)
+  ]);
+  return { date, projects: groupByProject(entries), approval, limits: getEntryLimits() };
+}
+
+// Every date in the range with its entries and review state, e.g. for the week grid
+async function getRange(user: AuthenticatedUser, from: string, to: string) {
+  const [entries, approvals] = await Promise.all([
+    getTimesheetStore().listEntries(user, from, to),
+    getUserApprovals(user.id, from, to)
+  ]);
+
+  const days = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    days.push({
+      date,
+      projects: groupByProject(entries.filter((entry) => entry.date === date)),
+      approval: approvals.get(date) || DRAFT
+    });
+  }
+  return { from, to, days, limits: getEntryLimits() };
+}
+
+async function replaceDay(user: AuthenticatedUser, batch: TimesheetBatch) {
+  const entries = flattenProjects(batch.date, batch.projects);
+  await assertUnlocked(user.id, batch.date);
+  await getTimesheetStore().replaceDay(user, batch.date, entries);
+  const synced = await syncDay(user.id, user.email, batch.date);
+
+  console.log('Replaced timesheet day:', { date: batch.date, userEmail: user.email, entries: entries.length });
+
+  return { message: 'Timesheet updated successfully', entriesSaved: entries.length, synced };
+}
+
+async function deleteDay(user: AuthenticatedUser, date: string) {
+  await assertUnlocked(user.id, date);
+  const entriesDeleted = await getTimesheetStore().deleteDay(user, date);
+  const synced = await syncDay(user.id, user.email, date);
+
+  return { message: 'Timesheet entries deleted', entriesDeleted, synced };
+}
+
+const FAILURE_MESSAGES: Record<string, string> = {
+  GET: 'Failed to load timesheet',
+  POST: 'Failed to save timesheet',
+  PUT: 'Failed to update timesheet',
+  DELETE: 'Failed to delete timesheet entries',
+};
+
+// Main function handler with improved error handling and CORS. Served by
+// `index.ts`; kept apart so tests can call it directly.
+export async function handleTimesheetRequest(req: Request): Promise<Response> {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return preflightResponse();
+  }
+
+  try {
+    // Validate request method
+    if (!['GET', 'POST', 'PUT', 'DELETE'].includes(req.method)) {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+
+    // Identity comes from the verified access token, never from the body
+    const user = await getAuthenticatedUser(req);
+
+    if (req.method === 'GET') {
+      if (new URL(req.url).searchParams.has('from')) {
+        const { from, to } = getRangeParams(req);
+        return jsonResponse(await getRange(user, from, to));
+      }
+      return jsonResponse(await getDay(user, getDateParam(req)));
+    }
+
+    if (req.method === 'DELETE') {
+      return jsonResponse(await deleteDay(user, getDateParam(req)));
+    }
+
+    const body = await req.json();
+
+    if (body.userEmail && String(body.userEmail).toLowerCase() !== user.email) {
+      throw new HttpError(403, 'userEmail does not match the signed-in user');
+    }
+
+    // Validate input
+    const limits = getEntryLimits();
+    const batch = parseBatch(body, limits);
+
+    // ?dryRun=true validates without writing, e.g. to preview an import
+    if (new URL(req.url).searchParams.get('dryRun') === 'true') {
+      return jsonResponse(await previewBatch(user, batch, req.method, limits));
+    }
+
+    const idempotencyKey = getIdempotencyKey(req);
+
+    // A replayed key returns the original result without writing again; a
+    // key reused with a different method or body is refused
+    const replayed = await claimIdempotencyKey(user.id, idempotencyKey, await hashRequest(req.method, body));
+    if (replayed) {
+      console.log('Replaying submission:', { userEmail: user.email, idempotencyKey });
+      return jsonResponse(replayed.body, replayed.status, { 'Idempotent-Replayed': 'true' });
+    }
+
+    let result;
+    try {
+      // Checked after the claim so a replayed POST is not rejected for
+      // hours it already added itself
+      await checkBatch(user, batch, req.method, limits);
+      result = req.method === 'PUT'
+        ? await replaceDay(user, batch)
+        : await saveBatch(user, batch, limits);
+    } catch (error) {
+      await releaseIdempotencyKey(user.id, idempotencyKey);
+      throw error;
+    }
+
+    await completeIdempotencyKey(user.id, idempotencyKey, { status: 200, body: result });
+    return jsonResponse(result);
+  } catch (error) {
+    console.error('Error processing request:', error);
+    
+    return jsonResponse(
+      {
+        error: FAILURE_MESSAGES[req.method] || 'Failed to process request',
+        details: errorMessage(error),
+        ...(error instanceof ValidationError && { fieldErrors: error.fieldErrors }),
+      },
+      errorStatus(error)
+    );
+  }
+}
@@ -0,0 +1,197 @@
+import { ALICE, db, userToken } from '../_test/setup.ts';
+import assert from 'node:assert/strict';
+import { handleTimesheetRequest } from './handler.ts';
+
+// Entries live in the memory store for the whole run, so every test writes
+// its own dates; the fake database is emptied before each one
+
+function seedProjects() {
+  db.reset();
+  db.rows('projects').push(
+    { id: 'project-crm', code: 'SR-CRM', name: 'CRM', client: null, active: true, billable: false, hourly_rate: null },
+    { id: 'project-old', code: 'OLD', name: 'Old', client: null, active: false, billable: false, hourly_rate: null }
+  );
+}
+
+async function call(
+  method: string,
+  query: string,
+  { body, key }: { body?: unknown; key?: string } = {}
+) {
+  const headers: Record<string, string> = { Authorization: `Bearer ${await userToken(ALICE)}` };
+  if (key) headers['Idempotency-Key'] = key;
+  const response = await handleTimesheetRequest(new Request(`http://localhost/timesheet${query}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body)
+  }));
+  return { status: response.status, headers: response.headers, body: await response.json() };
+}
+
+const day = (date: string, hours: number[], project = 'SR-CRM') => ({
+  date,
+  projects: [{ name: project, tasks: hours.map((h, i) => ({ description: `Task ${i + 1}`, hours: h })) }]
+});
+
+Deno.test('POST saves the day and GET returns it as submitted', async () => {
+  seedProjects();
+
+  const saved = await call('POST', '', { body: day('2025-03-03', [3, 2.5]), key: 'post-1' });
+  assert.equal(saved.status, 200);
+  assert.equal(saved.body.entriesSaved, 2);
+  assert.equal(saved.body.synced, false);
+
+  const loaded = await call('GET', '?date=2025-03-03');
+  assert.equal(loaded.status, 200);
+  assert.deepEqual(loaded.body.projects, [{
+    name: 'SR-CRM',
+    tasks: [{ description: 'Task 1', hours: 3 }, { description: 'Task 2', hours: 2.5 }]
+  }]);
+  assert.equal(loaded.body.approval.status, 'submitted');
+});
+
+Deno.test('POST with a used idempotency key replays the first response', async () => {
+  seedProjects();
+
+  const first = await call('POST', '', { body: day('2025-03-04', [4]), key: 'post-2' });
+  const retry = await call('POST', '', { body: day('2025-03-04', [4]), key: 'post-2' });
+
+  assert.equal(retry.status, 200);
+  assert.equal(retry.headers.get('Idempotent-Replayed'), 'true');
+  assert.deepEqual(retry.body, first.body);
+  const loaded = await call('GET', '?date=2025-03-04');
+  assert.equal(loaded.body.projects[0].tasks.length, 1);
+});
+
+Deno.test('a used idempotency key is refused for a different request', async () => {
+  seedProjects();
+
+  await call('POST', '', { body: day('2025-03-17', [4]), key: 'reuse-1' });
+  const otherBody = await call('POST', '', { body: day('2025-03-17', [5]), key: 'reuse-1' });
+  assert.equal(otherBody.status, 422);
+  const otherMethod = await call('PUT', '', { body: day('2025-03-17', [4]), key: 'reuse-1' });
+  assert.equal(otherMethod.status, 422);
+
+  const loaded = await call('GET', '?date=2025-03-17');
+  assert.deepEqual(loaded.body.projects[0].tasks.map((t: { hours: number }) => t.hours), [4]);
+});
+
+Deno.test('a submission that fails part way can be retried with its key without duplicating the day', async () => {
+  seedProjects();
+
+  db.failNextWrite('timesheet_approvals');
+  const failed = await call('POST', '', { body: day('2025-03-18', [3]), key: 'partial-1' });
+  assert.equal(failed.status, 500);
+  assert.deepEqual((await call('GET', '?date=2025-03-18')).body.projects, []);
+
+  const retried = await call('POST', '', { body: day('2025-03-18', [3]), key: 'partial-1' });
+  assert.equal(retried.status, 200);
+  const loaded = await call('GET', '?date=2025-03-18');
+  assert.deepEqual(loaded.body.projects[0].tasks.map((t: { hours: number }) => t.hours), [3]);
+  assert.equal(loaded.body.approval.status, 'submitted');
+});
+
+Deno.test('POST adds to the day and is refused past the daily cap', async () => {
+  seedProjects();
+
+  await call('POST', '', { body: day('2025-03-05', [20]), key: 'cap-1' });
+  const over = await call('POST', '', { body: day('2025-03-05', [5]), key: 'cap-2' });
+
+  assert.equal(over.status, 400);
+  assert.match(over.body.fieldErrors.total, /already has 20 hours logged/);
+  // The refused key is released, so a corrected retry can use it
+  assert.equal(db.rows('timesheet_submissions').some((row) => row.idempotency_key === 'cap-2'), false);
+});
+
+Deno.test('concurrent POSTs for a day cannot add up past the daily cap', async () => {
+  seedProjects();
+
+  const results = await Promise.all([
+    call('POST', '', { body: day('2025-03-07', [14]), key: 'race-1' }),
+    call('POST', '', { body: day('2025-03-07', [14]), key: 'race-2' })
+  ]);
+
+  assert.deepEqual(results.map((result) => result.status).sort(), [200, 400]);
+  const refused = results.find((result) => result.status === 400)!;
+  assert.match(refused.body.fieldErrors.total, /already has 14 hours logged; adding 14/);
+  const loaded = await call('GET', '?date=2025-03-07');
+  assert.equal(loaded.body.projects[0].tasks.length, 1);
+});
+
+Deno.test('POST rejects unknown and archived projects by field', async () => {
+  seedProjects();
+
+  const unknown = await call('POST', '', { body: day('2025-03-06', [1], 'NOPE'), key: 'project-1' });
+  assert.equal(unknown.status, 400);
+  assert.equal(unknown.body.fieldErrors['projects.0.name'], 'Unknown project: NOPE');
+
+  const archived = await call('POST', '', { body: day('2025-03-06', [1], 'OLD'), key: 'project-2' });
+  assert.equal(archived.body.fieldErrors['projects.0.name'], 'Project OLD is archived');
+});
+
+Deno.test('PUT replaces the day and GET with a range lists every date', async () => {
+  seedProjects();
+
+  await call('POST', '', { body: day('2025-03-10', [8]), key: 'put-1' });
+  const replaced = await call('PUT', '', { body: day('2025-03-10', [2, 2]), key: 'put-2' });
+  assert.equal(replaced.status, 200);
+  assert.equal(replaced.body.entriesSaved, 2);
+
+  const range = await call('GET', '?from=2025-03-10&to=2025-03-11');
+  assert.equal(range.status, 200);
+  assert.deepEqual(range.body.days.map((d: { date: string }) => d.date), ['2025-03-10', '2025-03-11']);
+  assert.deepEqual(range.body.days[0].projects[0].tasks.map((t: { hours: number }) => t.hours), [2, 2]);
+  assert.deepEqual(range.body.days[1].projects, []);
+  assert.equal(range.body.days[1].approval.status, 'draft');
+});
+
+Deno.test('DELETE removes the day and its review state', async () => {
+  seedProjects();
+
+  await call('POST', '', { body: day('2025-03-12', [1, 1, 1]), key: 'delete-1' });
+  const deleted = await call('DELETE', '?date=2025-03-12');
+  assert.equal(deleted.status, 200);
+  assert.equal(deleted.body.entriesDeleted, 3);
+
+  const loaded = await call('GET', '?date=2025-03-12');
+  assert.deepEqual(loaded.body.projects, []);
+  assert.equal(loaded.body.approval.status, 'draft');
+});
+
+Deno.test('a DELETE that cannot clear the review state keeps the entries', async () => {
+  seedProjects();
+
+  await call('POST', '', { body: day('2025-03-19', [2, 2]), key: 'delete-2' });
+  db.failNextWrite('timesheet_approvals');
+  const failed = await call('DELETE', '?date=2025-03-19');
+  assert.equal(failed.status, 500);
+
+  const loaded = await call('GET', '?date=2025-03-19');
+  assert.deepEqual(loaded.body.projects[0].tasks.map((t: { hours: number }) => t.hours), [2, 2]);
+  assert.equal(loaded.body.approval.status, 'submitted');
+});
+
+Deno.test('an approved day cannot be changed', async () => {
+  seedProjects();
+  db.rows('timesheet_approvals').push({ user_id: ALICE.id, date: '2025-03-13', status: 'approved' });
+
+  const posted = await call('POST', '', { body: day('2025-03-13', [1]), key: 'locked-1' });
+  assert.equal(posted.status, 423);
+  const deleted = await call('DELETE', '?date=2025-03-13');
+  assert.equal(deleted.status, 423);
+});
+
+Deno.test('requests are checked before anything is written', async () => {
+  seedProjects();
+
+  const missingKey = await call('POST', '', { body: day('2025-03-14', [1]) });
+  assert.equal(missingKey.status, 400);
+  assert.equal(missingKey.body.details, 'Missing Idempotency-Key header');
+
+  const badRange = await call('GET', '?from=2025-03-14&to=2025-01-01');
+  assert.equal(badRange.status, 400);
+
+  const anonymous = await handleTimesheetRequest(new Request('http://localhost/timesheet?date=2025-03-14'));
+  assert.equal(anonymous.status, 401);
+  await anonymous.body?.cancel();
+});
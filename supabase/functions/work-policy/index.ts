@@ -0,0 +1,187 @@
+import { getAuthenticatedUser, requireRole } from '../_shared/auth.ts';
+import { isValidDateString, todayInTimeZone } from '../_shared/dates.ts';
+import { getOrgTimeZone } from '../_shared/env.ts';
+import { errorMessage, errorStatus, HttpError } from '../_shared/errors.ts';
+import { jsonResponse, preflightResponse } from '../_shared/http.ts';
+import { parseIcsHolidays } from '../_shared/ics.ts';
+import { isLeaveType, LEAVE_TYPES } from '../_shared/leave.ts';
+import {
+  DEFAULT_WEEKDAY_HOURS,
+  deleteHoliday,
+  deleteLeaveDay,
+  deleteWorkSchedule,
+  getWorkSchedules,
+  listHolidays,
+  saveHolidays,
+  saveLeaveDay,
+  saveWorkSchedule
+} from '../_shared/policy.ts';
+import { supabaseAdmin } from '../_shared/supabase.ts';
+import { syncDay } from '../_shared/sync.ts';
+import { displayName, getAllUsers } from '../_shared/team.ts';
+
+// Admin management of the working-hours policy used by the daily monitor.
+// `resource` picks what is being changed:
+//   GET                          holidays for `year` and every user's schedule
+//   POST   ?resource=holidays    { ics } calendar file contents, or { date, name }
+//   DELETE ?resource=holidays    &date=
+//   PUT    ?resource=schedule    { userId, weekdayHours } (null resets to the default)
+//   PUT    ?resource=leave       { userId, date, type, hours, days, reason }
+//   DELETE ?resource=leave       &userId=&date=
+// Leave that came from an approved leave request cannot be changed here.
+// Changed leave is written to the employee's spreadsheet like approved leave.
+
+function requireDate(value: unknown, field = 'date'): string {
+  if (!isValidDateString(value)) {
+    throw new HttpError(400, `${field} must be a valid YYYY-MM-DD date`);
+  }
+  return value;
+}
+
+function requireUserId(value: unknown): string {
+  if (typeof value !== 'string' || !value) {
+    throw new HttpError(400, 'userId is required');
+  }
+  return value;
+}
+
+async function getUserEmail(userId: string): Promise<string> {
+  const { data, error } = await supabaseAdmin.auth.admin.getUserById(userId);
+  if (error || !data.user?.email) {
+    throw new HttpError(404, 'User not found');
+  }
+  return data.user.email;
+}
+
+function parseWeekdayHours(value: unknown): number[] | null {
+  if (value === null) return null;
+  if (!Array.isArray(value) || value.length !== 7 || !value.every((hours) => typeof hours === 'number' && hours >= 0 && hours <= 24)) {
+    throw new HttpError(400, 'weekdayHours must list 7 values between 0 and 24, Monday first');
+  }
+  return value;
+}
+
+async function getPolicy(year: string) {
+  if (!/^\d{4}$/.test(year)) {
+    throw new HttpError(400, 'year must be a four digit year');
+  }
+
+  const [holidays, schedules, users] = await Promise.all([
+    listHolidays(`${year}-01-01`, `${year}-12-31`),
+    getWorkSchedules(),
+    getAllUsers()
+  ]);
+
+  return {
+    year,
+    holidays,
+    defaultWeekdayHours: DEFAULT_WEEKDAY_HOURS,
+    schedules: users
+      .map((user) => ({
+        userId: user.id,
+        email: user.email,
+        name: displayName(user),
+        weekdayHours: schedules.get(user.id) || DEFAULT_WEEKDAY_HOURS,
+        custom: schedules.has(user.id)
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  };
+}
+
+async function addHolidays(body: Record<string, unknown>) {
+  if (typeof body.ics === 'string') {
+    const days = parseIcsHolidays(body.ics, getOrgTimeZone());
+    if (days.length === 0) {
+      throw new HttpError(400, 'No events found in the calendar file');
+    }
+    await saveHolidays(days);
+    return { message: `Imported ${days.length} holiday(s)`, imported: days.length };
+  }
+
+  const date = requireDate(body.date);
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    throw new HttpError(400, 'name is required');
+  }
+  await saveHolidays([{ date, name }]);
+  return { message: 'Holiday saved', imported: 1 };
+}
+
+async function saveLeave(body: Record<string, unknown>) {
+  const userId = requireUserId(body.userId);
+  const date = requireDate(body.date);
+  const hours = Number(body.hours);
+  if (!(hours > 0 && hours <= 24)) {
+    throw new HttpError(400, 'hours must be between 0 and 24');
+  }
+  if (!isLeaveType(body.type)) {
+    throw new HttpError(400, `type must be one of ${LEAVE_TYPES.join(', ')}`);
+  }
+  const days = Number(body.days);
+  if (days !== 1 && days !== 0.5) {
+    throw new HttpError(400, 'days must be 1, or 0.5 for a half day');
+  }
+  const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : null;
+
+  const email = await getUserEmail(userId);
+  await saveLeaveDay(userId, date, { type: body.type, hours, days, reason });
+  await syncDay(userId, email, date);
+  return { message: 'Leave saved' };
+}
+
+async function deleteLeave(userId: string, date: string) {
+  const email = await getUserEmail(userId);
+  await deleteLeaveDay(userId, date);
+  await syncDay(userId, email, date);
+  return { message: 'Leave deleted' };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return preflightResponse();
+  }
+
+  try {
+    const admin = await getAuthenticatedUser(req);
+    requireRole(admin, 'admin');
+
+    const params = new URL(req.url).searchParams;
+    const route = `${req.method} ${params.get('resource') || ''}`.trim();
+
+    switch (route) {
+      case 'GET':
+        return jsonResponse(await getPolicy(params.get('year') || todayInTimeZone(admin.timeZone).slice(0, 4)));
+      case 'POST holidays':
+        return jsonResponse(await addHolidays(await req.json()));
+      case 'DELETE holidays':
+        await deleteHoliday(requireDate(params.get('date')));
+        return jsonResponse({ message: 'Holiday deleted' });
+      case 'PUT schedule': {
+        const body = await req.json();
+        const userId = requireUserId(body.userId);
+        const weekdayHours = parseWeekdayHours(body.weekdayHours);
+        if (weekdayHours) {
+          await saveWorkSchedule(userId, weekdayHours);
+        } else {
+          await deleteWorkSchedule(userId);
+        }
+        return jsonResponse({ message: 'Schedule saved' });
+      }
+      case 'PUT leave':
+        return jsonResponse(await saveLeave(await req.json()));
+      case 'DELETE leave':
+        return jsonResponse(await deleteLeave(requireUserId(params.get('userId')), requireDate(params.get('date'))));
+      default:
+        throw new HttpError(405, `${route} is not supported`);
+    }
+  } catch (error) {
+    console.error('Error managing working-hours policy:', error);
+    return jsonResponse(
+      {
+        error: req.method === 'GET' ? 'Failed to load working-hours policy' : 'Failed to update working-hours policy',
+        details: errorMessage(error),
+      },
+      errorStatus(error)
+    );
+  }
+});
@@ -0,0 +1,32 @@
+/*
+  # Create timesheet_submissions table
+
+  1. New Tables
+    - `timesheet_submissions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `idempotency_key` (text, client-generated, unique per user)
+      - `status` (text, `pending` while the submission is being written, then `completed`)
+      - `response_status` (integer, HTTP status returned for the submission)
+      - `response_body` (jsonb, body returned for the submission)
+      - `created_at` (timestamp)
+      - `completed_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `timesheet_submissions` table
+    - No policies: only the `timesheet` edge function (service role) reads and writes it
+*/
+
+CREATE TABLE IF NOT EXISTS timesheet_submissions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  idempotency_key text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed')),
+  response_status integer,
+  response_body jsonb,
+  created_at timestamptz DEFAULT now(),
+  completed_at timestamptz,
+  UNIQUE (user_id, idempotency_key)
+);
+
+ALTER TABLE timesheet_submissions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,98 @@
+/*
+  # Create timesheets table as the system of record
+
+  Revives the table from the discarded `steep_swamp` migration. Entries are
+  written here first by the `timesheet` edge function and then mirrored into
+  each user's Google spreadsheet.
+
+  1. New Tables
+    - `timesheets`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `date` (date)
+      - `hours` (numeric)
+      - `description` (text)
+      - `project` (text)
+      - `position` (integer, order of the entry within its submission)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+    - `timesheet_sheet_sync`
+      - `user_id` (uuid, references auth.users)
+      - `date` (date)
+      - `user_email` (text, names the spreadsheet to sync into)
+      - `status` (text, `pending`, `synced` or `failed`)
+      - `attempts` (integer)
+      - `last_error` (text)
+      - `updated_at` (timestamp)
+
+  2. Functions
+    - `replace_timesheet_day` swaps a user's entries for a date in one transaction
+
+  3. Security
+    - Enable RLS on both tables
+    - Users can read their own timesheet entries
+    - Writes go through the `timesheet` edge function (service role) so they are
+      validated and mirrored to the spreadsheet
+*/
+
+CREATE TABLE IF NOT EXISTS timesheets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) NOT NULL,
+  date date NOT NULL,
+  hours numeric(4,2) NOT NULL CHECK (hours > 0 AND hours <= 24),
+  description text NOT NULL,
+  project text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS timesheets_user_id_date_idx ON timesheets (user_id, date);
+CREATE INDEX IF NOT EXISTS timesheets_date_idx ON timesheets (date);
+
+ALTER TABLE timesheets ENABLE ROW LEVEL SECURITY;
+
+-- Policy for users to read their own timesheet entries
+CREATE POLICY "Users can read their own timesheet entries"
+  ON timesheets
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS timesheet_sheet_sync (
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  date date NOT NULL,
+  user_email text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'synced', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS timesheet_sheet_sync_status_idx ON timesheet_sheet_sync (status);
+
+ALTER TABLE timesheet_sheet_sync ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION replace_timesheet_day(p_user_id uuid, p_date date, p_entries jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM timesheets WHERE user_id = p_user_id AND date = p_date;
+
+  INSERT INTO timesheets (user_id, date, project, description, hours, position)
+  SELECT
+    p_user_id,
+    p_date,
+    entry->>'project',
+    entry->>'description',
+    (entry->>'hours')::numeric,
+    (ordinality - 1)::integer
+  FROM jsonb_array_elements(p_entries) WITH ORDINALITY AS t(entry, ordinality);
+
+  RETURN jsonb_array_length(p_entries);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION replace_timesheet_day(uuid, date, jsonb) FROM PUBLIC, anon, authenticated;
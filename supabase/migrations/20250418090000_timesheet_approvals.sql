@@ -0,0 +1,49 @@
+/*
+  # Create timesheet_approvals table
+
+  Review state of each user's day. Every day with entries has a row, starting
+  as `submitted`; a day without a row is a `draft`.
+
+  1. New Tables
+    - `timesheet_approvals`
+      - `user_id` (uuid, references auth.users)
+      - `date` (date)
+      - `status` (text, `draft`, `submitted`, `approved` or `rejected`)
+      - `comment` (text, approver's note, required when rejecting)
+      - `reviewed_by` (uuid, references auth.users)
+      - `reviewed_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `timesheet_approvals` table
+    - Users can read the review state of their own days
+    - Changes go through the `timesheet` and `timesheet-approvals` edge functions
+*/
+
+CREATE TABLE IF NOT EXISTS timesheet_approvals (
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  date date NOT NULL,
+  status text NOT NULL DEFAULT 'submitted' CHECK (status IN ('draft', 'submitted', 'approved', 'rejected')),
+  comment text,
+  reviewed_by uuid REFERENCES auth.users(id),
+  reviewed_at timestamptz,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, date),
+  CHECK (status <> 'rejected' OR comment IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS timesheet_approvals_date_idx ON timesheet_approvals (date);
+
+-- Days submitted before approvals existed start out awaiting review
+INSERT INTO timesheet_approvals (user_id, date)
+SELECT DISTINCT user_id, date FROM timesheets
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE timesheet_approvals ENABLE ROW LEVEL SECURITY;
+
+-- Policy for users to read the review state of their own days
+CREATE POLICY "Users can read their own timesheet approvals"
+  ON timesheet_approvals
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
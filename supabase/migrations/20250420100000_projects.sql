@@ -0,0 +1,64 @@
+/*
+  # Create project catalogue
+
+  Timesheet entries now name a project from this catalogue by its code
+  instead of free text, so reports group cleanly per project.
+
+  1. New Tables
+    - `projects`
+      - `id` (uuid, primary key)
+      - `code` (text, unique, stored in `timesheets.project`)
+      - `name` (text)
+      - `client` (text)
+      - `active` (boolean, archived projects cannot receive new entries)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+    - `project_members`
+      - `project_id` (uuid, references projects)
+      - `user_id` (uuid, references auth.users)
+
+  2. Security
+    - Enable RLS on both tables
+    - Signed-in users can read the catalogue
+    - Changes go through the `projects` edge function, which requires the
+      admin role
+
+  3. Notes
+    - A project without members is open to everyone; once members are
+      assigned only they can log time against it
+*/
+
+CREATE TABLE IF NOT EXISTS projects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE CHECK (code ~ '^[A-Z0-9][A-Z0-9-]*$'),
+  name text NOT NULL,
+  client text,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS project_members (
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  PRIMARY KEY (project_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS project_members_user_id_idx ON project_members (user_id);
+
+ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_members ENABLE ROW LEVEL SECURITY;
+
+-- Policy for signed-in users to read the project catalogue
+CREATE POLICY "Authenticated users can read projects"
+  ON projects
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Policy for users to see which projects they are assigned to
+CREATE POLICY "Users can read their own project assignments"
+  ON project_members
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,81 @@
+/*
+  # Create working-hours policy tables
+
+  What the daily monitor expects each user to log: their weekly schedule,
+  less organisation holidays and approved leave.
+
+  1. New Tables
+    - `holidays`
+      - `date` (date, primary key)
+      - `name` (text)
+    - `work_schedules`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `weekday_hours` (numeric[7], expected hours Monday first)
+      - `updated_at` (timestamp)
+    - `leave_days`
+      - `user_id` (uuid, references auth.users)
+      - `date` (date)
+      - `hours` (numeric, hours of the expected day covered by leave)
+      - `reason` (text)
+
+  2. Security
+    - Enable RLS on all tables
+    - Signed-in users can read the holiday calendar, their own schedule and
+      their own leave
+    - Changes go through the `work-policy` edge function, which requires the
+      admin role
+
+  3. Notes
+    - Users without a `work_schedules` row are expected to log 8 hours Monday
+      to Friday
+*/
+
+CREATE TABLE IF NOT EXISTS holidays (
+  date date PRIMARY KEY,
+  name text NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS work_schedules (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  weekday_hours numeric(4,2)[] NOT NULL CHECK (
+    array_length(weekday_hours, 1) = 7
+    AND 0 <= ALL (weekday_hours)
+    AND 24 >= ALL (weekday_hours)
+  ),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS leave_days (
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  date date NOT NULL,
+  hours numeric(4,2) NOT NULL CHECK (hours > 0 AND hours <= 24),
+  reason text,
+  PRIMARY KEY (user_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS leave_days_date_idx ON leave_days (date);
+
+ALTER TABLE holidays ENABLE ROW LEVEL SECURITY;
+ALTER TABLE work_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE leave_days ENABLE ROW LEVEL SECURITY;
+
+-- Policy for signed-in users to read the holiday calendar
+CREATE POLICY "Authenticated users can read holidays"
+  ON holidays
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Policy for users to read their own schedule
+CREATE POLICY "Users can read their own work schedule"
+  ON work_schedules
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Policy for users to read their own leave
+CREATE POLICY "Users can read their own leave days"
+  ON leave_days
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
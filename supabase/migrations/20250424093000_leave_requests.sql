@@ -0,0 +1,91 @@
+/*
+  # Create leave requests and allowances
+
+  Employees file leave from the web app and an admin approves it. Approved
+  requests are expanded into `leave_days`, which the working-hours policy
+  already counts as covered hours.
+
+  1. New Tables
+    - `leave_requests`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `type` (text, `annual`, `sick`, `casual` or `unpaid`)
+      - `start_date` (date)
+      - `end_date` (date)
+      - `half_day` (boolean, only for single-day requests)
+      - `days` (numeric, working days the request takes off the balance)
+      - `reason` (text)
+      - `status` (text, `pending`, `approved`, `rejected` or `cancelled`)
+      - `review_comment` (text, required when rejecting)
+      - `reviewed_by` (uuid, references auth.users)
+      - `reviewed_at` (timestamp)
+      - `created_at` (timestamp)
+    - `leave_allowances`
+      - `user_id` (uuid, references auth.users)
+      - `year` (integer)
+      - `type` (text)
+      - `days` (numeric, days available that year)
+
+  2. Changes
+    - `leave_days` gains `request_id` (the approved request it came from, null
+      for leave recorded directly by an admin), `type` and `days` (1 or 0.5)
+
+  3. Security
+    - Enable RLS on the new tables
+    - Users can read their own requests and allowances
+    - Changes go through the `leave` edge function
+*/
+
+CREATE TABLE IF NOT EXISTS leave_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  type text NOT NULL CHECK (type IN ('annual', 'sick', 'casual', 'unpaid')),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  half_day boolean NOT NULL DEFAULT false,
+  days numeric(5,1) NOT NULL CHECK (days > 0),
+  reason text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  review_comment text,
+  reviewed_by uuid REFERENCES auth.users(id),
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CHECK (end_date >= start_date),
+  CHECK (NOT half_day OR start_date = end_date),
+  CHECK (status <> 'rejected' OR review_comment IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS leave_requests_user_id_idx ON leave_requests (user_id, start_date);
+CREATE INDEX IF NOT EXISTS leave_requests_status_idx ON leave_requests (status);
+
+CREATE TABLE IF NOT EXISTS leave_allowances (
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  year integer NOT NULL,
+  type text NOT NULL CHECK (type IN ('annual', 'sick', 'casual', 'unpaid')),
+  days numeric(5,1) NOT NULL CHECK (days >= 0),
+  PRIMARY KEY (user_id, year, type)
+);
+
+ALTER TABLE leave_days
+  ADD COLUMN IF NOT EXISTS request_id uuid REFERENCES leave_requests(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS type text NOT NULL DEFAULT 'annual',
+  ADD COLUMN IF NOT EXISTS days numeric(2,1) NOT NULL DEFAULT 1 CHECK (days IN (0.5, 1));
+
+CREATE INDEX IF NOT EXISTS leave_days_request_id_idx ON leave_days (request_id);
+
+ALTER TABLE leave_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE leave_allowances ENABLE ROW LEVEL SECURITY;
+
+-- Policy for users to read their own leave requests
+CREATE POLICY "Users can read their own leave requests"
+  ON leave_requests
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Policy for users to read their own leave allowances
+CREATE POLICY "Users can read their own leave allowances"
+  ON leave_allowances
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
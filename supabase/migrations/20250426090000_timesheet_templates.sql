@@ -0,0 +1,40 @@
+/*
+  # Create personal timesheet templates
+
+  Named sets of projects and tasks a user can apply to any date from the
+  Dashboard instead of typing the same rows every day.
+
+  1. New Tables
+    - `timesheet_templates`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `name` (text, unique per user)
+      - `projects` (jsonb, `[{ name, tasks: [{ description, hours }] }]`,
+        hours may be null)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `timesheet_templates`
+    - Users can read their own templates
+    - Changes go through the `timesheet-templates` edge function
+*/
+
+CREATE TABLE IF NOT EXISTS timesheet_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  projects jsonb NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE timesheet_templates ENABLE ROW LEVEL SECURITY;
+
+-- Policy for users to read their own templates
+CREATE POLICY "Users can read their own timesheet templates"
+  ON timesheet_templates
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,39 @@
+/*
+  # Create server-side timesheet drafts
+
+  The Dashboard keeps an unsubmitted form per date in the browser. When the
+  web app is built with `VITE_SERVER_DRAFTS=true` it also stores the draft
+  here so it follows the user to another device.
+
+  1. New Tables
+    - `timesheet_drafts`
+      - `user_id` (uuid, references auth.users)
+      - `date` (date)
+      - `projects` (jsonb, the form rows as typed)
+      - `editing` (boolean, whether the draft replaces entries already
+        submitted for the date)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `timesheet_drafts`
+    - Users can read their own drafts
+    - Changes go through the `timesheet-drafts` edge function
+*/
+
+CREATE TABLE IF NOT EXISTS timesheet_drafts (
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  date date NOT NULL,
+  projects jsonb NOT NULL,
+  editing boolean NOT NULL DEFAULT false,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, date)
+);
+
+ALTER TABLE timesheet_drafts ENABLE ROW LEVEL SECURITY;
+
+-- Policy for users to read their own drafts
+CREATE POLICY "Users can read their own timesheet drafts"
+  ON timesheet_drafts
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,34 @@
+/*
+  # Create running timers
+
+  Each user can run one timer against a project and task from the
+  Dashboard. Stopping it turns the elapsed time into a task row.
+
+  1. New Tables
+    - `timers`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `project` (text, project code)
+      - `description` (text)
+      - `started_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `timers`
+    - Users can read their own timer
+    - Starting and stopping go through the `timesheet-timer` edge function
+*/
+
+CREATE TABLE IF NOT EXISTS timers (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  project text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  started_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE timers ENABLE ROW LEVEL SECURITY;
+
+-- Policy for users to read their own timer
+CREATE POLICY "Users can read their own timer"
+  ON timers
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,43 @@
+/*
+  # Add billing rates and invoice reports
+
+  Projects can be marked billable with an hourly rate, and admins generate a
+  monthly report of approved hours per client and project to invoice from.
+
+  1. Changes
+    - `projects` gains `billable` (boolean) and `hourly_rate` (numeric,
+      required for billable projects)
+
+  2. New Tables
+    - `invoice_reports`
+      - `month` (text, primary key, `YYYY-MM`)
+      - `currency` (text)
+      - `report` (jsonb, line items and totals as generated)
+      - `generated_by` (uuid, references auth.users)
+      - `generated_at` (timestamp)
+
+  3. Security
+    - Enable RLS on `invoice_reports` with no policies; reports are only
+      read and written through the admin-only `invoice-reports` edge function
+
+  4. Notes
+    - A stored report is a snapshot: later rate changes or approvals do not
+      alter it until an admin regenerates the month
+*/
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS billable boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS hourly_rate numeric(10,2) CHECK (hourly_rate >= 0);
+
+ALTER TABLE projects
+  ADD CONSTRAINT projects_billable_rate_check CHECK (NOT billable OR hourly_rate IS NOT NULL);
+
+CREATE TABLE IF NOT EXISTS invoice_reports (
+  month text PRIMARY KEY CHECK (month ~ '^\d{4}-(0[1-9]|1[0-2])$'),
+  currency text NOT NULL,
+  report jsonb NOT NULL,
+  generated_by uuid REFERENCES auth.users(id),
+  generated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE invoice_reports ENABLE ROW LEVEL SECURITY;
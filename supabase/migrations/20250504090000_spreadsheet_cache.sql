@@ -0,0 +1,30 @@
+/*
+  # Cache each user's spreadsheet id
+
+  Finding a user's spreadsheet takes a Drive search by file name. The id is
+  stored here the first time it is found or created, so syncing a day only
+  needs the Sheets calls that change rows.
+
+  1. New Tables
+    - `user_spreadsheets`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `spreadsheet_id` (text, the Google Drive file id)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `user_spreadsheets` with no policies; only the edge
+      functions (service role) read and write it
+
+  3. Notes
+    - A cached id that Google no longer knows (the file was deleted or moved
+      out of the folder) is dropped on the next failed sync, and the retry
+      searches Drive again
+*/
+
+CREATE TABLE IF NOT EXISTS user_spreadsheets (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  spreadsheet_id text NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE user_spreadsheets ENABLE ROW LEVEL SECURITY;
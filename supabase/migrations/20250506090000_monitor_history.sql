@@ -0,0 +1,74 @@
+/*
+  # Keep the daily monitor's results
+
+  Every `timesheet-monitor` run is recorded along with the outcome for each
+  user and date it checked, so admins can look at compliance over time.
+
+  1. New Tables
+    - `monitor_runs`
+      - `id` (uuid, primary key)
+      - `trigger` (text, `schedule` or `rerun`)
+      - `triggered_by` (uuid, the admin who re-ran a date; null for scheduled runs)
+      - `dates` (date[], the dates checked)
+      - `users` (integer, users checked)
+      - `missing` (integer)
+      - `incomplete` (integer)
+      - `stats` (jsonb, timings of the run)
+      - `created_at` (timestamp)
+    - `compliance_checks`
+      - `user_id` (uuid, references auth.users)
+      - `date` (date)
+      - `status` (text, `off`, `missing`, `incomplete` or `complete`)
+      - `hours_logged` (numeric)
+      - `expected` (numeric)
+      - `run_id` (uuid, the run that last checked the day)
+      - `checked_at` (timestamp)
+
+  2. Security
+    - Enable RLS on both tables
+    - Users can read their own compliance checks
+    - Runs and checks are written by the edge functions (service role)
+
+  3. Notes
+    - One check per user and date: running the check for a date again
+      overwrites its result instead of adding another, so re-runs never
+      double count
+*/
+
+CREATE TABLE IF NOT EXISTS monitor_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trigger text NOT NULL CHECK (trigger IN ('schedule', 'rerun')),
+  triggered_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  dates date[] NOT NULL,
+  users integer NOT NULL DEFAULT 0,
+  missing integer NOT NULL DEFAULT 0,
+  incomplete integer NOT NULL DEFAULT 0,
+  stats jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS monitor_runs_created_at_idx ON monitor_runs (created_at DESC);
+
+ALTER TABLE monitor_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS compliance_checks (
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  date date NOT NULL,
+  status text NOT NULL CHECK (status IN ('off', 'missing', 'incomplete', 'complete')),
+  hours_logged numeric(5,2) NOT NULL DEFAULT 0,
+  expected numeric(5,2) NOT NULL DEFAULT 0,
+  run_id uuid REFERENCES monitor_runs(id) ON DELETE SET NULL,
+  checked_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS compliance_checks_date_idx ON compliance_checks (date);
+
+ALTER TABLE compliance_checks ENABLE ROW LEVEL SECURITY;
+
+-- Policy for users to read their own compliance checks
+CREATE POLICY "Users can read their own compliance checks"
+  ON compliance_checks
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
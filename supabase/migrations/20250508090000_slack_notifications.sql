@@ -0,0 +1,30 @@
+/*
+  # Record personal Slack notifications
+
+  The reminder before the cutoff and the escalation to a manager are each
+  sent at most once per user and date. A row is claimed before the message
+  goes out, so overlapping runs cannot send it twice.
+
+  1. New Tables
+    - `slack_notifications`
+      - `user_id` (uuid, references auth.users, the user the message is about)
+      - `date` (date)
+      - `kind` (text, `reminder` or `escalation`)
+      - `recipient` (text, email of the person messaged)
+      - `sent_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `slack_notifications` with no policies; only the edge
+      functions (service role) read and write it
+*/
+
+CREATE TABLE IF NOT EXISTS slack_notifications (
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  date date NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('reminder', 'escalation')),
+  recipient text NOT NULL,
+  sent_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, date, kind)
+);
+
+ALTER TABLE slack_notifications ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,64 @@
+/*
+  # Enforce the daily cap in the same transaction as the insert
+
+  The `timesheet` function used to read a day's hours and then insert the new
+  entries in a separate request, so two submissions for the same day could
+  both pass the check and together exceed `MAX_DAILY_HOURS`.
+
+  1. Functions
+    - `append_timesheet_entries` adds a user's entries after checking, per
+      date, that the day's total stays within the given cap. Callers for the
+      same user and date wait on an advisory lock, so the check and the insert
+      see every earlier submission. Raises `daily_limit_exceeded` with the
+      date and the hours already logged as JSON in the detail.
+
+  2. Security
+    - Only the service role (the `timesheet` edge function) may call it
+*/
+
+CREATE OR REPLACE FUNCTION append_timesheet_entries(
+  p_user_id uuid,
+  p_entries jsonb,
+  p_max_daily_hours numeric
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_date date;
+  v_added numeric;
+  v_existing numeric;
+BEGIN
+  FOR v_date, v_added IN
+    SELECT (entry->>'date')::date, sum((entry->>'hours')::numeric)
+    FROM jsonb_array_elements(p_entries) AS t(entry)
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    PERFORM pg_advisory_xact_lock(hashtext('timesheet_day'), hashtext(p_user_id::text || v_date::text));
+
+    SELECT coalesce(sum(hours), 0) INTO v_existing
+    FROM timesheets
+    WHERE user_id = p_user_id AND date = v_date;
+
+    IF p_max_daily_hours IS NOT NULL AND v_existing + v_added > p_max_daily_hours THEN
+      RAISE EXCEPTION 'daily_limit_exceeded'
+        USING DETAIL = jsonb_build_object('date', v_date, 'existing_hours', v_existing)::text;
+    END IF;
+  END LOOP;
+
+  INSERT INTO timesheets (user_id, date, project, description, hours, position)
+  SELECT
+    p_user_id,
+    (entry->>'date')::date,
+    entry->>'project',
+    entry->>'description',
+    (entry->>'hours')::numeric,
+    (ordinality - 1)::integer
+  FROM jsonb_array_elements(p_entries) WITH ORDINALITY AS t(entry, ordinality);
+
+  RETURN jsonb_array_length(p_entries);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION append_timesheet_entries(uuid, jsonb, numeric) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,101 @@
+/*
+  # Write entries and their review state together, and fingerprint submissions
+
+  A submission used to insert its entries and then mark the day as submitted
+  in a second request. When that second request failed, the idempotency key
+  was released although the entries were committed, and the client's retry
+  added the day again.
+
+  1. Changes to Tables
+    - `timesheet_submissions`
+      - `request_hash` (text, SHA-256 of the request's method and body; a key
+        reused for a different request is refused)
+
+  2. Functions
+    - `append_timesheet_entries` and `replace_timesheet_day` now also put
+      each written date (back) into review in `timesheet_approvals`, in the
+      same transaction as the entries
+
+  3. Notes
+    - Keys claimed before this migration have no hash and are replayed
+      without the check
+*/
+
+ALTER TABLE timesheet_submissions ADD COLUMN IF NOT EXISTS request_hash text;
+
+CREATE OR REPLACE FUNCTION append_timesheet_entries(
+  p_user_id uuid,
+  p_entries jsonb,
+  p_max_daily_hours numeric
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_date date;
+  v_added numeric;
+  v_existing numeric;
+BEGIN
+  FOR v_date, v_added IN
+    SELECT (entry->>'date')::date, sum((entry->>'hours')::numeric)
+    FROM jsonb_array_elements(p_entries) AS t(entry)
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    PERFORM pg_advisory_xact_lock(hashtext('timesheet_day'), hashtext(p_user_id::text || v_date::text));
+
+    SELECT coalesce(sum(hours), 0) INTO v_existing
+    FROM timesheets
+    WHERE user_id = p_user_id AND date = v_date;
+
+    IF p_max_daily_hours IS NOT NULL AND v_existing + v_added > p_max_daily_hours THEN
+      RAISE EXCEPTION 'daily_limit_exceeded'
+        USING DETAIL = jsonb_build_object('date', v_date, 'existing_hours', v_existing)::text;
+    END IF;
+  END LOOP;
+
+  INSERT INTO timesheets (user_id, date, project, description, hours, position)
+  SELECT
+    p_user_id,
+    (entry->>'date')::date,
+    entry->>'project',
+    entry->>'description',
+    (entry->>'hours')::numeric,
+    (ordinality - 1)::integer
+  FROM jsonb_array_elements(p_entries) WITH ORDINALITY AS t(entry, ordinality);
+
+  INSERT INTO timesheet_approvals (user_id, date, status, updated_at)
+  SELECT DISTINCT p_user_id, (entry->>'date')::date, 'submitted', now()
+  FROM jsonb_array_elements(p_entries) AS t(entry)
+  ON CONFLICT (user_id, date) DO UPDATE
+    SET status = 'submitted', comment = NULL, reviewed_by = NULL, reviewed_at = NULL, updated_at = now();
+
+  RETURN jsonb_array_length(p_entries);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION replace_timesheet_day(p_user_id uuid, p_date date, p_entries jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM timesheets WHERE user_id = p_user_id AND date = p_date;
+
+  INSERT INTO timesheets (user_id, date, project, description, hours, position)
+  SELECT
+    p_user_id,
+    p_date,
+    entry->>'project',
+    entry->>'description',
+    (entry->>'hours')::numeric,
+    (ordinality - 1)::integer
+  FROM jsonb_array_elements(p_entries) WITH ORDINALITY AS t(entry, ordinality);
+
+  INSERT INTO timesheet_approvals (user_id, date, status, updated_at)
+  VALUES (p_user_id, p_date, 'submitted', now())
+  ON CONFLICT (user_id, date) DO UPDATE
+    SET status = 'submitted', comment = NULL, reviewed_by = NULL, reviewed_at = NULL, updated_at = now();
+
+  RETURN jsonb_array_length(p_entries);
+END;
+$$;
@@ -0,0 +1,104 @@
+/*
+  # Keep project codes stable and map legacy project names
+
+  Entries store their project's code as text, so changing a project's code
+  left its entries naming a project that no longer exists. Entries logged
+  before the catalogue still carry free-text project names.
+
+  1. Changes
+    - A trigger refuses to change `projects.code` while any entry uses it
+    - Entries whose project matches exactly one catalogue code or name,
+      ignoring case and surrounding spaces, are rewritten to that code
+
+  2. Functions
+    - `legacy_project_names()` lists the project values in `timesheets` that
+      are not catalogue codes, with the number of entries using each
+    - `map_legacy_project(p_name, p_code)` rewrites the entries named
+      `p_name` to the catalogue code `p_code` and queues their days to be
+      synced to the spreadsheets again. Returns the number of entries changed.
+
+  3. Security
+    - Only the service role (the `projects` edge function) may call them
+*/
+
+CREATE OR REPLACE FUNCTION prevent_used_project_code_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.code IS DISTINCT FROM OLD.code AND EXISTS (SELECT 1 FROM timesheets WHERE project = OLD.code) THEN
+    RAISE EXCEPTION 'project_code_in_use' USING DETAIL = OLD.code;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS projects_code_in_use ON projects;
+CREATE TRIGGER projects_code_in_use
+  BEFORE UPDATE OF code ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_used_project_code_change();
+
+CREATE OR REPLACE FUNCTION legacy_project_names()
+RETURNS TABLE (name text, entries bigint)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT t.project, count(*)
+  FROM timesheets t
+  WHERE NOT EXISTS (SELECT 1 FROM projects p WHERE p.code = t.project)
+  GROUP BY t.project
+  ORDER BY t.project;
+$$;
+
+CREATE OR REPLACE FUNCTION map_legacy_project(p_name text, p_code text)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM projects WHERE code = p_code) THEN
+    RAISE EXCEPTION 'unknown_project';
+  END IF;
+  IF EXISTS (SELECT 1 FROM projects WHERE code = p_name) THEN
+    RAISE EXCEPTION 'not_a_legacy_name';
+  END IF;
+
+  INSERT INTO timesheet_sheet_sync (user_id, date, user_email, status, attempts, last_error, updated_at)
+  SELECT DISTINCT t.user_id, t.date, u.email, 'pending', 0, NULL, now()
+  FROM timesheets t
+  JOIN auth.users u ON u.id = t.user_id
+  WHERE t.project = p_name
+  ON CONFLICT (user_id, date) DO UPDATE
+    SET status = 'pending', attempts = 0, last_error = NULL, updated_at = now();
+
+  UPDATE timesheets
+  SET project = p_code, updated_at = now()
+  WHERE project = p_name;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION legacy_project_names() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION map_legacy_project(text, text) FROM PUBLIC, anon, authenticated;
+
+-- Names that clearly mean one catalogue project are mapped now; the rest are
+-- left for an admin to map
+DO $$
+DECLARE
+  v_legacy record;
+BEGIN
+  FOR v_legacy IN
+    SELECT l.name, min(p.code) AS code
+    FROM legacy_project_names() l
+    JOIN projects p ON upper(trim(l.name)) IN (upper(p.code), upper(p.name))
+    GROUP BY l.name
+    HAVING count(DISTINCT p.code) = 1
+  LOOP
+    PERFORM map_legacy_project(v_legacy.name, v_legacy.code);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,46 @@
+/*
+  # Log timesheet reviews
+
+  A decision on a day used to apply to any reviewed day, so an approved day
+  could be rejected (and unlocked) without anyone noticing. Decisions now only
+  apply to submitted days, and approved days are put back into review by an
+  explicit reopen. Every decision and reopen is recorded here.
+
+  1. New Tables
+    - `timesheet_approval_log`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users, owner of the day)
+      - `date` (date)
+      - `action` (text, `approved`, `rejected` or `reopened`)
+      - `reviewed_by` (uuid, references auth.users)
+      - `comment` (text, required when rejecting or reopening)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `timesheet_approval_log` table
+    - Users can read the log of their own days
+    - Rows are written by the `timesheet-approvals` edge function
+*/
+
+CREATE TABLE IF NOT EXISTS timesheet_approval_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  date date NOT NULL,
+  action text NOT NULL CHECK (action IN ('approved', 'rejected', 'reopened')),
+  reviewed_by uuid REFERENCES auth.users(id) NOT NULL,
+  comment text,
+  created_at timestamptz DEFAULT now(),
+  CHECK (action = 'approved' OR comment IS NOT NULL),
+  CHECK (reviewed_by <> user_id)
+);
+
+CREATE INDEX IF NOT EXISTS timesheet_approval_log_user_date_idx ON timesheet_approval_log (user_id, date);
+
+ALTER TABLE timesheet_approval_log ENABLE ROW LEVEL SECURITY;
+
+-- Policy for users to read the review history of their own days
+CREATE POLICY "Users can read the review log of their own days"
+  ON timesheet_approval_log
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
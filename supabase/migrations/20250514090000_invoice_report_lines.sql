@@ -0,0 +1,110 @@
+/*
+  # Snapshot invoice lines and protect generated months
+
+  Generating a month replaced any report already stored for it, so a second
+  click after a rate change silently repriced an invoice that had been sent.
+
+  1. New Tables
+    - `invoice_report_lines`, one row per client, project and employee of a
+      stored report, with the terms it was priced at
+      - `month` (text, references invoice_reports)
+      - `client` (text)
+      - `project_code` (text)
+      - `project_name` (text)
+      - `employee` (text)
+      - `email` (text)
+      - `hours` (numeric)
+      - `billable` (boolean, the project's flag when the month was generated)
+      - `rate` (numeric, the project's hourly rate when the month was generated)
+      - `amount` (numeric)
+
+  2. Functions
+    - `store_invoice_report` stores a report and its lines in one
+      transaction. A month that already has a report raises
+      `invoice_report_exists` unless `p_force` is set.
+    - `insert_invoice_report_lines` copies a report's lines into the table
+
+  3. Security
+    - Enable RLS on `invoice_report_lines` with no policies, like
+      `invoice_reports`
+    - Only the service role (the `invoice-reports` edge function) may call
+      `store_invoice_report`
+
+  4. Notes
+    - Lines of reports generated before this migration are copied from the
+      stored report
+*/
+
+CREATE TABLE IF NOT EXISTS invoice_report_lines (
+  month text REFERENCES invoice_reports(month) ON DELETE CASCADE NOT NULL,
+  client text NOT NULL,
+  project_code text NOT NULL,
+  project_name text NOT NULL,
+  employee text NOT NULL,
+  email text NOT NULL,
+  hours numeric NOT NULL,
+  billable boolean NOT NULL,
+  rate numeric(10,2),
+  amount numeric(12,2) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS invoice_report_lines_month_idx ON invoice_report_lines (month);
+
+ALTER TABLE invoice_report_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION insert_invoice_report_lines(p_month text, p_lines jsonb)
+RETURNS void
+LANGUAGE sql
+AS $$
+  INSERT INTO invoice_report_lines (month, client, project_code, project_name, employee, email, hours, billable, rate, amount)
+  SELECT
+    p_month,
+    line->>'client',
+    line->>'projectCode',
+    line->>'projectName',
+    line->>'employee',
+    line->>'email',
+    (line->>'hours')::numeric,
+    (line->>'billable')::boolean,
+    (line->>'rate')::numeric,
+    (line->>'amount')::numeric
+  FROM jsonb_array_elements(p_lines) AS t(line);
+$$;
+
+CREATE OR REPLACE FUNCTION store_invoice_report(
+  p_month text,
+  p_currency text,
+  p_report jsonb,
+  p_generated_by uuid,
+  p_generated_at timestamptz,
+  p_force boolean
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO invoice_reports (month, currency, report, generated_by, generated_at)
+  VALUES (p_month, p_currency, p_report, p_generated_by, p_generated_at)
+  ON CONFLICT (month) DO NOTHING;
+
+  IF NOT FOUND THEN
+    IF NOT p_force THEN
+      RAISE EXCEPTION 'invoice_report_exists';
+    END IF;
+
+    UPDATE invoice_reports
+    SET currency = p_currency, report = p_report, generated_by = p_generated_by, generated_at = p_generated_at
+    WHERE month = p_month;
+    DELETE FROM invoice_report_lines WHERE month = p_month;
+  END IF;
+
+  PERFORM insert_invoice_report_lines(p_month, p_report->'lines');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION insert_invoice_report_lines(text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION store_invoice_report(text, text, jsonb, uuid, timestamptz, boolean) FROM PUBLIC, anon, authenticated;
+
+SELECT insert_invoice_report_lines(month, report->'lines')
+FROM invoice_reports
+WHERE NOT EXISTS (SELECT 1 FROM invoice_report_lines l WHERE l.month = invoice_reports.month);
@@ -0,0 +1,22 @@
+/*
+  # Restrict leave day types
+
+  `leave_days.type` was added without the check that `leave_requests` and
+  `leave_allowances` have, so a day recorded directly by an admin could carry
+  a type no balance counts.
+
+  1. Changes
+    - `leave_days.type` must be `annual`, `sick`, `casual` or `unpaid`
+
+  2. Notes
+    - Days with any other type are recorded as `annual`, the column's default,
+      before the check is added
+*/
+
+UPDATE leave_days
+SET type = 'annual'
+WHERE type NOT IN ('annual', 'sick', 'casual', 'unpaid');
+
+ALTER TABLE leave_days DROP CONSTRAINT IF EXISTS leave_days_type_check;
+ALTER TABLE leave_days
+  ADD CONSTRAINT leave_days_type_check CHECK (type IN ('annual', 'sick', 'casual', 'unpaid'));
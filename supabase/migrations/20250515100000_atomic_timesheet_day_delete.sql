@@ -0,0 +1,33 @@
+/*
+  # Delete a day and its review state together
+
+  Deleting a day removed its entries and then cleared its review state in a
+  second request. When that request failed, the empty day was left submitted
+  (or rejected) for review.
+
+  1. Functions
+    - `delete_timesheet_day(p_user_id, p_date)` deletes the user's entries for
+      the date and its row in `timesheet_approvals` in one transaction.
+      Returns the number of entries deleted.
+
+  2. Security
+    - Only the service role (the `timesheet` edge function) may call it
+*/
+
+CREATE OR REPLACE FUNCTION delete_timesheet_day(p_user_id uuid, p_date date)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  DELETE FROM timesheets WHERE user_id = p_user_id AND date = p_date;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  DELETE FROM timesheet_approvals WHERE user_id = p_user_id AND date = p_date;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION delete_timesheet_day(uuid, date) FROM PUBLIC, anon, authenticated;
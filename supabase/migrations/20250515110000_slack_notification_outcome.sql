@@ -0,0 +1,17 @@
+/*
+  # Record what happened to each Slack notification
+
+  A reminder for someone without a Slack account released its claim, so every
+  run of `timesheet-reminders` looked their email up again.
+
+  1. Changes to Tables
+    - `slack_notifications`
+      - `outcome` (text, `sent` or `no_slack_account`). The claim stays in
+        place either way, so neither is tried again for the same day.
+
+  2. Notes
+    - Existing rows were all sent
+*/
+
+ALTER TABLE slack_notifications
+  ADD COLUMN IF NOT EXISTS outcome text NOT NULL DEFAULT 'sent' CHECK (outcome IN ('sent', 'no_slack_account'));